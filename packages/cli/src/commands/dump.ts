@@ -21,21 +21,15 @@ export interface GeoJsonPolygon {
   properties: Record<string, unknown>;
 }
 
-function makePolygon(xMin: number, yMin: number, xMax: number, yMax: number): GeoJsonPolygon {
+type Corner = [number, number];
+function makePolygon(corners: [Corner, Corner, Corner, Corner]): GeoJsonPolygon {
+  const [a, b, c, d] = corners;
   return {
     type: 'Feature',
     properties: {},
     geometry: {
       type: 'Polygon',
-      coordinates: [
-        [
-          [xMin, yMin],
-          [xMin, yMax],
-          [xMax, yMax],
-          [xMax, yMin],
-          [xMin, yMin],
-        ],
-      ],
+      coordinates: [[a, b, c, d, a]],
     },
   };
 }
@@ -81,7 +75,6 @@ async function dumpBounds(tiff: CogTiff, target: URL, index: number): Promise<vo
 
   const tileCount = img.tileCount;
   const tileInfo = img.tileSize;
-  const tileSize = img.size;
 
   const firstImage = tiff.images[0];
   if (firstImage.epsg !== 4326) {
@@ -90,21 +83,19 @@ async function dumpBounds(tiff: CogTiff, target: URL, index: number): Promise<vo
       properties: { name: `epsg:${firstImage.epsg}` },
     };
   }
-  firstImage.compression;
-  const firstTileSize = firstImage.size;
-  const origin = firstImage.origin;
-  const resolution = firstImage.resolution;
-
-  const xScale = (resolution[0] * firstTileSize.width) / tileSize.width;
-  const yScale = (resolution[1] * firstTileSize.height) / tileSize.height;
-
   for (let y = 0; y < tileCount.y; y++) {
-    const yMax = origin[1] + y * tileInfo.height * yScale;
-    const yMin = yMax + tileInfo.height * yScale;
+    const top = y * tileInfo.height;
+    const bottom = top + tileInfo.height;
     for (let x = 0; x < tileCount.x; x++) {
-      const xMin = origin[0] + x * tileInfo.width * xScale;
-      const xMax = xMin + tileInfo.width * xScale;
-      const poly = makePolygon(xMin, yMin, xMax, yMax);
+      const left = x * tileInfo.width;
+      const right = left + tileInfo.width;
+      // Transform every corner so PixelIsPoint shifts and rotations are applied
+      const poly = makePolygon([
+        img.toWorld(left, bottom),
+        img.toWorld(left, top),
+        img.toWorld(right, top),
+        img.toWorld(right, bottom),
+      ]);
       poly.properties = { tile: getTileName(firstImage.compression ?? TiffMimeType.None, index, x, y) };
       features.push(poly);
     }
@@ -1,5 +1,17 @@
 import { fsa } from '@chunkd/fs';
-import { CogTiff, Tag, TiffTagGeo, TiffTag, TiffTagValueType, TiffVersion, toHex, TagOffset } from '@cogeotiff/core';
+import {
+  CogTiff,
+  fetchGdalMetadata,
+  GdalMetadata,
+  RasterTypeKey,
+  Tag,
+  TiffTagGeo,
+  TiffTag,
+  TiffTagValueType,
+  TiffVersion,
+  toHex,
+  TagOffset,
+} from '@cogeotiff/core';
 import { CogTiffImage } from '@cogeotiff/core/src/cog.tiff.image.js';
 import c from 'ansi-colors';
 import { command, flag, option, optional, restPositionals } from 'cmd-ts';
@@ -48,17 +60,20 @@ export const commandInfo = command({
 
       const firstImage = tiff.images[0];
       const isGeoLocated = firstImage.isGeoLocated;
+      const verticalEpsg = firstImage.crs.verticalEpsg;
       const images = [
         { key: 'Compression', value: firstImage.compression },
         isGeoLocated ? { key: 'Origin', value: firstImage.origin.map(round).join(', ') } : null,
         isGeoLocated ? { key: 'Resolution', value: firstImage.resolution.map(round).join(', ') } : null,
         isGeoLocated ? { key: 'BoundingBox', value: firstImage.bbox.map(round).join(', ') } : null,
+        isGeoLocated ? { key: 'RasterType', value: RasterTypeKey[firstImage.rasterType] } : null,
         firstImage.epsg ? { key: 'EPSG', value: `EPSG:${firstImage.epsg} (https://epsg.io/${firstImage.epsg})` } : null,
+        verticalEpsg ? { key: 'Vertical EPSG', value: `EPSG:${verticalEpsg} (https://epsg.io/${verticalEpsg})` } : null,
         { key: 'Images', value: '\n' + TiffImageInfoTable.print(tiff.images, '\t').join('\n') },
       ];
 
       const ghostOptions = [...(tiff.options?.options.entries() ?? [])];
-      const gdalMetadata = parseGdalMetadata(firstImage);
+      const gdalMetadata = formatGdalMetadata(await fetchGdalMetadata(firstImage));
       const gdal = [
         {
           key: 'COG optimized',
@@ -115,6 +130,7 @@ export const commandInfo = command({
 const TiffImageInfoTable = new CliTable<CogTiffImage>();
 TiffImageInfoTable.add({ name: 'Id', width: 4, get: (_i, index) => String(index) });
 TiffImageInfoTable.add({ name: 'Size', width: 20, get: (i) => `${i.size.width}x${i.size.height}` });
+TiffImageInfoTable.add({ name: 'Type', width: 10, get: (i) => i.imageType });
 TiffImageInfoTable.add({
   name: 'Tile Size',
   width: 20,
@@ -153,21 +169,36 @@ TiffImageInfoTable.add({
 });
 
 /**
- * Parse out the GDAL Metadata to be more friendly to read
+ * Format the GDAL Metadata to be more friendly to read
  *
- * TODO using a XML Parser will make this even better
- * @param img
+ * @param metadata parsed GDAL metadata
  */
-function parseGdalMetadata(img: CogTiffImage): string[] | null {
-  const metadata = img.value(TiffTag.GdalMetadata);
-  if (typeof metadata !== 'string') return null;
-  if (!metadata.startsWith('<GDALMetadata>')) return null;
-  return metadata
-    .replace('<GDALMetadata>\n', '')
-    .replace('</GDALMetadata>\n', '')
-    .replace('\n\x00', '')
-    .split('\n')
-    .map((c) => c.trim());
+function formatGdalMetadata(metadata: GdalMetadata | null): string[] | null {
+  if (metadata == null || metadata.raw.length === 0) return null;
+  const output: string[] = [];
+  for (const [key, value] of Object.entries(metadata.items)) output.push(`${key} = ${value}`);
+  for (const [domain, items] of Object.entries(metadata.domains)) {
+    for (const [key, value] of Object.entries(items)) output.push(`${c.dim(domain)} ${key} = ${value}`);
+  }
+
+  for (const band of metadata.bands) {
+    const prefix = c.dim(`Band ${band.sample + 1}`);
+    if (band.description) output.push(`${prefix} Description = ${band.description}`);
+    if (band.colorInterpretation) output.push(`${prefix} ColorInterp = ${band.colorInterpretation}`);
+    if (band.scale != null || band.offset != null) {
+      output.push(`${prefix} Scale = ${band.scale ?? 1}, Offset = ${band.offset ?? 0}`);
+    }
+    if (band.unitType) output.push(`${prefix} Unit = ${band.unitType}`);
+    const stats = Object.entries(band.statistics)
+      .filter((f) => f[1] != null)
+      .map(([key, value]) => `${key}: ${round(value as number)}`);
+    if (stats.length > 0) output.push(`${prefix} Statistics = ${stats.join(', ')}`);
+    for (const [key, value] of Object.entries(band.items)) output.push(`${prefix} ${key} = ${value}`);
+    for (const [domain, items] of Object.entries(band.domains)) {
+      for (const [key, value] of Object.entries(items)) output.push(`${prefix} ${c.dim(domain)} ${key} = ${value}`);
+    }
+  }
+  return output;
 }
 
 function formatTag(tag: Tag): { key: string; value: string } {
@@ -184,12 +215,18 @@ function formatTag(tag: Tag): { key: string; value: string } {
     return { key, value: val.length > 25 ? val.slice(0, 25).join(', ') + '...' : val.join(', ') };
   }
 
-  let tagString = JSON.stringify(tag.value) ?? c.dim('null');
+  let tagString = JSON.stringify(tag.value, bigIntToString) ?? c.dim('null');
   if (tagString.length > 256) tagString = tagString.slice(0, 250) + '...';
   return { key, value: tagString };
 }
 
-function formatGeoTag(tagId: TiffTagGeo, value: string | number): { key: string; value: string } {
+/** JSON.stringify cannot serialize bigint, so convert large 64bit values into strings */
+function bigIntToString(_key: string, value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+function formatGeoTag(tagId: TiffTagGeo, value: string | number | number[]): { key: string; value: string } {
   const tagName = TiffTagGeo[tagId];
   const key = `${c.dim(toHex(tagId)).padEnd(7, ' ')} ${String(tagName).padEnd(30)}`;
 
@@ -0,0 +1,81 @@
+import { fsa } from '@chunkd/fs';
+import { CogTiff, CogTiffImage, TiffBlockIntegrityError } from '@cogeotiff/core';
+import { log } from '@linzjs/tracing';
+import { command, option, optional, restPositionals } from 'cmd-ts';
+import pLimit from 'p-limit';
+import { DefaultArgs, Url } from '../common.js';
+import { ensureS3fs, setupLogger } from '../log.js';
+
+const TileQueue = pLimit(5);
+
+export const commandVerify = command({
+  name: 'verify',
+  description: 'Validate every tile against its GDAL block leader and trailer',
+  args: {
+    ...DefaultArgs,
+    path: option({ short: 'f', long: 'file', type: optional(Url) }),
+    paths: restPositionals({ type: Url, description: 'Files to process' }),
+  },
+
+  async handler(args) {
+    const logger = setupLogger(args);
+    for (const path of [args.path, ...args.paths]) {
+      if (path == null) continue;
+      if (path.protocol === 's3:') await ensureS3fs();
+      const source = fsa.source(path);
+      try {
+        const tiff = await new CogTiff(source).init();
+
+        if (tiff.options?.tileLeaderByteSize == null && tiff.options?.tileTrailerByteSize == null) {
+          logger.warn('Verify:Skipped', { source: path.href, reason: 'No BLOCK_LEADER or BLOCK_TRAILER' });
+          continue;
+        }
+
+        let tileCount = 0;
+        let errorCount = 0;
+        for (const img of tiff.images) {
+          const result = await verifyImage(img, logger);
+          tileCount += result.tileCount;
+          errorCount += result.errorCount;
+        }
+
+        if (errorCount > 0) {
+          logger.error('Verify:Failed', { source: path.href, tileCount, errorCount });
+          process.exitCode = 1;
+        } else {
+          logger.info('Verify:Ok', { source: path.href, tileCount });
+        }
+      } finally {
+        await source.close?.();
+      }
+    }
+  },
+});
+
+async function verifyImage(img: CogTiffImage, logger: typeof log): Promise<{ tileCount: number; errorCount: number }> {
+  if (!img.isTiled()) return { tileCount: 0, errorCount: 0 };
+
+  const promises: Promise<boolean>[] = [];
+  const { tileCount } = img;
+  // PlanarConfiguration=2 images store a grid of tiles for every band
+  for (let band = 0; band < img.planeCount; band++) {
+    for (let y = 0; y < tileCount.y; y++) {
+      for (let x = 0; x < tileCount.x; x++) {
+        const promise = TileQueue(async () => {
+          try {
+            await img.getTile(x, y, { validate: true, band });
+            return true;
+          } catch (e) {
+            if (!(e instanceof TiffBlockIntegrityError)) throw e;
+            logger.error('Verify:Tile', { index: img.id, x, y, band, offset: e.offset, check: e.check });
+            return false;
+          }
+        });
+        promises.push(promise);
+      }
+    }
+  }
+
+  const results = await Promise.all(promises);
+  return { tileCount: results.length, errorCount: results.filter((f) => f === false).length };
+}
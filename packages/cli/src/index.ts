@@ -1,6 +1,7 @@
 import { subcommands } from 'cmd-ts';
 import { commandInfo } from './commands/info.js';
 import { commandDump } from './commands/dump.js';
+import { commandVerify } from './commands/verify.js';
 
 export const cmd = subcommands({
   name: 'cogeotiff',
@@ -8,5 +9,6 @@ export const cmd = subcommands({
   cmds: {
     info: commandInfo,
     dump: commandDump,
+    verify: commandVerify,
   },
 });
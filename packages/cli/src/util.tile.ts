@@ -13,6 +13,7 @@ const FileExtension: Record<string, string> = {
   [TiffMimeType.Zstd]: 'zstd',
   [TiffMimeType.Lerc]: 'lerc',
   [TiffMimeType.Lzma]: 'lzma',
+  [TiffMimeType.PackBits]: 'packbits',
 };
 
 /**
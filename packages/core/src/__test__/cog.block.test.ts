@@ -0,0 +1,119 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import {
+  GhostOption,
+  GhostOptionTileLeader,
+  GhostOptionTileTrailer,
+  TiffBlockIntegrityError,
+} from '../read/tiff.gdal.js';
+import { buildTiff } from './tiff.builder.js';
+
+const Ghost: [string, string][] = [
+  [GhostOption.BlockLeader, GhostOptionTileLeader.uint32],
+  [GhostOption.BlockTrailer, GhostOptionTileTrailer.LastFourBytesRepeated],
+];
+
+/** Create a tiff with two 16x16 tiles, optionally with GDAL block leaders and trailers */
+function createTiff(ghost = true): Uint8Array {
+  const tiles = [new Uint8Array(256).map((_, i) => i), new Uint8Array(256).fill(7)];
+  const bytes = buildTiff(
+    [
+      {
+        tags: [
+          { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 32 },
+          { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+          { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+          { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+          { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+          { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+        ],
+        data: tiles,
+      },
+    ],
+    ghost ? { ghost: Ghost, leader: true, trailer: true } : {},
+  );
+  return new Uint8Array(bytes);
+}
+
+/** Validate a tile and return the error that was thrown */
+async function getError(bytes: Uint8Array, x: number): Promise<TiffBlockIntegrityError> {
+  const tiff = await CogTiff.create(new SourceMemory(bytes));
+  try {
+    await tiff.images[0].getTile(x, 0, { validate: true });
+  } catch (e) {
+    if (e instanceof TiffBlockIntegrityError) return e;
+    throw e;
+  }
+  throw new Error('Tile should not be valid');
+}
+
+describe('CogTiffBlockIntegrity', () => {
+  it('should validate tiles with one request', async () => {
+    const source = new SourceMemory(createTiff());
+    const tiff = await CogTiff.create(source);
+    assert.equal(tiff.options?.tileTrailerByteSize, 4);
+    const img = tiff.images[0];
+    await img.fetch(TiffTag.TileOffsets);
+    await img.fetch(TiffTag.TileByteCounts);
+
+    const fetches: number[] = [];
+    const fetch = source.fetch.bind(source);
+    source.fetch = (offset: number, length?: number): Promise<ArrayBuffer> => {
+      fetches.push(offset);
+      return fetch(offset, length);
+    };
+
+    const tile = await img.getTile(0, 0, { validate: true });
+    assert.equal(fetches.length, 1);
+    assert.deepEqual(
+      new Uint8Array(tile?.bytes ?? []),
+      new Uint8Array(256).map((_, i) => i),
+    );
+    const unvalidated = await img.getTile(0, 0);
+    assert.deepEqual(unvalidated?.bytes, tile?.bytes);
+  });
+
+  it('should detect a overwritten tile', async () => {
+    const bytes = createTiff();
+    // Overwrite the last byte of the first tile
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const { offset, imageSize } = await tiff.images[0].getTileSize(0);
+    bytes[offset + imageSize - 1] = 0;
+
+    const err = await getError(bytes, 0);
+    assert.equal(err.check, 'trailer');
+    assert.equal(err.imageId, 0);
+    assert.equal(err.x, 0);
+    assert.equal(err.offset, offset);
+  });
+
+  it('should detect a invalid leader', async () => {
+    const bytes = createTiff();
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const { offset } = await tiff.images[0].getTileSize(1);
+    bytes[offset - 4] = 1;
+
+    const err = await getError(bytes, 1);
+    assert.equal(err.check, 'leader');
+    assert.equal(err.x, 1);
+  });
+
+  it('should detect a truncated file', async () => {
+    const bytes = createTiff();
+    const err = await getError(bytes.slice(0, bytes.byteLength - 10), 1);
+    assert.equal(err.check, 'truncated');
+  });
+
+  it('should fail to validate tiffs without a leader or trailer', async () => {
+    const tiff = await CogTiff.create(new SourceMemory(createTiff(false)));
+    assert.equal(tiff.options?.tileLeaderByteSize, null);
+    await assert.rejects(() => tiff.images[0].getTile(0, 0, { validate: true }), {
+      message: 'Unable to validate tile, no GDAL BLOCK_LEADER or BLOCK_TRAILER image:0 x:0 y:0',
+    });
+    assert.ok(await tiff.images[0].getTile(0, 0));
+  });
+});
@@ -0,0 +1,159 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiffImageType } from '../cog.tiff.image.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { SubFileType, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { GhostOption, GhostOptionTileTrailer } from '../read/tiff.gdal.js';
+import { buildTiff, TestImage, TestTiffOptions } from './tiff.builder.js';
+
+/** Create a single tile image filled with `value` */
+function image(size: number, subFileType: number, value: number): TestImage {
+  return {
+    tags: [
+      { id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: subFileType },
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: size },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: size },
+      { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+    ],
+    data: [new Uint8Array(16 * 16).fill(value)],
+  };
+}
+
+/** Create a tiff laid out like a GDAL COG with internal masks */
+async function createTiff(opts?: TestTiffOptions): Promise<{ tiff: CogTiff; fetches: number[][] }> {
+  const full = image(16, 0, 1);
+  full.tags.push(
+    { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [1, 1, 0] },
+    { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [0, 0, 0, 0, 16, 0] },
+  );
+  const bytes = buildTiff(
+    [
+      full,
+      image(16, SubFileType.Mask, 255),
+      image(8, SubFileType.ReducedImage, 2),
+      image(8, SubFileType.ReducedImage | SubFileType.Mask, 254),
+      image(4, SubFileType.ReducedImage, 3),
+    ],
+    opts,
+  );
+  const source = new SourceMemory(bytes);
+  const fetches: number[][] = [];
+  const fetch = source.fetch.bind(source);
+  source.fetch = (offset: number, length?: number): Promise<ArrayBuffer> => {
+    fetches.push([offset, length ?? -1]);
+    return fetch(offset, length);
+  };
+  const tiff = await CogTiff.create(source);
+  return { tiff, fetches };
+}
+
+describe('CogTiffMask', () => {
+  it('should classify images', async () => {
+    const { tiff } = await createTiff();
+    assert.deepEqual(
+      tiff.images.map((f) => f.imageType),
+      [
+        CogTiffImageType.Full,
+        CogTiffImageType.Mask,
+        CogTiffImageType.Overview,
+        CogTiffImageType.Mask,
+        CogTiffImageType.Overview,
+      ],
+    );
+  });
+
+  it('should classify images without flags as pages', async () => {
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([image(16, 0, 1), image(16, 0, 2)])));
+    assert.deepEqual(
+      tiff.images.map((f) => f.imageType),
+      [CogTiffImageType.Full, CogTiffImageType.Page],
+    );
+    assert.deepEqual(tiff.overviews, []);
+  });
+
+  it('should pair images with their masks', async () => {
+    const { tiff } = await createTiff();
+    const [full, fullMask, overview, overviewMask, lowest] = tiff.images;
+    assert.equal(full.mask, fullMask);
+    assert.equal(overview.mask, overviewMask);
+    assert.equal(lowest.mask, null);
+    assert.equal(fullMask.mask, null);
+  });
+
+  it('should ignore masks when selecting overviews', async () => {
+    const { tiff } = await createTiff();
+    assert.deepEqual(
+      tiff.overviews.map((f) => f.id),
+      [2, 4],
+    );
+    // Resolution of the mask of the full image is the same as the overview
+    assert.equal(tiff.getImageByResolution(2).id, 2);
+    assert.equal(tiff.getImageByResolution(1).id, 0);
+  });
+
+  it('should fetch the mask separately', async () => {
+    const { tiff, fetches } = await createTiff();
+    fetches.length = 0;
+    const tile = await tiff.images[2].getTileWithMask(0, 0);
+    assert.equal(new Uint8Array(tile.image?.bytes ?? [])[0], 2);
+    assert.equal(new Uint8Array(tile.mask?.bytes ?? [])[0], 254);
+    assert.equal(fetches.length, 2);
+  });
+
+  it('should fetch interleaved masks with one read', async () => {
+    const { tiff, fetches } = await createTiff({
+      ghost: [
+        [GhostOption.BlockTrailer, GhostOptionTileTrailer.LastFourBytesRepeated],
+        [GhostOption.MaskInterleavedWithImagery, 'YES'],
+      ],
+      trailer: true,
+    });
+    assert.equal(tiff.options?.isMaskInterleaved, true);
+    fetches.length = 0;
+
+    const tile = await tiff.images[0].getTileWithMask(0, 0);
+    assert.equal(fetches.length, 1);
+    assert.equal(tile.image?.bytes.byteLength, 256);
+    assert.equal(tile.mask?.bytes.byteLength, 256);
+    assert.ok(new Uint8Array(tile.image?.bytes ?? []).every((f) => f === 1));
+    assert.ok(new Uint8Array(tile.mask?.bytes ?? []).every((f) => f === 255));
+  });
+
+  it('should fetch masks that are not next to their tile separately', async () => {
+    // The overview tile is stored between the full resolution tile and its mask
+    const bytes = buildTiff(
+      [image(16, 0, 1), image(8, SubFileType.ReducedImage, 2), image(16, SubFileType.Mask, 255)],
+      {
+        ghost: [[GhostOption.MaskInterleavedWithImagery, 'YES']],
+      },
+    );
+    const source = new SourceMemory(bytes);
+    const tiff = await CogTiff.create(source);
+    const fetches: number[][] = [];
+    const fetch = source.fetch.bind(source);
+    source.fetch = (offset: number, length?: number): Promise<ArrayBuffer> => {
+      fetches.push([offset, length ?? -1]);
+      return fetch(offset, length);
+    };
+
+    const tile = await tiff.images[0].getTileWithMask(0, 0);
+    assert.deepEqual(
+      fetches.map((f) => f[1]),
+      [256, 256],
+    );
+    assert.ok(new Uint8Array(tile.image?.bytes ?? []).every((f) => f === 1));
+    assert.ok(new Uint8Array(tile.mask?.bytes ?? []).every((f) => f === 255));
+  });
+
+  it('should fetch tiles without masks', async () => {
+    const { tiff } = await createTiff({ ghost: [[GhostOption.MaskInterleavedWithImagery, 'YES']] });
+    const tile = await tiff.images[4].getTileWithMask(0, 0);
+    assert.equal(new Uint8Array(tile.image?.bytes ?? [])[0], 3);
+    assert.equal(tile.mask, null);
+  });
+});
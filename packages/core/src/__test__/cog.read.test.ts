@@ -1,10 +1,12 @@
 import assert from 'node:assert';
 import { describe, it } from 'node:test';
 import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
 import { CogTiff } from '../cog.tiff.js';
 import { TiffMimeType } from '../const/tiff.mime.js';
 import { TiffVersion } from '../const/tiff.version.js';
-import { TiffTag, TiffTagGeo } from '../index.js';
+import { TiffTag, TiffTagGeo, TiffTagValueType } from '../index.js';
+import { buildTiff } from './tiff.builder.js';
 
 function validate(tif: CogTiff): void {
   assert.equal(tif.images.length, 5);
@@ -16,17 +18,74 @@ function validate(tif: CogTiff): void {
 }
 
 describe('CogRead', () => {
-  // TODO this does not load 100% yet
-  // it('should read big endian', async () => {
-  //     const source = new TestFileSource(new URL('../../data/big_cog.tiff', import.meta.url));
-  //     const tiff = new CogTiff(source);
+  it('should read big endian', async () => {
+    const source = new TestFileSource(new URL('../../data/be_cog.tiff', import.meta.url));
+    const tiff = new CogTiff(source);
+
+    await tiff.init();
+
+    assert.equal(tiff.isLittleEndian, false);
+    assert.equal(tiff.version, TiffVersion.Tiff);
+    validate(tiff);
+
+    const [firstTif] = tiff.images;
+    assert.equal(firstTif.compression, TiffMimeType.Jpeg);
+    assert.deepEqual(firstTif.bitsPerSample, [8, 8, 8]);
+    const tile = await firstTif.getTile(0, 0);
+    assert.equal(tile?.bytes.byteLength, 2786);
+  });
 
-  //     await tiff.init();
+  it('should read big endian big tiff', async () => {
+    const sourceBe = new TestFileSource(new URL('../../data/be_big_cog.tiff', import.meta.url));
+    const sourceLe = new TestFileSource(new URL('../../data/big_cog.tiff', import.meta.url));
+    const [tiffBe, tiffLe] = await Promise.all([CogTiff.create(sourceBe), CogTiff.create(sourceLe)]);
+
+    assert.equal(tiffBe.isLittleEndian, false);
+    assert.equal(tiffBe.version, TiffVersion.BigTiff);
+    validate(tiffBe);
+
+    for (let i = 0; i < tiffLe.images.length; i++) {
+      const imgBe = tiffBe.images[i];
+      const imgLe = tiffLe.images[i];
+      assert.deepEqual([...imgBe.tags.keys()], [...imgLe.tags.keys()]);
+      assert.deepEqual(await imgBe.fetch(TiffTag.TileOffsets), await imgLe.fetch(TiffTag.TileOffsets));
+      assert.deepEqual(await imgBe.fetch(TiffTag.TileByteCounts), await imgLe.fetch(TiffTag.TileByteCounts));
+
+      const [tileBe, tileLe] = await Promise.all([imgBe.getTile(0, 0), imgLe.getTile(0, 0)]);
+      assert.deepEqual(new Uint8Array(tileBe?.bytes ?? []), new Uint8Array(tileLe?.bytes ?? []));
+    }
+  });
 
-  //     assert.equal(tiff.isLittleEndian, false);
-  //     assert.equal(tiff.version, TiffVersion.BigTiff);
-  //     validate(tiff);
-  // });
+  it('should read little endian GDAL tile leaders from big endian tiffs', async () => {
+    for (const isLittleEndian of [true, false]) {
+      const bytes = buildTiff(
+        [
+          {
+            tags: [
+              { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 32 },
+              { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+              { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+              { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+              { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+            ],
+            data: [new Uint8Array([1, 2, 3]), new Uint8Array([4, 5, 6, 7, 8])],
+          },
+        ],
+        { isLittleEndian, isBigTiff: true, ghost: [['BLOCK_LEADER', 'SIZE_AS_UINT4']], leader: true },
+      );
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      assert.equal(tiff.isLittleEndian, isLittleEndian);
+
+      const [img] = tiff.images;
+      assert.deepEqual(new Uint8Array((await img.getTile(0, 0))?.bytes ?? []), new Uint8Array([1, 2, 3]));
+      assert.deepEqual(new Uint8Array((await img.getTile(1, 0))?.bytes ?? []), new Uint8Array([4, 5, 6, 7, 8]));
+    }
+  });
+
+  it('should fail on invalid byte orders', async () => {
+    const source = new SourceMemory(new Uint8Array([0x4a, 0x4a, 0x2a, 0x00, 0x08, 0x00, 0x00, 0x00]));
+    await assert.rejects(() => CogTiff.create(source), { message: 'Invalid tiff header, unknown byte order: 0x4a4a' });
+  });
 
   it('should read big tiff', async () => {
     const source = new TestFileSource(new URL('../../data/big_cog.tiff', import.meta.url));
@@ -0,0 +1,111 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { buildTiff, TestImage, TestTag } from './tiff.builder.js';
+
+function imageTags(size: number, tileSize: number): TestTag[] {
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: size },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: size },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: tileSize },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: tileSize },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+  ];
+}
+
+function overview(size: number, tileValue: number): TestImage {
+  return {
+    tags: [{ id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 }, ...imageTags(size, 16)],
+    data: [new Uint8Array([tileValue])],
+  };
+}
+
+const SubIfdTiff: TestImage = {
+  tags: [
+    ...imageTags(64, 16),
+    { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [10, 10, 0] },
+    { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [0, 0, 0, 1000, 2000, 0] },
+  ],
+  data: new Array(16).fill(new Uint8Array([0])),
+  subImages: [overview(32, 1), overview(16, 2)],
+  exif: [
+    { id: TiffTag.DateTimeOriginal, type: TiffTagValueType.Ascii, value: '2023:01:02 03:04:05' },
+    { id: TiffTag.ExposureTime, type: TiffTagValueType.Rational, value: [1, 250] },
+  ],
+  gps: [
+    // GPSLatitudeRef
+    { id: 1, type: TiffTagValueType.Ascii, value: 'S' },
+  ],
+};
+
+describe('CogSubIfd', () => {
+  for (const isBigTiff of [true, false]) {
+    const name = isBigTiff ? 'BigTiff' : 'Tiff';
+    const bytes = buildTiff([SubIfdTiff], { isBigTiff });
+
+    it(`should load sub images lazily ${name}`, async () => {
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      assert.equal(tiff.images.length, 1);
+
+      const [img] = tiff.images;
+      assert.equal(img.subImages, undefined);
+      assert.deepEqual(tiff.overviews, []);
+
+      const subImages = await img.fetchSubImages();
+      assert.equal(img.subImages, subImages);
+      assert.deepEqual(
+        subImages.map((i) => i.size),
+        [
+          { width: 32, height: 32 },
+          { width: 16, height: 16 },
+        ],
+      );
+      for (const sub of subImages) assert.equal(sub.parent, img);
+
+      // Sub images should only be loaded once
+      assert.equal(await img.fetchSubImages(), subImages);
+
+      const tile = await subImages[1].getTile(0, 0);
+      assert.deepEqual(new Uint8Array(tile?.bytes ?? []), new Uint8Array([2]));
+    });
+
+    it(`should use sub images as overviews ${name}`, async () => {
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      const [img] = tiff.images;
+      const [ovA, ovB] = await img.fetchSubImages();
+
+      assert.deepEqual(tiff.overviews, [ovA, ovB]);
+      assert.equal(ovA.isGeoLocated, true);
+      assert.deepEqual(ovA.origin, [1000, 2000, 0]);
+      assert.deepEqual(ovA.resolution, [20, -20, 0]);
+      assert.deepEqual(ovB.resolution, [40, -40, 0]);
+      assert.deepEqual(ovB.bbox, img.bbox);
+
+      assert.equal(tiff.getImageByResolution(10), img);
+      assert.equal(tiff.getImageByResolution(20), ovA);
+      assert.equal(tiff.getImageByResolution(100), ovB);
+    });
+
+    it(`should read exif and gps directories ${name}`, async () => {
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      const [img] = tiff.images;
+
+      const exif = await img.fetchExif();
+      assert.equal(exif?.parent, img);
+      assert.equal(await exif?.fetch(TiffTag.DateTimeOriginal), '2023:01:02 03:04:05');
+      assert.equal(await exif?.fetchDecimal(TiffTag.ExposureTime), 1 / 250);
+
+      const gps = await img.fetchGps();
+      assert.equal(await gps?.fetch(1 as TiffTag), 'S');
+
+      // Sub images do not have their own directories
+      const [subImage] = await img.fetchSubImages();
+      assert.equal(await subImage.fetchExif(), null);
+      assert.equal(await subImage.fetchGps(), null);
+      assert.deepEqual(await subImage.fetchSubImages(), []);
+    });
+  }
+});
@@ -0,0 +1,329 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { PlanarConfiguration, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { GhostOption, GhostOptionTileLeader } from '../read/tiff.gdal.js';
+import { TagOffset } from '../read/tiff.tag.js';
+import { buildTiff, TestTag, TestTiffOptions } from './tiff.builder.js';
+
+/** Create a 32x16 image with 16x16 tiles and two bands, every tile is filled with `band * 10 + x` */
+function createTiff(planar: PlanarConfiguration, opts?: TestTiffOptions): Promise<CogTiff> {
+  const isSeparate = planar === PlanarConfiguration.Separate;
+  const tags: TestTag[] = [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 32 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.SamplesPerPixel, type: TiffTagValueType.Uint16, value: 2 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: [8, 8] },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+    { id: TiffTag.PlanarConfiguration, type: TiffTagValueType.Uint16, value: planar },
+  ];
+  const data: (Uint8Array | null)[] = [];
+  if (isSeparate) {
+    for (let band = 0; band < 2; band++) {
+      for (let x = 0; x < 2; x++) data.push(new Uint8Array(256).fill(band * 10 + x));
+    }
+    // Band 1 of the last tile is sparse
+    data[3] = null;
+  } else {
+    for (let x = 0; x < 2; x++) data.push(new Uint8Array(512).map((_, i) => (i % 2) * 10 + x));
+  }
+  return CogTiff.create(new SourceMemory(buildTiff([{ tags, data }], opts)));
+}
+
+/** Memory source that records every request */
+class SourceCounter extends SourceMemory {
+  requests: { offset: number; length?: number }[] = [];
+
+  override fetch(offset: number, length?: number): Promise<ArrayBuffer> {
+    this.requests.push({ offset, length });
+    return super.fetch(offset, length);
+  }
+}
+
+/** Create a 64x64 image with 16x16 tiles, every tile is filled with its tile index */
+async function createGrid(opts?: TestTiffOptions): Promise<{ tiff: CogTiff; source: SourceCounter }> {
+  const tags: TestTag[] = [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 64 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 64 },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+  ];
+  const data = Array.from({ length: 16 }, (_, i) => new Uint8Array(256).fill(i));
+  const source = new SourceCounter(buildTiff([{ tags, data }], opts));
+  const tiff = await CogTiff.create(source);
+  // Force the tile offsets to be fetched rather than read from the header
+  const tileOffsets = tiff.images[0].tags.get(TiffTag.TileOffsets) as TagOffset;
+  delete tileOffsets.view;
+  source.requests = [];
+  return { tiff, source };
+}
+
+describe('CogTiffTileIndex', () => {
+  it('should index chunky tiles in row major order', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Contig);
+    const img = tiff.images[0];
+    assert.equal(img.getTileIndex(0, 0), 0);
+    assert.equal(img.getTileIndex(1, 0), 1);
+    assert.throws(() => img.getTileIndex(2, 0), /outside of range/);
+    assert.throws(() => img.getTileIndex(0, 0, 1), /Band index is outside of range/);
+  });
+
+  it('should index planar tiles by band', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const img = tiff.images[0];
+    assert.equal(img.getTileIndex(0, 0, 0), 0);
+    assert.equal(img.getTileIndex(1, 0, 0), 1);
+    assert.equal(img.getTileIndex(0, 0, 1), 2);
+    assert.equal(img.getTileIndex(1, 0, 1), 3);
+    assert.throws(() => img.getTileIndex(0, 0, 2), /Band index is outside of range/);
+  });
+
+  it('should read planar tiles by band', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const img = tiff.images[0];
+
+    const tile = await img.getTile(1, 0);
+    assert.equal(new Uint8Array(tile?.bytes ?? [])[0], 1);
+    const band = await img.getTile(0, 0, { band: 1 });
+    assert.equal(new Uint8Array(band?.bytes ?? [])[0], 10);
+
+    const pixels = await img.getTilePixels(0, 0, { band: 1 });
+    assert.equal(pixels?.samplesPerPixel, 1);
+    assert.equal(pixels?.pixels.length, 256);
+    assert.equal(pixels?.pixels[0], 10);
+
+    assert.equal(await img.getTile(1, 0, { band: 1 }), null);
+    assert.equal(await img.hasTile(1, 0, { band: 0 }), true);
+    assert.equal(await img.hasTile(1, 0, { band: 1 }), false);
+    assert.equal(await img.hasTile(2, 0), false);
+  });
+
+  it('should read row major tiles', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Contig, { ghost: [[GhostOption.BlockOrder, 'ROW_MAJOR']] });
+    const tile = await tiff.images[0].getTilePixels(1, 0);
+    assert.deepEqual([...(tile?.pixels.subarray(0, 4) ?? [])], [1, 11, 1, 11]);
+  });
+
+  it('should not read unknown tile orders', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Contig, { ghost: [[GhostOption.BlockOrder, 'COLUMN_MAJOR']] });
+    await assert.rejects(() => tiff.images[0].getTile(0, 0), /Unsupported tile order: COLUMN_MAJOR/);
+  });
+
+  it('should fetch every band of a tile', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const bands = await tiff.images[0].getTileBands(1, 0);
+    assert.equal(bands.length, 2);
+    assert.equal(new Uint8Array(bands[0]?.bytes ?? [])[0], 1);
+    assert.equal(bands[1], null);
+
+    const contig = await createTiff(PlanarConfiguration.Contig);
+    assert.equal((await contig.images[0].getTileBands(1, 0)).length, 1);
+  });
+
+  it('should decode every band interleaved by pixel or band', async () => {
+    for (const planar of [PlanarConfiguration.Contig, PlanarConfiguration.Separate]) {
+      const tiff = await createTiff(planar);
+      const img = tiff.images[0];
+
+      const pixel = await img.getTileRaster(0, 0);
+      assert.equal(pixel?.interleave, 'pixel');
+      assert.equal(pixel?.samplesPerPixel, 2);
+      assert.deepEqual([...(pixel?.pixels.subarray(0, 4) ?? [])], [0, 10, 0, 10]);
+
+      const band = await img.getTileRaster(0, 0, { interleave: 'band' });
+      assert.equal(band?.interleave, 'band');
+      assert.equal(band?.pixels.length, 512);
+      assert.deepEqual([band?.pixels[0], band?.pixels[255], band?.pixels[256], band?.pixels[511]], [0, 0, 10, 10]);
+    }
+  });
+
+  it('should fill empty planes with zero', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const raster = await tiff.images[0].getTileRaster(1, 0);
+    assert.deepEqual([...(raster?.pixels.subarray(0, 4) ?? [])], [1, 0, 1, 0]);
+  });
+
+  it('should fill empty planes with the requested nodata', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const img = tiff.images[0];
+    const raster = await img.getTileRaster(1, 0, { nodata: 255 });
+    assert.deepEqual([...(raster?.pixels.subarray(0, 4) ?? [])], [1, 255, 1, 255]);
+    const band = await img.getTileRaster(1, 0, { nodata: 255, interleave: 'band' });
+    assert.deepEqual([band?.pixels[0], band?.pixels[255], band?.pixels[256], band?.pixels[511]], [1, 1, 255, 255]);
+
+    const window = await img.readWindow({ x: 16, y: 0, width: 20, height: 1 }, { nodata: 200 });
+    assert.deepEqual([...window.pixels.subarray(0, 4)], [1, 200, 1, 200]);
+    // Outside of the image
+    assert.deepEqual([...window.pixels.subarray(32, 34)], [200, 200]);
+  });
+
+  it('should read strips by band', async () => {
+    const tags: TestTag[] = [
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 4 },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 4 },
+      { id: TiffTag.RowsPerStrip, type: TiffTagValueType.Uint16, value: 2 },
+      { id: TiffTag.SamplesPerPixel, type: TiffTagValueType.Uint16, value: 2 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: [8, 8] },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+      { id: TiffTag.PlanarConfiguration, type: TiffTagValueType.Uint16, value: PlanarConfiguration.Separate },
+    ];
+    // Two strips for each band filled with `band * 10 + strip`
+    const data = [0, 1, 10, 11].map((v) => new Uint8Array(8).fill(v));
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([{ tags, data, isStriped: true }])));
+    const img = tiff.images[0];
+
+    assert.equal(img.getStripIndex(1, 1), 3);
+    assert.throws(() => img.getStripIndex(2, 1), /out of bounds/);
+    assert.equal(new Uint8Array((await img.getStrip(1, { band: 1 }))?.bytes ?? [])[0], 11);
+    assert.equal((await img.getStripPixels(0, { band: 1 }))?.pixels[0], 10);
+
+    const strip = await img.getStripRaster(1);
+    assert.deepEqual([...(strip?.pixels.subarray(0, 4) ?? [])], [1, 11, 1, 11]);
+
+    const window = await img.readWindow({ x: 1, y: 1, width: 2, height: 2 }, { interleave: 'band' });
+    assert.deepEqual([...window.pixels], [0, 0, 1, 1, 10, 10, 11, 11]);
+  });
+});
+
+describe('CogTiffImage.preloadTileOffsets', () => {
+  it('should load full width rows with one request for each tag', async () => {
+    const { tiff, source } = await createGrid();
+    const img = tiff.images[0];
+    await img.preloadTileOffsets({ x: 0, y: 1, width: 4, height: 2 });
+    assert.equal(source.requests.length, 2);
+    assert.deepEqual(
+      source.requests.map((r) => r.length),
+      [32, 32],
+    );
+
+    const tileOffsets = img.tags.get(TiffTag.TileOffsets) as TagOffset;
+    const byteCounts = img.tags.get(TiffTag.TileByteCounts) as TagOffset;
+    assert.equal(tileOffsets.value[3], undefined);
+    assert.equal(tileOffsets.value[4] > 0, true);
+    assert.equal(tileOffsets.value[12], undefined);
+    assert.equal(byteCounts.value[11], 256);
+
+    // Tiles inside of the range do not need to fetch their offsets
+    source.requests = [];
+    const tile = await img.getTile(1, 2);
+    assert.equal(new Uint8Array(tile?.bytes ?? new ArrayBuffer(0))[0], 9);
+    assert.deepEqual(source.requests, [{ offset: tileOffsets.value[9], length: 256 }]);
+  });
+
+  it('should load each row of a partial range', async () => {
+    const { tiff, source } = await createGrid();
+    const img = tiff.images[0];
+    await img.preloadTileOffsets({ x: 1, y: 0, width: 2, height: 3 });
+    // Three rows of two tiles for both the offsets and byte counts
+    assert.equal(source.requests.length, 6);
+    assert.ok(source.requests.every((r) => r.length === 8));
+
+    // Only missing values are fetched
+    source.requests = [];
+    await img.preloadTileOffsets({ x: 0, y: 0, width: 3, height: 1 });
+    assert.deepEqual(
+      source.requests.map((r) => r.length),
+      [4, 4],
+    );
+    await img.preloadTileOffsets({ x: 1, y: 1, width: 2, height: 2 });
+    assert.equal(source.requests.length, 2);
+  });
+
+  it('should preload the tiles of a window', async () => {
+    const { tiff, source } = await createGrid();
+    const window = await tiff.images[0].readWindow({ x: 8, y: 8, width: 40, height: 16 });
+    assert.equal(window.pixels[0], 0);
+    assert.equal(window.pixels[window.pixels.length - 1], 6);
+    // Two rows of three tiles for the offsets and byte counts, then the six tiles
+    assert.equal(source.requests.length, 4 + 6);
+  });
+
+  it('should fail on ranges outside of the image', async () => {
+    const { tiff } = await createGrid();
+    await assert.rejects(() => tiff.images[0].preloadTileOffsets({ x: 2, y: 3, width: 3, height: 1 }), {
+      message: 'Tile index is outside of range x:4 >= 4 or y:3 >= 4',
+    });
+  });
+});
+
+describe('CogTiffImage.getTiles', () => {
+  it('should merge adjacent tiles into one request', async () => {
+    const { tiff, source } = await createGrid();
+    const img = tiff.images[0];
+    await img.preloadTileOffsets({ x: 0, y: 1, width: 4, height: 1 });
+    source.requests = [];
+
+    const result = await img.getTiles([3, 1, 0, 2].map((x) => ({ x, y: 1 })));
+    assert.equal(result.requests, 1);
+    assert.equal(result.requestsSaved, 3);
+    assert.equal(source.requests.length, 1);
+    assert.deepEqual(source.requests[0].length, 4 * 256);
+    assert.deepEqual(
+      result.tiles.map((t) => new Uint8Array(t?.bytes ?? new ArrayBuffer(0))[0]),
+      [7, 5, 4, 6],
+    );
+    assert.ok(result.tiles.every((t) => t?.bytes.byteLength === 256));
+  });
+
+  it('should only merge tiles within the gap', async () => {
+    const { tiff } = await createGrid();
+    const img = tiff.images[0];
+    const list = [
+      { x: 0, y: 0 },
+      { x: 2, y: 0 },
+      { x: 2, y: 0 },
+    ];
+
+    // Two requests for each tag then two tiles
+    const separate = await img.getTiles(list);
+    assert.equal(separate.requests, 6);
+    assert.equal(separate.requestsSaved, 0);
+
+    const merged = await img.getTiles(list, { maxGap: 256 });
+    assert.equal(merged.requests, 1);
+    assert.equal(merged.requestsSaved, 1);
+    assert.deepEqual(
+      merged.tiles.map((t) => new Uint8Array(t?.bytes ?? new ArrayBuffer(0))[0]),
+      [0, 2, 2],
+    );
+  });
+
+  it('should read tile sizes from the byte counts rather than the block leaders', async () => {
+    const { tiff, source } = await createGrid({
+      ghost: [[GhostOption.BlockLeader, GhostOptionTileLeader.uint32]],
+      leader: true,
+    });
+    const result = await tiff.images[0].getTiles(
+      [0, 1, 2, 3].map((x) => ({ x, y: 1 })),
+      { maxGap: 4 },
+    );
+    // One request for the offsets, one for the byte counts and one for the tiles
+    assert.equal(source.requests.length, 3);
+    assert.equal(result.requests, 3);
+    assert.equal(result.requestsSaved, 4 + 4 + 4 - 3);
+    assert.deepEqual(
+      result.tiles.map((t) => new Uint8Array(t?.bytes ?? new ArrayBuffer(0))[0]),
+      [4, 5, 6, 7],
+    );
+    assert.ok(result.tiles.every((t) => t?.bytes.byteLength === 256));
+  });
+
+  it('should return null for empty tiles', async () => {
+    const tiff = await createTiff(PlanarConfiguration.Separate);
+    const result = await tiff.images[0].getTiles([
+      { x: 0, y: 0, band: 1 },
+      { x: 1, y: 0, band: 1 },
+    ]);
+    // One request for both byte counts then the tile
+    assert.equal(result.requests, 2);
+    assert.equal(result.requestsSaved, 1);
+    assert.equal(new Uint8Array(result.tiles[0]?.bytes ?? new ArrayBuffer(0))[0], 10);
+    assert.equal(result.tiles[1], null);
+  });
+});
@@ -0,0 +1,123 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { PhotometricInterpretation, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { cmykToRgba, colorToRgba, labToRgba, upsampleYCbCr, ycbcrToRgba } from '../decode/color.js';
+import { DecodedRaster } from '../decode/decode.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Create a raster with a single pixel */
+function pixel(...samples: number[]): DecodedRaster {
+  return { width: 1, height: 1, samplesPerPixel: samples.length, pixels: new Uint8Array(samples) };
+}
+
+/** Assert every channel of a pixel is within `tolerance` of the expected value */
+function assertPixel(actual: Uint8ClampedArray, expected: number[], tolerance = 0): void {
+  const values = [...actual.subarray(0, expected.length)];
+  for (let i = 0; i < expected.length; i++) {
+    assert.ok(Math.abs(values[i] - expected[i]) <= tolerance, `Expected ${expected} got ${values}`);
+  }
+}
+
+describe('ColorConversion', () => {
+  it('should convert YCbCr to RGB', () => {
+    assertPixel(ycbcrToRgba(pixel(76, 85, 255)).pixels, [254, 0, 0, 255]);
+    assertPixel(ycbcrToRgba(pixel(150, 44, 21)).pixels, [0, 255, 0, 255], 1);
+    assertPixel(ycbcrToRgba(pixel(29, 255, 107)).pixels, [0, 0, 255, 255], 1);
+    assertPixel(ycbcrToRgba(pixel(128, 128, 128)).pixels, [128, 128, 128, 255]);
+  });
+
+  it('should apply the reference black and white', () => {
+    const options = { coefficients: [0.299, 0.587, 0.114], referenceBlackWhite: [16, 235, 128, 240, 128, 240] };
+    assertPixel(ycbcrToRgba(pixel(16, 128, 128), options).pixels, [0, 0, 0, 255]);
+    assertPixel(ycbcrToRgba(pixel(235, 128, 128), options).pixels, [255, 255, 255, 255]);
+    // ITU-R BT.601 studio range red
+    assertPixel(ycbcrToRgba(pixel(81, 90, 240), options).pixels, [255, 0, 0, 255], 1);
+  });
+
+  it('should upsample YCbCr data units', () => {
+    // 3x3 image with 2x2 subsampling is stored as four data units
+    const units = [
+      [1, 2, 4, 5, 100, 200],
+      [3, 0, 6, 0, 101, 201],
+      [7, 8, 0, 0, 102, 202],
+      [9, 0, 0, 0, 103, 203],
+    ];
+    const output = upsampleYCbCr(new Uint8Array(units.flat()), 3, 3, 2, 2);
+    assert.deepEqual([...output.filter((_, i) => i % 3 === 0)], [1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.deepEqual([...output.subarray(0, 3)], [1, 100, 200]);
+    assert.deepEqual([...output.subarray(6, 9)], [3, 101, 201]);
+    assert.deepEqual([...output.subarray(24, 27)], [9, 103, 203]);
+  });
+
+  it('should convert CMYK to RGB', () => {
+    assertPixel(cmykToRgba(pixel(0, 0, 0, 0)).pixels, [255, 255, 255, 255]);
+    assertPixel(cmykToRgba(pixel(255, 0, 0, 0)).pixels, [0, 255, 255, 255]);
+    assertPixel(cmykToRgba(pixel(0, 255, 255, 0)).pixels, [255, 0, 0, 255]);
+    assertPixel(cmykToRgba(pixel(0, 0, 0, 255)).pixels, [0, 0, 0, 255]);
+    assertPixel(cmykToRgba(pixel(0, 0, 0, 128)).pixels, [127, 127, 127, 255]);
+  });
+
+  it('should convert CIE L*a*b* to RGB', () => {
+    assertPixel(labToRgba(pixel(255, 0, 0)).pixels, [255, 255, 255, 255]);
+    assertPixel(labToRgba(pixel(0, 0, 0)).pixels, [0, 0, 0, 255]);
+    // sRGB red is L*53.24 a*80.09 b*67.2, a* and b* are signed
+    assertPixel(labToRgba(pixel(136, 80, 67)).pixels, [255, 0, 0, 255], 2);
+    // sRGB blue is L*32.3 a*79.19 b*-107.86
+    assertPixel(labToRgba(pixel(82, 79, 256 - 108)).pixels, [0, 0, 255, 255], 2);
+    // ICC L*a*b* is offset by 128
+    assertPixel(labToRgba(pixel(136, 80 + 128, 67 + 128), true).pixels, [255, 0, 0, 255], 2);
+  });
+
+  it('should convert grayscale and RGB', () => {
+    assertPixel(colorToRgba(pixel(10, 20, 30), 3).pixels, [10, 20, 30, 255]);
+    assertPixel(colorToRgba(pixel(10, 20, 30, 40), 3).pixels, [10, 20, 30, 40]);
+    assertPixel(colorToRgba(pixel(10), 1, 255, true).pixels, [245, 245, 245, 255]);
+    const raster = { width: 1, height: 1, samplesPerPixel: 1, pixels: new Uint16Array([65535]) };
+    assertPixel(colorToRgba(raster, 1, 65535).pixels, [255, 255, 255, 255]);
+  });
+
+  it('should convert subsampled YCbCr tiles to RGBA', async () => {
+    const tags: TestTag[] = [
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.SamplesPerPixel, type: TiffTagValueType.Uint16, value: 3 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: [8, 8, 8] },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+      { id: TiffTag.PhotometricInterpretation, type: TiffTagValueType.Uint16, value: PhotometricInterpretation.YCbCr },
+      { id: TiffTag.YCbCrSubSampling, type: TiffTagValueType.Uint16, value: [2, 2] },
+      { id: TiffTag.YCbCrCoefficients, type: TiffTagValueType.Rational, value: [299, 1000, 587, 1000, 114, 1000] },
+      {
+        id: TiffTag.ReferenceBlackWhite,
+        type: TiffTagValueType.Rational,
+        value: [0, 1, 255, 1, 128, 1, 255, 1, 128, 1, 255, 1],
+      },
+    ];
+    // 8x8 data units of red
+    const data = new Uint8Array(Array.from({ length: 64 }, () => [76, 76, 76, 76, 85, 255]).flat());
+    // Only read the header and IFD (including the TileOffsets and TileByteCounts) so the YCbCr tags are not already loaded
+    const headerSize = 8 + 2 + (tags.length + 2) * 12 + 4;
+    const tiff = await new CogTiff(new SourceMemory(buildTiff([{ tags, data: [data] }])), headerSize).init();
+    const img = tiff.images[0];
+    // YCbCr tags are only loaded when YCbCr pixels are decoded
+    assert.equal(img.value(TiffTag.YCbCrCoefficients), null);
+    assert.equal(img.value(TiffTag.ReferenceBlackWhite), null);
+
+    const raster = await img.getTileRaster(0, 0);
+    assert.equal(raster?.samplesPerPixel, 3);
+    assert.deepEqual([...(raster?.pixels.subarray(0, 3) ?? [])], [76, 85, 255]);
+
+    assert.deepEqual(img.ycbcrSubSampling, [2, 2]);
+    assert.equal(img.ycbcrPositioning, 1);
+    assert.deepEqual(img.ycbcrCoefficients, [0.299, 0.587, 0.114]);
+    assert.deepEqual(img.referenceBlackWhite, [0, 255, 128, 255, 128, 255]);
+
+    const rgba = await img.getTileRgba(0, 0);
+    assert.equal(rgba?.pixels.length, 16 * 16 * 4);
+    assertPixel(rgba?.pixels.subarray(255 * 4) ?? new Uint8ClampedArray(), [254, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,233 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { deflateSync } from 'node:zlib';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { PlanarConfiguration, Predictor, SampleFormat, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { TypedArray } from '../decode/sample.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Apply horizontal differencing to a copy of the samples */
+function encodeHorizontal<T extends TypedArray>(values: T, width: number, samplesPerPixel: number): T {
+  const output = values.slice() as T;
+  const rowSize = width * samplesPerPixel;
+  for (let i = output.length - 1; i >= 0; i--) {
+    if (i % rowSize < samplesPerPixel) continue;
+    if (output instanceof BigUint64Array) output[i] = output[i] - (values as BigUint64Array)[i - samplesPerPixel];
+    else (output as Uint8Array)[i] = (output as Uint8Array)[i] - (values as Uint8Array)[i - samplesPerPixel];
+  }
+  return output;
+}
+
+/** Write samples as bytes in the requested byte order */
+function toBytes(values: TypedArray, isLittleEndian: boolean): Uint8Array {
+  const size = values.BYTES_PER_ELEMENT;
+  const bytes = new Uint8Array(values.length * size);
+  for (let i = 0; i < values.length; i++) {
+    const sample = new Uint8Array(values.buffer, values.byteOffset + i * size, size);
+    // Typed arrays are in platform byte order, which is little endian on all supported platforms
+    for (let b = 0; b < size; b++) bytes[i * size + b] = isLittleEndian ? sample[b] : sample[size - b - 1];
+  }
+  return bytes;
+}
+
+/** Split each row of floats into byte planes then difference the bytes */
+function encodeFloatingPoint(values: Float32Array | Float64Array, width: number, samplesPerPixel: number): Uint8Array {
+  const size = values.BYTES_PER_ELEMENT;
+  const samplesPerRow = width * samplesPerPixel;
+  const rowSize = samplesPerRow * size;
+  const bigEndian = toBytes(values, false);
+  const output = new Uint8Array(bigEndian.length);
+  for (let rowStart = 0; rowStart < output.length; rowStart += rowSize) {
+    const row = new Uint8Array(rowSize);
+    for (let s = 0; s < samplesPerRow; s++) {
+      for (let b = 0; b < size; b++) row[b * samplesPerRow + s] = bigEndian[rowStart + s * size + b];
+    }
+    for (let i = rowSize - 1; i >= samplesPerPixel; i--) row[i] = row[i] - row[i - samplesPerPixel];
+    output.set(row, rowStart);
+  }
+  return output;
+}
+
+function imageTags(opts: {
+  bits: number;
+  format: SampleFormat;
+  predictor: Predictor;
+  samplesPerPixel?: number;
+  planar?: PlanarConfiguration;
+}): TestTag[] {
+  const samplesPerPixel = opts.samplesPerPixel ?? 1;
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.SamplesPerPixel, type: TiffTagValueType.Uint16, value: samplesPerPixel },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: new Array(samplesPerPixel).fill(opts.bits) },
+    { id: TiffTag.SampleFormat, type: TiffTagValueType.Uint16, value: new Array(samplesPerPixel).fill(opts.format) },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 8 },
+    { id: TiffTag.Predictor, type: TiffTagValueType.Uint16, value: opts.predictor },
+    {
+      id: TiffTag.PlanarConfiguration,
+      type: TiffTagValueType.Uint16,
+      value: opts.planar ?? PlanarConfiguration.Contig,
+    },
+  ];
+}
+
+function values(count: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.round(Math.sin(i / 7) * 1000 + i));
+}
+
+describe('Predictor', () => {
+  for (const isLittleEndian of [true, false]) {
+    const name = isLittleEndian ? 'LE' : 'BE';
+    const integers = [
+      { bits: 8, format: SampleFormat.Uint, data: Uint8Array.from(values(256 * 3)) },
+      { bits: 16, format: SampleFormat.Uint, data: Uint16Array.from(values(256 * 3)) },
+      { bits: 32, format: SampleFormat.Int, data: Int32Array.from(values(256 * 3), (v) => v * -1000) },
+      { bits: 64, format: SampleFormat.Uint, data: BigUint64Array.from(values(256 * 3), (v) => BigInt(v) ** 5n) },
+    ];
+
+    for (const { bits, format, data } of integers) {
+      it(`should undo horizontal prediction ${data.constructor.name} ${name}`, async () => {
+        const tags = imageTags({ bits, format, predictor: Predictor.Horizontal, samplesPerPixel: 3 });
+        const encoded = toBytes(encodeHorizontal(data, 16, 3), isLittleEndian);
+        const bytes = buildTiff([{ tags, data: [deflateSync(encoded)] }], { isLittleEndian });
+        const tiff = await CogTiff.create(new SourceMemory(bytes));
+
+        assert.equal(tiff.images[0].predictor, Predictor.Horizontal);
+        const pixels = await tiff.images[0].getTilePixels(0, 0);
+        assert.equal(pixels?.samplesPerPixel, 3);
+        assert.deepEqual(pixels?.pixels, data);
+      });
+    }
+
+    for (const data of [
+      Float32Array.from(values(256 * 2), (v) => v / 7),
+      Float64Array.from(values(256 * 2), (v) => Math.sqrt(Math.abs(v))),
+    ]) {
+      const bits = data.BYTES_PER_ELEMENT * 8;
+      it(`should undo floating point prediction ${data.constructor.name} ${name}`, async () => {
+        const tags = imageTags({
+          bits,
+          format: SampleFormat.Float,
+          predictor: Predictor.FloatingPoint,
+          samplesPerPixel: 2,
+        });
+        const bytes = buildTiff([{ tags, data: [deflateSync(encodeFloatingPoint(data, 16, 2))] }], { isLittleEndian });
+        const tiff = await CogTiff.create(new SourceMemory(bytes));
+
+        const pixels = await tiff.images[0].getTilePixels(0, 0);
+        assert.deepEqual(pixels?.pixels, data);
+      });
+    }
+  }
+
+  it('should undo prediction on planar images', async () => {
+    const band = Uint16Array.from(values(256));
+    const tags = imageTags({
+      bits: 16,
+      format: SampleFormat.Uint,
+      predictor: Predictor.Horizontal,
+      samplesPerPixel: 3,
+      planar: PlanarConfiguration.Separate,
+    });
+    const bytes = buildTiff([{ tags, data: [deflateSync(toBytes(encodeHorizontal(band, 16, 1), true))] }]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+
+    const pixels = await tiff.images[0].getTilePixels(0, 0);
+    assert.equal(pixels?.samplesPerPixel, 1);
+    assert.deepEqual(pixels?.pixels, band);
+  });
+
+  it('should fail on horizontal prediction of floats', async () => {
+    const tags = imageTags({ bits: 32, format: SampleFormat.Float, predictor: Predictor.Horizontal });
+    const bytes = buildTiff([{ tags, data: [deflateSync(new Uint8Array(1024))] }]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    await assert.rejects(() => tiff.images[0].getTilePixels(0, 0), {
+      message: 'Horizontal predictor used on float data, float data should use the floating point predictor (3)',
+    });
+  });
+
+  it('should fail on floating point prediction of integers', async () => {
+    const tags = imageTags({ bits: 16, format: SampleFormat.Uint, predictor: Predictor.FloatingPoint });
+    const bytes = buildTiff([{ tags, data: [deflateSync(new Uint8Array(512))] }]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    await assert.rejects(() => tiff.images[0].getTilePixels(0, 0), {
+      message: 'Floating point predictor used on non float data',
+    });
+  });
+
+  it('should undo floating point prediction of a DEM', async () => {
+    // Re-encode the DEM with a floating point predictor, as GDAL would with PREDICTOR=3
+    const source = new TestFileSource(new URL('../../data/DEM_BS28_2016_1000_1141.tif', import.meta.url));
+    const dem = await CogTiff.create(source);
+    const [img] = dem.images;
+    const strip = await img.getStripPixels(0);
+    assert.ok(strip?.pixels instanceof Float32Array);
+
+    const sizeTags = new Set([TiffTag.ImageWidth, TiffTag.ImageHeight, TiffTag.TileWidth, TiffTag.TileHeight]);
+    const tags = imageTags({ bits: 32, format: SampleFormat.Float, predictor: Predictor.FloatingPoint }).filter(
+      (f) => !sizeTags.has(f.id),
+    );
+    tags.push({ id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: strip.width });
+    tags.push({ id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: strip.height });
+    tags.push({ id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: strip.width });
+    tags.push({ id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: strip.height });
+    const encoded = deflateSync(encodeFloatingPoint(strip.pixels, strip.width, 1));
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([{ tags, data: [encoded] }])));
+
+    const pixels = await tiff.images[0].getTilePixels(0, 0);
+    assert.deepEqual(pixels?.pixels, strip.pixels);
+  });
+});
+
+describe('Predictor GDAL', () => {
+  /** Open a tiff from the test data folder */
+  function open(name: string): Promise<CogTiff> {
+    return CogTiff.create(new TestFileSource(new URL(`../../data/${name}.tiff`, import.meta.url)));
+  }
+
+  const fixtures = [
+    { name: 'predictor_int16', predictor: Predictor.Horizontal, array: Int16Array },
+    { name: 'predictor_uint8_planar', predictor: Predictor.Horizontal, array: Uint8Array },
+    { name: 'predictor_float32', predictor: Predictor.FloatingPoint, array: Float32Array },
+    { name: 'predictor_float64', predictor: Predictor.FloatingPoint, array: Float64Array },
+  ];
+
+  for (const fixture of fixtures) {
+    it(`should decode ${fixture.name} written with PREDICTOR=${fixture.predictor}`, async () => {
+      const [source, predicted] = await Promise.all([
+        open(fixture.name),
+        open(`${fixture.name}_p${fixture.predictor}`),
+      ]);
+      const img = predicted.images[0];
+      assert.equal(img.value(TiffTag.Predictor), fixture.predictor);
+      assert.equal(source.images[0].value(TiffTag.Predictor), null);
+
+      // Every tile including the partial tiles on the right and bottom edges
+      const window = { x: 0, y: 0, width: 40, height: 30 };
+      const expected = await source.images[0].readWindow(window);
+      const actual = await img.readWindow(window);
+      assert.ok(actual.pixels instanceof fixture.array);
+      assert.deepEqual(actual.pixels, expected.pixels);
+    });
+  }
+
+  it('should decode planar images written with PREDICTOR=2', async () => {
+    const tiff = await open('predictor_uint8_planar_p2');
+    const img = tiff.images[0];
+    assert.equal(img.value(TiffTag.PlanarConfiguration), PlanarConfiguration.Separate);
+    assert.equal(img.planeCount, 3);
+
+    const source = await open('predictor_uint8_planar');
+    for (let band = 0; band < 3; band++) {
+      const expected = await source.images[0].getTilePixels(2, 1, { band });
+      const actual = await img.getTilePixels(2, 1, { band });
+      assert.deepEqual(actual?.pixels, expected?.pixels);
+    }
+  });
+});
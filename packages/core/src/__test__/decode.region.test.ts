@@ -0,0 +1,240 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag, TiffTagGeo } from '../const/tiff.tag.id.js';
+import { ModelTypeKey, SampleFormat, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { resample } from '../decode/resample.js';
+import { buildTiff, TestImage, TestTag } from './tiff.builder.js';
+
+/** Value of a pixel in the full resolution image */
+function value(x: number, y: number): number {
+  return x + y * 100;
+}
+
+function imageTags(width: number, height: number): TestTag[] {
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: width },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: height },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 32 },
+    { id: TiffTag.SampleFormat, type: TiffTagValueType.Uint16, value: SampleFormat.Float },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+  ];
+}
+
+/** Create a image where each pixel is the average of a `scale` sized block of the full resolution image */
+function image(width: number, height: number, scale: number): TestImage {
+  const data: Uint8Array[] = [];
+  for (let ty = 0; ty < height; ty += 16) {
+    for (let tx = 0; tx < width; tx += 16) {
+      const tile = new Float32Array(16 * 16);
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 16; x++) {
+          const px = (tx + x) * scale + (scale - 1) / 2;
+          const py = (ty + y) * scale + (scale - 1) / 2;
+          tile[y * 16 + x] = value(px, py);
+        }
+      }
+      data.push(new Uint8Array(tile.buffer));
+    }
+  }
+  return { tags: imageTags(width, height), data };
+}
+
+function create(withOverview: boolean): Promise<CogTiff> {
+  const full = image(32, 32, 1);
+  full.tags.push(
+    { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [1, 1, 0] },
+    { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [0, 0, 0, 1000, 2000, 0] },
+  );
+  const overview = image(16, 16, 2);
+  overview.tags.push({ id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 });
+  return CogTiff.create(new SourceMemory(buildTiff(withOverview ? [full, overview] : [full])));
+}
+
+describe('CogTiff.readRegion', () => {
+  it('should select overviews using both axes', async () => {
+    const tiff = await create(true);
+    const [full, overview] = tiff.images;
+    assert.equal(tiff.getImageByResolution(2), overview);
+    assert.equal(tiff.getImageByResolution(2, 2), overview);
+    assert.equal(tiff.getImageByResolution(2, -2), overview);
+    // Y axis needs more detail than the overview has
+    assert.equal(tiff.getImageByResolution(2, 1), full);
+    assert.equal(tiff.getImageByResolution(1, 2), full);
+  });
+
+  it('should select overviews with small resolutions', async () => {
+    const full = image(64, 64, 1);
+    full.tags.push(
+      { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [0.0001, 0.0001, 0] },
+      { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [0, 0, 0, 174, -41, 0] },
+      {
+        id: TiffTag.GeoKeyDirectory,
+        type: TiffTagValueType.Uint16,
+        value: [
+          ...[1, 1, 0, 2],
+          ...[TiffTagGeo.GTModelTypeGeoKey, 0, 1, ModelTypeKey.Geographic],
+          ...[TiffTagGeo.GeographicTypeGeoKey, 0, 1, 4326],
+        ],
+      },
+    );
+    const overviews = [image(32, 32, 2), image(16, 16, 4)];
+    for (const ov of overviews) ov.tags.push({ id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 });
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([full, ...overviews])));
+    assert.equal(tiff.images[0].epsg, 4326);
+
+    const [img, ovA, ovB] = tiff.images;
+    assert.equal(tiff.getImageByResolution(0.0001), img);
+    assert.equal(tiff.getImageByResolution(0.00015), img);
+    assert.equal(tiff.getImageByResolution(0.0002), ovA);
+    assert.equal(tiff.getImageByResolution(0.0002, -0.0002), ovA);
+    assert.equal(tiff.getImageByResolution(0.0004), ovB);
+    assert.equal(tiff.getImageByResolution(0.01), ovB);
+  });
+
+  it('should read regions at native resolution', async () => {
+    const tiff = await create(true);
+    const region = await tiff.readRegion([1004, 1984, 1012, 1996], { width: 8, height: 12 });
+    assert.equal(region.image, tiff.images[0]);
+    assert.deepEqual(region.bbox, [1004, 1984, 1012, 1996]);
+    assert.equal(region.width, 8);
+    assert.equal(region.height, 12);
+    assert.ok(region.pixels instanceof Float32Array);
+    for (let y = 0; y < 12; y++) {
+      for (let x = 0; x < 8; x++) assert.equal(region.pixels[y * 8 + x], value(x + 4, y + 4));
+    }
+  });
+
+  it('should read from overviews', async () => {
+    const tiff = await create(true);
+    const region = await tiff.readRegion([1000, 1968, 1032, 2000], { width: 16, height: 16 });
+    assert.equal(region.image, tiff.images[1]);
+    assert.equal(region.pixels[0], value(0.5, 0.5));
+    assert.equal(region.pixels[17], value(2.5, 2.5));
+  });
+
+  it('should resample with average', async () => {
+    const tiff = await create(false);
+    const region = await tiff.readRegion([1000, 1968, 1032, 2000], { width: 8, height: 8 }, { resampling: 'average' });
+    assert.equal(region.image, tiff.images[0]);
+    // Each output pixel is the average of a 4x4 block
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) assert.equal(region.pixels[y * 8 + x], value(x * 4 + 1.5, y * 4 + 1.5));
+    }
+  });
+
+  it('should resample with bilinear', async () => {
+    const tiff = await create(false);
+    // Shift the region by half a pixel so every output pixel is between four source pixels
+    const region = await tiff.readRegion(
+      [1004.5, 1983.5, 1012.5, 1995.5],
+      { width: 8, height: 12 },
+      {
+        resampling: 'bilinear',
+      },
+    );
+    for (let y = 0; y < 12; y++) {
+      for (let x = 0; x < 8; x++) assert.equal(region.pixels[y * 8 + x], value(x + 4.5, y + 4.5));
+    }
+  });
+
+  it('should read the full footprint of skewed images', async () => {
+    const full = image(32, 32, 1);
+    // Rows are skewed so moving right moves half a unit down
+    const transform = [1, 0, 0, 1000, -0.5, -1, 0, 2000, 0, 0, 0, 0, 0, 0, 0, 1];
+    full.tags.push({ id: TiffTag.ModelTransformation, type: TiffTagValueType.Float64, value: transform });
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([full])));
+
+    // Top right corner of the bbox is pixel row 4 and bottom right corner is row 16
+    const region = await tiff.readRegion([1000, 1984, 1008, 1992], { width: 8, height: 8 });
+    // Every output pixel is sampled at its center, (1000.5, 1991.5) is pixel row 8.25
+    assert.equal(region.pixels[0], value(0, 8));
+    // (1007.5, 1984.5) is pixel row 11.75
+    assert.equal(region.pixels[63], value(7, 11));
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const [px, py] = region.image.toPixel(1000 + x + 0.5, 1992 - y - 0.5);
+        assert.equal(region.pixels[y * 8 + x], value(Math.floor(px), Math.floor(py)));
+      }
+    }
+
+    const bilinear = await tiff.readRegion(
+      [1000, 1984, 1008, 1992],
+      { width: 8, height: 8 },
+      { resampling: 'bilinear' },
+    );
+    // Pixel values change linearly so bilinear sampling at (0.5, 8.25) is the value of that location
+    assert.equal(bilinear.pixels[0], value(0, 7.75));
+  });
+
+  it('should only read pixels inside of the image', async () => {
+    const tiff = await create(false);
+    const img = tiff.images[0];
+    const windows: unknown[] = [];
+    const readWindow = img.readWindow.bind(img);
+    img.readWindow = (window, options): ReturnType<typeof readWindow> => {
+      windows.push(window);
+      return readWindow(window, options);
+    };
+
+    const region = await tiff.readRegion([-1e6, -1e6, 1e6, 1e6], { width: 256, height: 256 }, { nodata: -1 });
+    assert.equal(region.pixels.length, 256 * 256);
+    assert.ok(region.pixels.filter((f) => f !== -1).length <= 1);
+
+    const edge = await tiff.readRegion([980, 1990, 1010, 2020], { width: 30, height: 30 }, { nodata: -1 });
+    assert.equal(edge.pixels[0], -1);
+    assert.equal(edge.pixels[20 * 30 + 20], value(0, 0));
+    assert.deepEqual(windows, [
+      { x: 0, y: 0, width: 32, height: 32 },
+      { x: 0, y: 0, width: 11, height: 11 },
+    ]);
+  });
+
+  it('should fill pixels outside of the image with nodata', async () => {
+    const tiff = await create(false);
+    for (const resampling of ['nearest', 'bilinear', 'average'] as const) {
+      const region = await tiff.readRegion(
+        [990, 1990, 1010, 2010],
+        { width: 4, height: 4 },
+        { resampling, nodata: -1 },
+      );
+      assert.deepEqual([...region.pixels.slice(0, 4)], [-1, -1, -1, -1], resampling);
+      assert.equal(region.pixels[15], value(7, 7), resampling);
+    }
+  });
+});
+
+describe('resample', () => {
+  it('should ignore nodata when averaging', () => {
+    const source = { width: 2, height: 2, samplesPerPixel: 1, interleave: 'pixel' as const };
+    const pixels = new Uint8Array([10, 0, 20, 0]);
+    const output = resample(
+      { ...source, pixels },
+      { method: 'average', box: { x: 0, y: 0, width: 2, height: 2 }, size: { width: 1, height: 1 }, nodata: 0 },
+    );
+    assert.deepEqual(output.pixels, new Uint8Array([15]));
+  });
+
+  it('should ignore Float32 nodata', () => {
+    const source = { width: 2, height: 1, samplesPerPixel: 1, interleave: 'pixel' as const };
+    const pixels = new Float32Array([-9999.9, 4]);
+    const output = resample(
+      { ...source, pixels },
+      { method: 'average', box: { x: 0, y: 0, width: 2, height: 1 }, size: { width: 1, height: 1 }, nodata: -9999.9 },
+    );
+    assert.deepEqual(output.pixels, new Float32Array([4]));
+  });
+
+  it('should resample band interleaved pixels', () => {
+    const source = { width: 2, height: 1, samplesPerPixel: 2, interleave: 'band' as const };
+    const pixels = new Uint16Array([1, 3, 100, 300]);
+    const output = resample(
+      { ...source, pixels },
+      { method: 'average', box: { x: 0, y: 0, width: 2, height: 1 }, size: { width: 1, height: 1 } },
+    );
+    assert.deepEqual(output.pixels, new Uint16Array([2, 200]));
+  });
+});
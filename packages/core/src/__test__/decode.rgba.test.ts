@@ -0,0 +1,81 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { PhotometricInterpretation, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { expandPalette, toColorTable } from '../decode/rgba.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Create a 16 bit ColorMap where index `i` is `[i, 255 - i, 128]` */
+function createColorMap(): number[] {
+  const red = Array.from({ length: 256 }, (_, i) => i * 257);
+  const green = Array.from({ length: 256 }, (_, i) => (255 - i) * 257);
+  const blue = Array.from({ length: 256 }, () => 128 * 257);
+  return [...red, ...green, ...blue];
+}
+
+describe('Palette', () => {
+  it('should scale 16 bit color maps to 8 bit', () => {
+    const table = toColorTable(createColorMap());
+    assert.equal(table.length, 256 * 4);
+    assert.deepEqual([...table.subarray(0, 8)], [0, 255, 128, 255, 1, 254, 128, 255]);
+    assert.deepEqual([...table.subarray(255 * 4)], [255, 0, 128, 255]);
+  });
+
+  it('should use 8 bit color maps as is', () => {
+    const table = toColorTable([10, 20, 30, 40, 50, 60]);
+    assert.deepEqual([...table], [10, 30, 50, 255, 20, 40, 60, 255]);
+  });
+
+  it('should make nodata and out of range indexes transparent', () => {
+    const table = toColorTable([10, 20, 30, 40, 50, 60]);
+    const raster = { width: 4, height: 1, samplesPerPixel: 1, pixels: new Uint8Array([0, 1, 2, 1]) };
+    const rgba = expandPalette(raster, table, 1);
+    assert.deepEqual([...rgba.pixels], [10, 30, 50, 255, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+    assert.equal(rgba.width, 4);
+  });
+
+  it('should expand palette tiles to rgba', async () => {
+    const tags: TestTag[] = [
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+      {
+        id: TiffTag.PhotometricInterpretation,
+        type: TiffTagValueType.Uint16,
+        value: PhotometricInterpretation.Palette,
+      },
+      { id: TiffTag.ColorMap, type: TiffTagValueType.Uint16, value: createColorMap() },
+      { id: TiffTag.GdalNoData, type: TiffTagValueType.Ascii, value: '0' },
+    ];
+    const data = new Uint8Array(256).map((_, i) => i);
+    // Only read the IFD so the ColorMap is not already loaded with the header
+    const tiff = await new CogTiff(new SourceMemory(buildTiff([{ tags, data: [data] }])), 256).init();
+    const img = tiff.images[0];
+
+    // The ColorMap is only loaded when it is needed
+    assert.equal(img.value(TiffTag.ColorMap), null);
+    assert.equal((await img.fetchColorTable())?.length, 1024);
+    const rgba = await img.getTileRgba(0, 0);
+    assert.equal(rgba?.pixels.length, 256 * 4);
+    assert.deepEqual([...(rgba?.pixels.subarray(0, 8) ?? [])], [0, 0, 0, 0, 1, 254, 128, 255]);
+  });
+
+  it('should not convert unknown color spaces', async () => {
+    const tags: TestTag[] = [
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+      { id: TiffTag.PhotometricInterpretation, type: TiffTagValueType.Uint16, value: PhotometricInterpretation.Mask },
+    ];
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([{ tags, data: [new Uint8Array(256)] }])));
+    await assert.rejects(() => tiff.images[0].getTileRgba(0, 0), /Unsupported photometric interpretation for RGBA: 4/);
+  });
+});
@@ -0,0 +1,186 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { SampleFormat, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { copySamples, getSampleType, readSamples } from '../decode/sample.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Read samples from a list of bytes */
+function read(format: SampleFormat, bits: number, bytes: number[], count: number, isLittleEndian = true): number[] {
+  const type = getSampleType(format, bits);
+  return [...readSamples(new Uint8Array(bytes).buffer, type, count, isLittleEndian)].map(Number);
+}
+
+describe('getSampleType', () => {
+  it('should resolve every valid combination', () => {
+    const types = [
+      { format: SampleFormat.Uint, bits: [1, 2, 4, 7], array: Uint8Array },
+      { format: SampleFormat.Uint, bits: [12, 16], array: Uint16Array },
+      { format: SampleFormat.Uint, bits: [24, 31, 32], array: Uint32Array },
+      { format: SampleFormat.Uint, bits: [64], array: BigUint64Array },
+      { format: SampleFormat.Void, bits: [4, 8], array: Uint8Array },
+      { format: SampleFormat.Int, bits: [4, 8], array: Int8Array },
+      { format: SampleFormat.Int, bits: [12, 16], array: Int16Array },
+      { format: SampleFormat.Int, bits: [24, 32], array: Int32Array },
+      { format: SampleFormat.Int, bits: [64], array: BigInt64Array },
+      { format: SampleFormat.Float, bits: [16, 24, 32], array: Float32Array },
+      { format: SampleFormat.Float, bits: [64], array: Float64Array },
+      { format: SampleFormat.ComplexInt, bits: [32], array: Int16Array },
+      { format: SampleFormat.ComplexInt, bits: [64], array: Int32Array },
+      { format: SampleFormat.ComplexFloat, bits: [32, 64], array: Float32Array },
+      { format: SampleFormat.ComplexFloat, bits: [128], array: Float64Array },
+    ];
+    for (const t of types) {
+      for (const bits of t.bits) {
+        const type = getSampleType(t.format, bits);
+        assert.equal(type.array, t.array, `${SampleFormat[t.format]} ${bits}`);
+        assert.equal(type.isPacked, bits % 8 !== 0);
+        const isComplex = t.format === SampleFormat.ComplexInt || t.format === SampleFormat.ComplexFloat;
+        assert.equal(type.components, isComplex ? 2 : 1);
+      }
+    }
+  });
+
+  it('should fail on unsupported combinations', () => {
+    const invalid = [
+      [SampleFormat.Uint, 0],
+      [SampleFormat.Uint, 33],
+      [SampleFormat.Uint, 48],
+      [SampleFormat.Int, 40],
+      [SampleFormat.Float, 8],
+      [SampleFormat.Float, 12],
+      [SampleFormat.Float, 128],
+      [SampleFormat.ComplexInt, 16],
+      [SampleFormat.ComplexInt, 128],
+      [SampleFormat.ComplexFloat, 16],
+      [99, 8],
+    ];
+    for (const [format, bits] of invalid) {
+      assert.throws(() => getSampleType(format, bits), {
+        message: `Unsupported sample type format:${format} bitsPerSample:${bits}`,
+      });
+    }
+  });
+});
+
+describe('readSamples', () => {
+  it('should unpack sub byte samples', () => {
+    assert.deepEqual(read(SampleFormat.Uint, 1, [0b10110000], 4), [1, 0, 1, 1]);
+    assert.deepEqual(read(SampleFormat.Uint, 2, [0b11100100], 4), [3, 2, 1, 0]);
+    assert.deepEqual(read(SampleFormat.Uint, 4, [0xab, 0xcd], 4), [10, 11, 12, 13]);
+    assert.deepEqual(read(SampleFormat.Int, 4, [0x7f, 0x81], 4), [7, -1, -8, 1]);
+    // 12 bit samples are always most significant bit first regardless of the byte order
+    assert.deepEqual(read(SampleFormat.Uint, 12, [0x12, 0x34, 0x56], 2), [0x123, 0x456]);
+    assert.deepEqual(read(SampleFormat.Uint, 12, [0x12, 0x34, 0x56], 2, false), [0x123, 0x456]);
+  });
+
+  it('should start each row of packed samples on a byte boundary', () => {
+    const type = getSampleType(SampleFormat.Uint, 1);
+    // Two rows of three samples
+    const bytes = new Uint8Array([0b10100000, 0b01100000]).buffer;
+    assert.deepEqual([...readSamples(bytes, type, 6, true, 3)], [1, 0, 1, 0, 1, 1]);
+  });
+
+  it('should read 24 bit integers', () => {
+    assert.deepEqual(read(SampleFormat.Uint, 24, [0x01, 0x02, 0x03, 0xff, 0xff, 0xff], 2), [0x030201, 0xffffff]);
+    assert.deepEqual(read(SampleFormat.Uint, 24, [0x01, 0x02, 0x03], 1, false), [0x010203]);
+    assert.deepEqual(read(SampleFormat.Int, 24, [0xfe, 0xff, 0xff, 0xff, 0xff, 0x7f], 2), [-2, 0x7fffff]);
+  });
+
+  it('should widen Float16', () => {
+    const values = [0x3c00, 0xc000, 0x7bff, 0x0001, 0x7c00, 0xfc00, 0x3555, 0x0000];
+    const bytes = new Uint8Array(Uint16Array.from(values).buffer);
+    const output = read(SampleFormat.Float, 16, [...bytes], values.length);
+    assert.deepEqual(output.slice(0, 6), [1, -2, 65504, 2 ** -24, Infinity, -Infinity]);
+    assert.ok(Math.abs(output[6] - 1 / 3) < 1e-3);
+    assert.equal(output[7], 0);
+    assert.ok(Number.isNaN(read(SampleFormat.Float, 16, [0x01, 0x7e], 1)[0]));
+    assert.deepEqual(read(SampleFormat.Float, 16, [0x3c, 0x00], 1, false), [1]);
+  });
+
+  it('should widen Float24', () => {
+    // 1 sign bit, 7 exponent bits with a bias of 63 and 16 mantissa bits
+    assert.deepEqual(read(SampleFormat.Float, 24, [0x00, 0x00, 0x3f], 1), [1]);
+    assert.deepEqual(read(SampleFormat.Float, 24, [0x00, 0x80, 0xc0], 1), [-3]);
+    assert.deepEqual(read(SampleFormat.Float, 24, [0x40, 0x00, 0x00], 1, false), [2]);
+  });
+
+  it('should read complex samples as real and imaginary values', () => {
+    const cint16 = new Uint8Array(Int16Array.from([1, -2, 300, -400]).buffer);
+    assert.deepEqual(read(SampleFormat.ComplexInt, 32, [...cint16], 2), [1, -2, 300, -400]);
+
+    const cfloat32 = new Uint8Array(Float32Array.from([1.5, -2.5]).buffer);
+    assert.deepEqual(read(SampleFormat.ComplexFloat, 64, [...cfloat32], 1), [1.5, -2.5]);
+
+    const view = new DataView(new ArrayBuffer(16));
+    view.setFloat64(0, 0.25, false);
+    view.setFloat64(8, -8, false);
+    assert.deepEqual(read(SampleFormat.ComplexFloat, 128, [...new Uint8Array(view.buffer)], 1, false), [0.25, -8]);
+  });
+});
+
+describe('copySamples', () => {
+  it('should copy samples at a offset', () => {
+    const target = new Float32Array(4);
+    copySamples(target, new Uint8Array([1, 2]), 1);
+    assert.deepEqual([...target], [0, 1, 2, 0]);
+
+    const bigTarget = new BigUint64Array(2);
+    copySamples(bigTarget, new BigInt64Array([5n]), 1);
+    assert.deepEqual([...bigTarget], [0n, 5n]);
+  });
+
+  it('should not mix bigint and number samples', () => {
+    assert.throws(() => copySamples(new BigInt64Array(1), new Uint8Array(1)), {
+      message: 'Unable to copy Uint8Array samples into BigInt64Array',
+    });
+    assert.throws(() => copySamples(new Uint8Array(1), new BigInt64Array(1)), {
+      message: 'Unable to copy BigInt64Array samples into Uint8Array',
+    });
+  });
+});
+
+describe('CogTiffImage.getStripPixels', () => {
+  function createTiff(bits: number, format: SampleFormat, data: Uint8Array, extra: TestTag[] = []): Promise<CogTiff> {
+    const tags: TestTag[] = [
+      { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 3 },
+      { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 2 },
+      { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: bits },
+      { id: TiffTag.SampleFormat, type: TiffTagValueType.Uint16, value: format },
+      { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+      { id: TiffTag.RowsPerStrip, type: TiffTagValueType.Uint16, value: 2 },
+      ...extra,
+    ];
+    return CogTiff.create(new SourceMemory(buildTiff([{ tags, data: [data], isStriped: true }])));
+  }
+
+  it('should decode 4 bit strips with padded rows', async () => {
+    const tiff = await createTiff(4, SampleFormat.Uint, new Uint8Array([0x12, 0x30, 0x45, 0x60]));
+    const raster = await tiff.images[0].getStripPixels(0);
+    assert.equal(raster?.samplesPerPixel, 1);
+    assert.deepEqual([...(raster?.pixels ?? [])], [1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should decode complex strips', async () => {
+    const data = new Uint8Array(Int16Array.from([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]).buffer);
+    const tiff = await createTiff(32, SampleFormat.ComplexInt, data);
+    const raster = await tiff.images[0].getStripPixels(0);
+    assert.ok(raster?.pixels instanceof Int16Array);
+    assert.equal(raster?.samplesPerPixel, 2);
+    assert.deepEqual([...raster.pixels], [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+
+    const window = await tiff.images[0].readWindow({ x: 1, y: 1, width: 2, height: 1 });
+    assert.equal(window.samplesPerPixel, 2);
+    assert.deepEqual([...window.pixels], [9, 10, 11, 12]);
+  });
+
+  it('should not allow horizontal prediction of widened samples', async () => {
+    const predictor: TestTag = { id: TiffTag.Predictor, type: TiffTagValueType.Uint16, value: 2 };
+    const tiff = await createTiff(24, SampleFormat.Uint, new Uint8Array(18), [predictor]);
+    await assert.rejects(() => tiff.images[0].getStripPixels(0), {
+      message: 'Unsupported horizontal predictor bits per sample: 24',
+    });
+  });
+});
@@ -0,0 +1,254 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffMimeType } from '../const/tiff.mime.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { SampleFormat, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { decompressDeflate } from '../decode/decompress.deflate.js';
+import { Decompressors } from '../decode/decompress.js';
+import { decompressLzw } from '../decode/decompress.lzw.js';
+import { decompressPackBits } from '../decode/decompress.packbits.js';
+import { getSampleType } from '../decode/sample.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Minimal TIFF LZW encoder to create test data */
+function encodeLzw(data: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeLength = 9;
+  function write(code: number): void {
+    bitBuffer = (bitBuffer << codeLength) | code;
+    bitCount += codeLength;
+    while (bitCount >= 8) {
+      output.push((bitBuffer >> (bitCount - 8)) & 0xff);
+      bitCount -= 8;
+    }
+    bitBuffer &= (1 << bitCount) - 1;
+  }
+
+  let table = new Map<number, number>();
+  let nextCode = 258;
+  write(256);
+  let current = data[0];
+  for (let i = 1; i < data.length; i++) {
+    const key = current * 256 + data[i];
+    const existing = table.get(key);
+    if (existing != null) {
+      current = existing;
+      continue;
+    }
+    write(current);
+    table.set(key, nextCode++);
+    current = data[i];
+    if (nextCode === 4094) {
+      write(256);
+      table = new Map();
+      nextCode = 258;
+      codeLength = 9;
+    } else if (nextCode > (1 << codeLength) - 1) {
+      codeLength++;
+    }
+  }
+  write(current);
+  write(257);
+  if (bitCount > 0) output.push((bitBuffer << (8 - bitCount)) & 0xff);
+  return new Uint8Array(output);
+}
+
+function imageTags(width: number, height: number, bitsPerSample: number, sampleFormat: SampleFormat): TestTag[] {
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: width },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: height },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: bitsPerSample },
+    { id: TiffTag.SampleFormat, type: TiffTagValueType.Uint16, value: sampleFormat },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+  ];
+}
+
+/** A pattern with enough repetition to compress but enough variation to fill LZW tables */
+function pattern(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) bytes[i] = (i * 7 + (i >> 5)) & 0xff;
+  return bytes;
+}
+
+describe('Decompress', () => {
+  it('should decompress packbits', () => {
+    // Example from TIFF 6.0 Section 9
+    const packed = new Uint8Array([
+      0xfe, 0xaa, 0x02, 0x80, 0x00, 0x2a, 0xfd, 0xaa, 0x03, 0x80, 0x00, 0x2a, 0x22, 0xf7, 0xaa,
+    ]);
+    const expected = [0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0xaa, 0xaa, 0xaa, 0xaa, 0x80, 0x00, 0x2a, 0x22];
+    for (let i = 0; i < 10; i++) expected.push(0xaa);
+    assert.deepEqual(new Uint8Array(decompressPackBits(packed.buffer, 24)), new Uint8Array(expected));
+  });
+
+  it('should decompress lzw', () => {
+    // Clear, "A" (65), "B" (66), "AB" (258), EndOfInformation as 9 bit codes
+    const bytes = new Uint8Array([0x80, 0x10, 0x48, 0x50, 0x28, 0x10, 0x00]);
+    assert.deepEqual(new Uint8Array(decompressLzw(bytes.buffer, 4)), new Uint8Array([65, 66, 65, 66]));
+
+    // Large enough to need 12 bit codes and a table reset
+    const data = pattern(64 * 1024);
+    const encoded = encodeLzw(data);
+    assert.deepEqual(new Uint8Array(decompressLzw(encoded.buffer, data.length)), data);
+  });
+
+  it('should decompress deflate with and without a zlib header', () => {
+    const data = pattern(32 * 1024);
+    for (const compressed of [deflateSync(data), deflateRawSync(data), deflateSync(data, { level: 0 })]) {
+      const buf = compressed.buffer.slice(compressed.byteOffset, compressed.byteOffset + compressed.byteLength);
+      assert.deepEqual(new Uint8Array(decompressDeflate(buf, data.length)), data);
+      // Output should grow if the expected size is too small
+      assert.deepEqual(new Uint8Array(decompressDeflate(buf, 10)), data);
+    }
+  });
+
+  it('should fail on unsupported sample types', () => {
+    assert.throws(() => getSampleType(SampleFormat.Float, 8), {
+      message: 'Unsupported sample type format:3 bitsPerSample:8',
+    });
+  });
+});
+
+describe('CogTiffImage.getTilePixels', () => {
+  const values = Array.from({ length: 256 }, (_, i) => i * 3 - 100);
+
+  for (const isLittleEndian of [true, false]) {
+    const name = isLittleEndian ? 'LE' : 'BE';
+
+    const types = [
+      { format: SampleFormat.Uint, bits: 16, array: Uint16Array, set: 'setUint16', values: values.map(Math.abs) },
+      { format: SampleFormat.Int, bits: 32, array: Int32Array, set: 'setInt32', values },
+      {
+        format: SampleFormat.Float,
+        bits: 32,
+        array: Float32Array,
+        set: 'setFloat32',
+        values: values.map((v) => v / 4),
+      },
+      {
+        format: SampleFormat.Float,
+        bits: 64,
+        array: Float64Array,
+        set: 'setFloat64',
+        values: values.map((v) => v / 3),
+      },
+    ] as const;
+
+    for (const type of types) {
+      it(`should decode ${type.array.name} ${name}`, async () => {
+        const raw = new Uint8Array(256 * (type.bits / 8));
+        const view = new DataView(raw.buffer);
+        for (let i = 0; i < 256; i++) view[type.set](i * (type.bits / 8), type.values[i], isLittleEndian);
+
+        const bytes = buildTiff([{ tags: imageTags(16, 16, type.bits, type.format), data: [raw] }], { isLittleEndian });
+        const tiff = await CogTiff.create(new SourceMemory(bytes));
+        const pixels = await tiff.images[0].getTilePixels(0, 0);
+        assert.equal(pixels?.width, 16);
+        assert.equal(pixels?.height, 16);
+        assert.equal(pixels?.samplesPerPixel, 1);
+        assert.ok(pixels?.pixels instanceof type.array);
+        assert.deepEqual(pixels?.pixels, type.array.from(type.values));
+      });
+    }
+
+    it(`should decode compressed tiles ${name}`, async () => {
+      const data = pattern(16 * 16 * 2);
+      const tiles = [
+        { compression: 5, bytes: encodeLzw(data) },
+        { compression: 8, bytes: new Uint8Array(deflateSync(data)) },
+        { compression: 32946, bytes: new Uint8Array(deflateSync(data)) },
+      ];
+      for (const tile of tiles) {
+        const tags = imageTags(16, 16, 16, SampleFormat.Uint).filter((f) => f.id !== TiffTag.Compression);
+        tags.push({ id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: tile.compression });
+        const bytes = buildTiff([{ tags, data: [tile.bytes] }], { isLittleEndian });
+        const tiff = await CogTiff.create(new SourceMemory(bytes));
+
+        const pixels = await tiff.images[0].getTilePixels(0, 0);
+        const view = new DataView(data.buffer);
+        const expected = new Uint16Array(256).map((_, i) => view.getUint16(i * 2, isLittleEndian));
+        assert.deepEqual(pixels?.pixels, expected);
+      }
+    });
+  }
+
+  it('should return null for empty tiles', async () => {
+    const bytes = buildTiff([{ tags: imageTags(32, 16, 8, SampleFormat.Uint), data: [null, new Uint8Array([1])] }]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    assert.equal(await tiff.images[0].getTilePixels(0, 0), null);
+
+    // Short tiles are padded with zeros
+    const pixels = await tiff.images[0].getTilePixels(1, 0);
+    assert.equal(pixels?.pixels.length, 256);
+    assert.equal(pixels?.pixels[0], 1);
+    assert.equal(pixels?.pixels[1], 0);
+  });
+
+  it('should use registered decompressors', async () => {
+    const tags = imageTags(16, 16, 8, SampleFormat.Uint).filter((f) => f.id !== TiffTag.Compression);
+    tags.push({ id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 50000 }); // Zstd
+    const bytes = buildTiff([{ tags, data: [new Uint8Array([42])] }]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img] = tiff.images;
+
+    await assert.rejects(() => img.getTilePixels(0, 0), {
+      message: 'Unsupported compression for decoding: ' + TiffMimeType.Zstd,
+    });
+
+    Decompressors.set(TiffMimeType.Zstd, (buf, ctx) => {
+      assert.equal(ctx.image, img);
+      assert.equal(ctx.byteLength, 256);
+      return new Uint8Array(ctx.byteLength).fill(new Uint8Array(buf)[0]).buffer;
+    });
+    try {
+      const pixels = await img.getTilePixels(0, 0);
+      assert.deepEqual(pixels?.pixels, new Uint8Array(256).fill(42));
+    } finally {
+      Decompressors.delete(TiffMimeType.Zstd);
+    }
+  });
+
+  it('should decode big tiff tiles', async () => {
+    const tiff = await CogTiff.create(new TestFileSource(new URL('../../data/big_cog.tiff', import.meta.url)));
+    const [img] = tiff.images;
+    const tile = await img.getTile(0, 0);
+    const pixels = await img.getTilePixels(0, 0);
+    assert.equal(pixels?.samplesPerPixel, 3);
+    assert.equal(pixels?.pixels.length, 256 * 256 * 3);
+    assert.deepEqual(pixels?.pixels, new Uint8Array(tile?.bytes ?? []));
+  });
+});
+
+describe('CogTiffImage.getStripPixels', () => {
+  it('should decode float32 strips', async () => {
+    const tiff = await CogTiff.create(
+      new TestFileSource(new URL('../../data/DEM_BS28_2016_1000_1141.tif', import.meta.url)),
+    );
+    const [img] = tiff.images;
+    assert.deepEqual(img.sampleFormat, [SampleFormat.Float]);
+
+    const { width, height } = img.size;
+    const rowsPerStrip = img.rowsPerStrip;
+    const lastStrip = img.stripCount - 1;
+    for (const index of [0, lastStrip]) {
+      const strip = await img.getStrip(index);
+      const pixels = await img.getStripPixels(index);
+      const rows = Math.min(rowsPerStrip, height - index * rowsPerStrip);
+      assert.equal(pixels?.width, width);
+      assert.equal(pixels?.height, rows);
+      assert.ok(pixels?.pixels instanceof Float32Array);
+
+      const view = new DataView(strip?.bytes ?? new ArrayBuffer(0));
+      const expected = new Float32Array(width * rows).map((_, i) => view.getFloat32(i * 4, tiff.isLittleEndian));
+      assert.deepEqual(pixels?.pixels, expected);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { SampleFormat, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { toPhysicalValues } from '../decode/values.js';
+import { parseGdalNoData } from '../metadata/metadata.gdal.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+const GdalMetadataXml = `<GDALMetadata>
+  <Item name="SCALE" sample="0" role="scale">0.5</Item>
+  <Item name="OFFSET" sample="0" role="offset">-10</Item>
+</GDALMetadata>
+`;
+
+/** Create a 4x2 Int16 image stored as a single strip */
+async function createTiff(values: number[], extraTags: TestTag[]): Promise<CogTiff> {
+  const tags: TestTag[] = [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 4 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 2 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.SampleFormat, type: TiffTagValueType.Uint16, value: SampleFormat.Int },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+    { id: TiffTag.RowsPerStrip, type: TiffTagValueType.Uint16, value: 2 },
+    ...extraTags,
+  ];
+  const data = new Uint8Array(Int16Array.from(values).buffer);
+  return CogTiff.create(new SourceMemory(buildTiff([{ tags, data: [data], isStriped: true }])));
+}
+
+describe('GdalNoData', () => {
+  it('should parse ascii nodata values', () => {
+    assert.equal(parseGdalNoData('-9999'), -9999);
+    assert.equal(parseGdalNoData(' 1.5e3\0'), 1500);
+    assert.ok(isNaN(parseGdalNoData('nan') as number));
+    assert.ok(isNaN(parseGdalNoData('-NaN') as number));
+    assert.equal(parseGdalNoData('-inf'), -Infinity);
+    assert.equal(parseGdalNoData('inf'), Infinity);
+    assert.equal(parseGdalNoData(255), 255);
+    assert.equal(parseGdalNoData(''), null);
+    assert.equal(parseGdalNoData('none'), null);
+    assert.equal(parseGdalNoData(null), null);
+  });
+
+  it('should read nodata from a tiff', async () => {
+    const source = new TestFileSource(new URL('../../data/DEM_BS28_2016_1000_1141.tif', import.meta.url));
+    const tiff = await CogTiff.create(source);
+    assert.equal(tiff.images[0].gdalNoData, -9999);
+  });
+
+  it('should read long nodata values', async () => {
+    const nodata = '-3.4028234663852886e+38';
+    const tiff = await createTiff([0], [{ id: TiffTag.GdalNoData, type: TiffTagValueType.Ascii, value: nodata }]);
+    assert.equal(tiff.images[0].gdalNoData, -3.4028234663852886e38);
+  });
+});
+
+describe('readValues', () => {
+  const values = [0, 2, -9999, 4, 6, 8, -9999, 10];
+  const tags: TestTag[] = [
+    { id: TiffTag.GdalNoData, type: TiffTagValueType.Ascii, value: '-9999' },
+    { id: TiffTag.GdalMetadata, type: TiffTagValueType.Ascii, value: GdalMetadataXml },
+  ];
+
+  it('should apply scale, offset and nodata', async () => {
+    const tiff = await createTiff(values, tags);
+    const raster = await tiff.images[0].readValues({ x: 0, y: 0, width: 4, height: 2 });
+    assert.ok(raster.pixels instanceof Float32Array);
+    assert.deepEqual([...raster.pixels], [-10, -9, NaN, -8, -7, -6, NaN, -5]);
+    assert.equal(raster.mask, null);
+  });
+
+  it('should mask nodata', async () => {
+    const tiff = await createTiff(values, tags);
+    const raster = await tiff.images[0].readValues({ x: 0, y: 0, width: 4, height: 2 }, { nodataMode: 'mask' });
+    assert.deepEqual([...(raster.mask ?? [])], [1, 1, 0, 1, 1, 1, 0, 1]);
+    assert.equal(raster.pixels[0], -10);
+  });
+
+  it('should mask pixels outside of the image', async () => {
+    const tiff = await createTiff(values, tags);
+    const raster = await tiff.images[0].readValues({ x: 2, y: 1, width: 3, height: 2 }, { nodataMode: 'mask' });
+    assert.deepEqual([...(raster.mask ?? [])], [0, 1, 0, 0, 0, 0]);
+  });
+
+  it('should use scales from the options', async () => {
+    const tiff = await createTiff(values, tags);
+    const scales = [{ scale: 2, offset: 1 }];
+    const raster = await tiff.images[0].readValues({ x: 0, y: 0, width: 2, height: 1 }, { scales });
+    assert.deepEqual([...raster.pixels], [1, 5]);
+  });
+
+  it('should not scale without gdal metadata', async () => {
+    const tiff = await createTiff(values, []);
+    const raster = await tiff.images[0].readValues({ x: 0, y: 0, width: 4, height: 1 });
+    assert.deepEqual([...raster.pixels], [0, 2, -9999, 4]);
+  });
+
+  it('should match nan nodata and scale each band', () => {
+    const raster = toPhysicalValues(
+      {
+        x: 0,
+        y: 0,
+        width: 2,
+        height: 1,
+        samplesPerPixel: 2,
+        interleave: 'band',
+        pixels: new Float64Array([1, NaN, 3, 4]),
+      },
+      {
+        scales: [
+          { scale: 1, offset: 0 },
+          { scale: 10, offset: 1 },
+        ],
+        nodata: NaN,
+        nodataMode: 'nan',
+      },
+    );
+    assert.ok(raster.pixels instanceof Float64Array);
+    assert.deepEqual([...raster.pixels], [1, NaN, 31, 41]);
+  });
+  it('should match nodata of Float32 samples', () => {
+    // GDAL nodata is a double, -9999.9 is stored as -9999.900390625 in a Float32 raster
+    const raster = toPhysicalValues(
+      {
+        x: 0,
+        y: 0,
+        width: 2,
+        height: 1,
+        samplesPerPixel: 1,
+        interleave: 'pixel',
+        pixels: new Float32Array([-9999.9, 1.5]),
+      },
+      { scales: [], nodata: -9999.9, nodataMode: 'mask' },
+    );
+    assert.deepEqual([...(raster.mask ?? [])], [0, 1]);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+const Width = 40;
+const Height = 24;
+const SamplesPerPixel = 2;
+
+/** Value of every sample in the test image */
+function sample(x: number, y: number, s: number): number {
+  return y * 1000 + x * 10 + s + 1;
+}
+
+/** Encode a rectangle of the test image as little endian uint16, tiles are always full size */
+function encode(x: number, y: number, width: number, height: number): Uint8Array {
+  const data = new Uint16Array(width * height * SamplesPerPixel);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      for (let s = 0; s < SamplesPerPixel; s++) {
+        const px = x + col;
+        const py = y + row;
+        const value = px < Width && py < Height ? sample(px, py, s) : 0;
+        data[(row * width + col) * SamplesPerPixel + s] = value;
+      }
+    }
+  }
+  return new Uint8Array(data.buffer);
+}
+
+const BaseTags: TestTag[] = [
+  { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: Width },
+  { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: Height },
+  { id: TiffTag.SamplesPerPixel, type: TiffTagValueType.Uint16, value: SamplesPerPixel },
+  { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: [16, 16] },
+  { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+];
+
+async function createTiled(): Promise<CogTiff> {
+  const tags: TestTag[] = [
+    ...BaseTags,
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+  ];
+  const data: (Uint8Array | null)[] = [];
+  for (let y = 0; y < Height; y += 16) {
+    for (let x = 0; x < Width; x += 16) data.push(encode(x, y, 16, 16));
+  }
+  // Make the last tile sparse
+  data[data.length - 1] = null;
+  return CogTiff.create(new SourceMemory(buildTiff([{ tags, data }])));
+}
+
+async function createStriped(): Promise<CogTiff> {
+  const tags: TestTag[] = [...BaseTags, { id: TiffTag.RowsPerStrip, type: TiffTagValueType.Uint16, value: 5 }];
+  const data: Uint8Array[] = [];
+  for (let y = 0; y < Height; y += 5) data.push(encode(0, y, Width, Math.min(5, Height - y)));
+  return CogTiff.create(new SourceMemory(buildTiff([{ tags, data, isStriped: true }])));
+}
+
+/** Expected value of a sample in a window, with the sparse tile and outside the image as `nodata` */
+function expected(x: number, y: number, s: number, nodata: number): number {
+  if (x < 0 || y < 0 || x >= Width || y >= Height) return nodata;
+  return sample(x, y, s);
+}
+
+describe('CogTiffImage.readWindow', () => {
+  it('should stitch tiles together', async () => {
+    const tiff = await createTiled();
+    const [img] = tiff.images;
+    const win = await img.readWindow({ x: 10, y: 5, width: 20, height: 10 });
+    assert.equal(win.samplesPerPixel, 2);
+    assert.equal(win.interleave, 'pixel');
+    assert.ok(win.pixels instanceof Uint16Array);
+    for (let y = 0; y < 10; y++) {
+      for (let x = 0; x < 20; x++) {
+        for (let s = 0; s < 2; s++) {
+          assert.equal(win.pixels[(y * 20 + x) * 2 + s], sample(x + 10, y + 5, s));
+        }
+      }
+    }
+  });
+
+  it('should read band interleaved windows', async () => {
+    const tiff = await createStriped();
+    const [img] = tiff.images;
+    const win = await img.readWindow({ x: 3, y: 3, width: 30, height: 10 }, { interleave: 'band' });
+    assert.equal(win.interleave, 'band');
+    for (let s = 0; s < 2; s++) {
+      for (let y = 0; y < 10; y++) {
+        for (let x = 0; x < 30; x++) assert.equal(win.pixels[s * 300 + y * 30 + x], sample(x + 3, y + 3, s));
+      }
+    }
+  });
+
+  it('should fill empty tiles and the outside of the image with nodata', async () => {
+    for (const tiff of [await createTiled(), await createStriped()]) {
+      const [img] = tiff.images;
+      const win = await img.readWindow({ x: -4, y: 12, width: 48, height: 16 }, { nodata: 7 });
+      for (let y = 0; y < 16; y++) {
+        for (let x = 0; x < 48; x++) {
+          const px = x - 4;
+          const py = y + 12;
+          // The last tile (32,16) is sparse in the tiled image
+          const isSparse = img.isTiled() && px >= 32 && py >= 16;
+          for (let s = 0; s < 2; s++) {
+            const value = isSparse ? 7 : expected(px, py, s, 7);
+            assert.equal(win.pixels[(y * 48 + x) * 2 + s], value, `${px},${py},${s}`);
+          }
+        }
+      }
+    }
+  });
+
+  it('should read the same pixels from tiled and striped images', async () => {
+    const [tiled, striped] = await Promise.all([createTiled(), createStriped()]);
+    const window = { x: 0, y: 0, width: 32, height: 24 };
+    const [a, b] = await Promise.all([tiled.images[0].readWindow(window), striped.images[0].readWindow(window)]);
+    assert.deepEqual(a.pixels, b.pixels);
+  });
+
+  it('should not fetch tiles outside of the window', async () => {
+    const tiff = await createTiled();
+    const [img] = tiff.images;
+    const fetched: string[] = [];
+    const getTilePixels = img.getTilePixels.bind(img);
+    img.getTilePixels = (x, y): ReturnType<typeof getTilePixels> => {
+      fetched.push(`${x},${y}`);
+      return getTilePixels(x, y);
+    };
+    await img.readWindow({ x: 16, y: 0, width: 16, height: 17 });
+    assert.deepEqual(fetched, ['1,0', '1,1']);
+
+    fetched.length = 0;
+    await img.readWindow({ x: 100, y: 100, width: 10, height: 10 });
+    assert.deepEqual(fetched, []);
+  });
+
+  it('should fail on empty windows', async () => {
+    const tiff = await createTiled();
+    await assert.rejects(() => tiff.images[0].readWindow({ x: 0, y: 0, width: 0, height: 10 }), {
+      message: 'Invalid window size width:0 height:10',
+    });
+  });
+});
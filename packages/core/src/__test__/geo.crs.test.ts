@@ -0,0 +1,144 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag, TiffTagGeo } from '../const/tiff.tag.id.js';
+import { ModelTypeKey, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Create a tiff with a overview and the provided geo keys */
+function create(keys: [TiffTagGeo, number, number, number][], doubles: number[] = [], ascii = ''): Promise<CogTiff> {
+  const tags: TestTag[] = [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.GeoKeyDirectory, type: TiffTagValueType.Uint16, value: [1, 1, 0, keys.length, ...keys.flat()] },
+  ];
+  if (doubles.length > 0) tags.push({ id: TiffTag.GeoDoubleParams, type: TiffTagValueType.Float64, value: doubles });
+  if (ascii.length > 0) tags.push({ id: TiffTag.GeoAsciiParams, type: TiffTagValueType.Ascii, value: ascii });
+  const overview = [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 8 },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 8 },
+    { id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 },
+  ];
+  return CogTiff.create(new SourceMemory(buildTiff([{ tags }, { tags: overview }])));
+}
+
+describe('CogTiffImage.crs', () => {
+  it('should read projected crs', async () => {
+    const tiff = await CogTiff.create(new TestFileSource(new URL('../../data/rgba8_tiled.tiff', import.meta.url)));
+    const [img] = tiff.images;
+    const crs = img.crs;
+    assert.equal(crs.modelType, ModelTypeKey.Projected);
+    assert.equal(crs.epsg, img.epsg);
+    assert.equal(crs.projectedEpsg, img.epsg);
+    assert.equal(crs.projJson, null);
+  });
+
+  it('should read geographic crs', async () => {
+    const tiff = await create([
+      [TiffTagGeo.GTModelTypeGeoKey, 0, 1, ModelTypeKey.Geographic],
+      [TiffTagGeo.GeographicTypeGeoKey, 0, 1, 4326],
+      [TiffTagGeo.GeogAngularUnitsGeoKey, 0, 1, 9102],
+    ]);
+    const [img, overview] = tiff.images;
+    assert.equal(img.epsg, 4326);
+    assert.equal(img.crs.geographicEpsg, 4326);
+    assert.equal(img.crs.projectedEpsg, null);
+    assert.equal(img.crs.angularUnit?.name, 'degree');
+    assert.equal(img.crs.projJson, null);
+    // Overviews use the crs of the full resolution image
+    assert.equal(overview.epsg, 4326);
+  });
+
+  it('should read compound crs', async () => {
+    const tiff = await create(
+      [
+        [TiffTagGeo.GTModelTypeGeoKey, 0, 1, ModelTypeKey.Projected],
+        [TiffTagGeo.GTCitationGeoKey, TiffTag.GeoAsciiParams, 20, 0],
+        [TiffTagGeo.ProjectedCSTypeGeoKey, 0, 1, 2193],
+        [TiffTagGeo.ProjLinearUnitsGeoKey, 0, 1, 9001],
+        [TiffTagGeo.VerticalCSTypeGeoKey, 0, 1, 7839],
+        [TiffTagGeo.VerticalCitationGeoKey, TiffTag.GeoAsciiParams, 9, 20],
+      ],
+      [],
+      'NZGD2000 / NZTM2000|NZVD2016|',
+    );
+    const crs = tiff.images[0].crs;
+    assert.equal(crs.epsg, 2193);
+    assert.equal(crs.verticalEpsg, 7839);
+    assert.deepEqual(crs.linearUnit, { epsg: 9001, name: 'metre', size: 1 });
+    assert.deepEqual(crs.citations, { model: 'NZGD2000 / NZTM2000', vertical: 'NZVD2016' });
+  });
+
+  it('should create PROJJSON for user defined crs', async () => {
+    const tiff = await create(
+      [
+        [TiffTagGeo.GTModelTypeGeoKey, 0, 1, ModelTypeKey.Projected],
+        [TiffTagGeo.GTCitationGeoKey, TiffTag.GeoAsciiParams, 7, 0],
+        [TiffTagGeo.GeographicTypeGeoKey, 0, 1, 32767],
+        [TiffTagGeo.GeogAngularUnitsGeoKey, 0, 1, 9102],
+        [TiffTagGeo.GeogSemiMajorAxisGeoKey, TiffTag.GeoDoubleParams, 1, 0],
+        [TiffTagGeo.GeogInvFlatteningGeoKey, TiffTag.GeoDoubleParams, 1, 1],
+        [TiffTagGeo.ProjectedCSTypeGeoKey, 0, 1, 32767],
+        [TiffTagGeo.ProjCoordTransGeoKey, 0, 1, 1],
+        [TiffTagGeo.ProjLinearUnitsGeoKey, 0, 1, 9002],
+        [TiffTagGeo.ProjNatOriginLongGeoKey, TiffTag.GeoDoubleParams, 1, 2],
+        [TiffTagGeo.ProjNatOriginLatGeoKey, TiffTag.GeoDoubleParams, 1, 3],
+        [TiffTagGeo.ProjFalseEastingGeoKey, TiffTag.GeoDoubleParams, 1, 4],
+        [TiffTagGeo.ProjScaleAtNatOriginGeoKey, TiffTag.GeoDoubleParams, 1, 5],
+      ].sort((a, b) => a[0] - b[0]) as [TiffTagGeo, number, number, number][],
+      [6378137, 298.257222101, 173, 0, 1600000, 0.9996],
+      'Custom|',
+    );
+    const crs = tiff.images[0].crs;
+    assert.equal(crs.epsg, null);
+    assert.equal(crs.geographicEpsg, null);
+    assert.deepEqual(crs.linearUnit, { epsg: 9002, name: 'foot', size: 0.3048 });
+
+    const foot = { type: 'LinearUnit', name: 'foot', conversion_factor: 0.3048, id: { authority: 'EPSG', code: 9002 } };
+    assert.deepEqual(crs.projJson, {
+      $schema: 'https://proj.org/schemas/v0.7/projjson.schema.json',
+      type: 'ProjectedCRS',
+      name: 'Custom',
+      base_crs: {
+        type: 'GeographicCRS',
+        name: 'unknown',
+        datum: {
+          type: 'GeodeticReferenceFrame',
+          name: 'unknown',
+          ellipsoid: { name: 'unknown', semi_major_axis: 6378137, inverse_flattening: 298.257222101 },
+        },
+        coordinate_system: {
+          subtype: 'ellipsoidal',
+          axis: [
+            { name: 'Geodetic latitude', abbreviation: 'Lat', direction: 'north', unit: 'degree' },
+            { name: 'Geodetic longitude', abbreviation: 'Lon', direction: 'east', unit: 'degree' },
+          ],
+        },
+      },
+      conversion: {
+        name: 'unknown',
+        method: { name: 'Transverse Mercator', id: { authority: 'EPSG', code: 9807 } },
+        parameters: [
+          { name: 'Latitude of natural origin', value: 0, unit: 'degree', id: { authority: 'EPSG', code: 8801 } },
+          { name: 'Longitude of natural origin', value: 173, unit: 'degree', id: { authority: 'EPSG', code: 8802 } },
+          {
+            name: 'Scale factor at natural origin',
+            value: 0.9996,
+            unit: 'unity',
+            id: { authority: 'EPSG', code: 8805 },
+          },
+          { name: 'False easting', value: 1600000, unit: foot, id: { authority: 'EPSG', code: 8806 } },
+        ],
+      },
+      coordinate_system: {
+        subtype: 'Cartesian',
+        axis: [
+          { name: 'Easting', abbreviation: 'E', direction: 'east', unit: foot },
+          { name: 'Northing', abbreviation: 'N', direction: 'north', unit: foot },
+        ],
+      },
+    });
+  });
+});
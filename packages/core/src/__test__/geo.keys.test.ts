@@ -0,0 +1,78 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag, TiffTagGeo } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { buildTiff } from './tiff.builder.js';
+
+const ToWgs84 = [1, 2, 3, 0.1, 0.2, 0.3, 4.5];
+
+/** GeoKeyDirectory for a user defined CRS using all the value locations */
+const GeoKeys = [
+  [1, 1, 0, 8],
+  [TiffTagGeo.GTModelTypeGeoKey, 0, 1, 1],
+  [TiffTagGeo.GTCitationGeoKey, TiffTag.GeoAsciiParams, 11, 0],
+  [TiffTagGeo.GeographicTypeGeoKey, 0, 1, 32767],
+  [TiffTagGeo.GeogSemiMajorAxisGeoKey, TiffTag.GeoDoubleParams, 1, 0],
+  [TiffTagGeo.GeogInvFlatteningGeoKey, TiffTag.GeoDoubleParams, 1, 1],
+  [TiffTagGeo.GeogTOWGS84GeoKey, TiffTag.GeoDoubleParams, 7, 2],
+  [TiffTagGeo.ProjLinearUnitSizeGeoKey, TiffTag.GeoDoubleParams, 1, 9],
+  // Points outside of the double params
+  [TiffTagGeo.ProjFalseEastingGeoKey, TiffTag.GeoDoubleParams, 1, 100],
+].flat();
+
+describe('GeoKeys', () => {
+  for (const isLittleEndian of [true, false]) {
+    const name = isLittleEndian ? 'LE' : 'BE';
+    it(`should decode geo keys from all locations ${name}`, async () => {
+      const bytes = buildTiff(
+        [
+          {
+            tags: [
+              { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+              { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+              { id: TiffTag.GeoKeyDirectory, type: TiffTagValueType.Uint16, value: GeoKeys },
+              {
+                id: TiffTag.GeoDoubleParams,
+                type: TiffTagValueType.Float64,
+                value: [6378137, 298.257223563, ...ToWgs84, 0.3048],
+              },
+              { id: TiffTag.GeoAsciiParams, type: TiffTagValueType.Ascii, value: 'Custom CRS|' },
+            ],
+          },
+        ],
+        { isLittleEndian },
+      );
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      const [img] = tiff.images;
+
+      assert.equal(img.valueGeo(TiffTagGeo.GTModelTypeGeoKey), 1);
+      assert.equal(img.valueGeo(TiffTagGeo.GTCitationGeoKey), 'Custom CRS');
+      assert.equal(img.valueGeo(TiffTagGeo.GeogSemiMajorAxisGeoKey), 6378137);
+      assert.equal(img.valueGeo(TiffTagGeo.GeogInvFlatteningGeoKey), 298.257223563);
+      assert.deepEqual(img.valueGeo(TiffTagGeo.GeogTOWGS84GeoKey), ToWgs84);
+      assert.equal(img.valueGeo(TiffTagGeo.ProjLinearUnitSizeGeoKey), 0.3048);
+      assert.equal(img.valueGeo(TiffTagGeo.ProjFalseEastingGeoKey), undefined);
+
+      assert.deepEqual(img.geoKeys, {
+        GTModelTypeGeoKey: 1,
+        GTCitationGeoKey: 'Custom CRS',
+        GeographicTypeGeoKey: 32767,
+        GeogSemiMajorAxisGeoKey: 6378137,
+        GeogInvFlatteningGeoKey: 298.257223563,
+        GeogTOWGS84GeoKey: ToWgs84,
+        ProjLinearUnitSizeGeoKey: 0.3048,
+      });
+    });
+  }
+
+  it('should fail to read geo keys before they are loaded', async () => {
+    const bytes = buildTiff([{ tags: [{ id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 }] }]);
+    const tiff = new CogTiff(new SourceMemory(bytes));
+    await tiff.init();
+    const [img] = tiff.images;
+    img.isGeoTagsLoaded = false;
+    assert.throws(() => img.geoKeys, { message: 'loadGeoTiffTags() has not been called' });
+  });
+});
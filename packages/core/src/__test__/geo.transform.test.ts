@@ -0,0 +1,142 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { RasterTypeKey, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { applyGeoTransform, GeoTransform, invertGeoTransform } from '../geo/geo.transform.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+function imageTags(width: number, height: number): TestTag[] {
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: width },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: height },
+  ];
+}
+
+function round(values: number[]): number[] {
+  return values.map((v) => Math.round(v * 1e6) / 1e6);
+}
+
+describe('GeoTransform', () => {
+  it('should invert transforms', () => {
+    const gt: GeoTransform = [1000, 2, 0.5, 2000, 0.25, -3];
+    const inverse = invertGeoTransform(gt);
+    for (const [px, py] of [
+      [0, 0],
+      [10, 20],
+      [-5.5, 3.25],
+    ]) {
+      const [x, y] = applyGeoTransform(gt, px, py);
+      assert.deepEqual(round(applyGeoTransform(inverse, x, y)), [px, py]);
+    }
+    assert.throws(() => invertGeoTransform([0, 1, 1, 0, 1, 1]), { message: /Unable to invert geo transform/ });
+  });
+
+  it('should read rotated model transformations', async () => {
+    // 30 degree rotation with 10m pixels
+    const cos = Math.cos(Math.PI / 6) * 10;
+    const sin = Math.sin(Math.PI / 6) * 10;
+    const transform = [cos, sin, 0, 1000, sin, -cos, 0, 2000, 0, 0, 0, 0, 0, 0, 0, 1];
+    const overviewTags = [
+      ...imageTags(50, 25),
+      { id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 },
+    ];
+    const bytes = buildTiff([
+      {
+        tags: [
+          ...imageTags(100, 50),
+          { id: TiffTag.ModelTransformation, type: TiffTagValueType.Float64, value: transform },
+        ],
+      },
+      { tags: overviewTags },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img, overview] = tiff.images;
+
+    assert.deepEqual(img.geoTransform, [1000, cos, sin, 2000, sin, -cos]);
+    assert.deepEqual(img.toWorld(0, 0), [1000, 2000]);
+    assert.deepEqual(round(img.toWorld(100, 0)), round([1000 + 100 * cos, 2000 + 100 * sin]));
+    assert.deepEqual(round(img.toPixel(...img.toWorld(12.5, 7.25))), [12.5, 7.25]);
+
+    // Footprint includes all four corners
+    const corners = [img.toWorld(0, 0), img.toWorld(100, 0), img.toWorld(0, 50), img.toWorld(100, 50)];
+    const xs = corners.map((c) => c[0]);
+    const ys = corners.map((c) => c[1]);
+    assert.deepEqual(img.bbox, [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]);
+    assert.ok(img.bbox[2] - img.bbox[0] > 100 * cos);
+
+    // Overviews are scaled from the base image
+    assert.deepEqual(round(overview.toWorld(50, 25)), round(img.toWorld(100, 50)));
+    assert.deepEqual(round(overview.bbox), round(img.bbox));
+  });
+
+  it('should use tie points that are not at the origin', async () => {
+    const bytes = buildTiff([
+      {
+        tags: [
+          ...imageTags(10, 10),
+          { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [2, 4, 0] },
+          { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [5, 5, 0, 1010, 1980, 0] },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img] = tiff.images;
+    assert.deepEqual(img.geoTransform, [1000, 2, 0, 2000, 0, -4]);
+    assert.deepEqual(img.toWorld(5, 5), [1010, 1980]);
+    assert.deepEqual(img.toPixel(1000, 2000), [0, 0]);
+    assert.deepEqual(img.bbox, [1000, 1960, 1020, 2000]);
+  });
+
+  describe('PixelIsPoint', () => {
+    function create(rasterType: RasterTypeKey): Promise<CogTiff> {
+      const geoKeys = [1, 1, 0, 1, 1025, 0, 1, rasterType];
+      const bytes = buildTiff([
+        {
+          tags: [
+            ...imageTags(10, 10),
+            { id: TiffTag.ModelPixelScale, type: TiffTagValueType.Float64, value: [2, 2, 0] },
+            { id: TiffTag.ModelTiePoint, type: TiffTagValueType.Float64, value: [0, 0, 0, 1000, 2000, 0] },
+            { id: TiffTag.GeoKeyDirectory, type: TiffTagValueType.Uint16, value: geoKeys },
+          ],
+        },
+        { tags: [...imageTags(5, 5), { id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: 1 }] },
+      ]);
+      return CogTiff.create(new SourceMemory(bytes));
+    }
+
+    it('should shift PixelIsPoint by half a pixel', async () => {
+      const tiff = await create(RasterTypeKey.PixelIsPoint);
+      const [img, overview] = tiff.images;
+      assert.equal(img.rasterType, RasterTypeKey.PixelIsPoint);
+      assert.equal(overview.rasterType, RasterTypeKey.PixelIsPoint);
+
+      assert.deepEqual(img.geoTransform, [999, 2, 0, 2001, 0, -2]);
+      assert.deepEqual(img.origin, [999, 2001, 0]);
+      assert.deepEqual(img.bbox, [999, 1981, 1019, 2001]);
+      // The tie point is the center of the first pixel
+      assert.deepEqual(img.toWorld(0.5, 0.5), [1000, 2000]);
+
+      assert.deepEqual(overview.origin, [999, 2001, 0]);
+      assert.deepEqual(overview.bbox, img.bbox);
+    });
+
+    it('should not shift PixelIsArea', async () => {
+      const tiff = await create(RasterTypeKey.PixelIsArea);
+      const [img] = tiff.images;
+      assert.equal(img.rasterType, RasterTypeKey.PixelIsArea);
+      assert.deepEqual(img.origin, [1000, 2000, 0]);
+      assert.deepEqual(img.bbox, [1000, 1980, 1020, 2000]);
+    });
+
+    it('should keep raw tie points with pointGeoIgnore', async () => {
+      const tiff = await create(RasterTypeKey.PixelIsPoint);
+      tiff.pointGeoIgnore = true;
+      const [img, overview] = tiff.images;
+      assert.deepEqual(img.origin, [1000, 2000, 0]);
+      assert.deepEqual(img.bbox, [1000, 1980, 1020, 2000]);
+      assert.deepEqual(overview.bbox, img.bbox);
+    });
+  });
+});
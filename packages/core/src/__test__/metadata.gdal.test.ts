@@ -0,0 +1,98 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { fetchGdalMetadata, parseGdalMetadata } from '../metadata/metadata.gdal.js';
+import { buildTiff } from './tiff.builder.js';
+
+const GdalMetadataXml = `<GDALMetadata>
+  <Item name="AREA_OR_POINT">Area</Item>
+  <Item name="NAME" domain="TILING_SCHEME">NZTM2000</Item>
+  <Item name="DESCRIPTION" sample="0" role="description">Elevation &amp; Depth</Item>
+  <Item name="SCALE" sample="0" role="scale">0.01</Item>
+  <Item name="OFFSET" sample="0" role="offset">-100</Item>
+  <Item name="UNITTYPE" sample="0" role="unittype">m</Item>
+  <Item name="STATISTICS_MINIMUM" sample="0">-12.5</Item>
+  <Item name="STATISTICS_MAXIMUM" sample="0">1500</Item>
+  <Item name="STATISTICS_MEAN" sample="0">250.25</Item>
+  <Item name="STATISTICS_STDDEV" sample="0">30.5</Item>
+  <Item name="STATISTICS_VALID_PERCENT" sample="0">99.5</Item>
+  <Item name="COLORINTERP" sample="1" role="colorinterp">Alpha</Item>
+  <Item name="SOURCE" sample="1">lidar</Item>
+  <Item name="FOO" sample="1" domain="CUSTOM">bar</Item>
+</GDALMetadata>
+`;
+
+describe('GdalMetadata', () => {
+  it('should parse dataset and band items', () => {
+    const metadata = parseGdalMetadata(GdalMetadataXml);
+    assert.ok(metadata);
+    assert.deepEqual(metadata.items, { AREA_OR_POINT: 'Area' });
+    assert.deepEqual(metadata.domains, { TILING_SCHEME: { NAME: 'NZTM2000' } });
+    assert.equal(metadata.raw.length, 14);
+    assert.deepEqual(metadata.raw[2], {
+      name: 'DESCRIPTION',
+      value: 'Elevation & Depth',
+      sample: 0,
+      role: 'description',
+    });
+
+    assert.equal(metadata.bands.length, 2);
+    assert.deepEqual(metadata.bands[0], {
+      sample: 0,
+      description: 'Elevation & Depth',
+      scale: 0.01,
+      offset: -100,
+      unitType: 'm',
+      statistics: { minimum: -12.5, maximum: 1500, mean: 250.25, stdDev: 30.5, validPercent: 99.5 },
+      items: {},
+      domains: {},
+    });
+    assert.deepEqual(metadata.bands[1], {
+      sample: 1,
+      colorInterpretation: 'Alpha',
+      statistics: {},
+      items: { SOURCE: 'lidar' },
+      domains: { CUSTOM: { FOO: 'bar' } },
+    });
+  });
+
+  it('should skip bands without metadata', () => {
+    const metadata = parseGdalMetadata(
+      '<GDALMetadata><Item name="SCALE" sample="2" role="scale">2</Item></GDALMetadata>',
+    );
+    assert.equal(metadata?.bands.length, 1);
+    assert.equal(metadata?.bands[0].sample, 2);
+    assert.equal(metadata?.bands[0].scale, 2);
+  });
+
+  it('should ignore non gdal metadata', () => {
+    assert.equal(parseGdalMetadata('<xml/>'), null);
+  });
+
+  it('should read gdal metadata from a tiff', async () => {
+    const source = new TestFileSource(new URL('../../data/sparse.tiff', import.meta.url));
+    const tiff = await CogTiff.create(source);
+    const metadata = await fetchGdalMetadata(tiff.images[0]);
+    assert.deepEqual(metadata?.domains, {
+      TILING_SCHEME: { NAME: 'NZTM2000', ZOOM_LEVEL: '13', ALIGNED_LEVELS: '4' },
+    });
+    assert.deepEqual(metadata?.bands, []);
+  });
+
+  it('should return null when there is no gdal metadata', async () => {
+    const bytes = buildTiff([
+      {
+        tags: [
+          { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+          { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    assert.equal(await fetchGdalMetadata(tiff.images[0]), null);
+  });
+});
@@ -0,0 +1,305 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag, TiffTagGps } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { fetchExifMetadata, fetchGpsMetadata, parseExifDate } from '../metadata/metadata.exif.js';
+import { fetchIccProfile, parseIccProfile } from '../metadata/metadata.icc.js';
+import { fetchIptcMetadata, parseIptc } from '../metadata/metadata.iptc.js';
+import { fetchXmpMetadata, parseXmp } from '../metadata/metadata.xmp.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+const Xmp = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about="DJI Meta Data"
+    xmlns:tiff="http://ns.adobe.com/tiff/1.0/"
+    xmlns:drone-dji="http://www.dji.com/drone-dji/1.0/"
+    tiff:Make="DJI"
+    drone-dji:GimbalYawDegree="+12.30"
+    drone-dji:RelativeAltitude='+100.20'>
+   <dc:subject xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <rdf:Bag>
+     <rdf:li>survey</rdf:li>
+     <rdf:li>a &amp; b</rdf:li>
+    </rdf:Bag>
+   </dc:subject>
+   <xmp:CreateDate xmlns:xmp="http://ns.adobe.com/xap/1.0/">2023-05-06T07:08:09</xmp:CreateDate>
+  </rdf:Description>
+  <rdf:Description rdf:about="" xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:ExposureTime="1/250"/>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+function toBytes(str: string): number[] {
+  return [...new TextEncoder().encode(str)];
+}
+
+/** Create a IPTC IIM record */
+function iptcRecord(record: number, dataSet: number, value: string): number[] {
+  const bytes = toBytes(value);
+  return [0x1c, record, dataSet, bytes.length >> 8, bytes.length & 0xff, ...bytes];
+}
+
+const Iptc = [
+  ...iptcRecord(1, 90, '\x1b%G'),
+  ...iptcRecord(2, 0, '\x00\x04'),
+  ...iptcRecord(2, 5, 'Flight 12'),
+  ...iptcRecord(2, 25, 'drone'),
+  ...iptcRecord(2, 25, 'ortho'),
+  ...iptcRecord(2, 116, '© LINZ'),
+  ...iptcRecord(2, 200, 'custom'),
+];
+
+/** Create a minimal ICC v2 profile with a description */
+function iccProfile(description: string): number[] {
+  const descOffset = 132 + 12;
+  const descSize = 12 + description.length + 1;
+  const bytes = new Uint8Array(descOffset + descSize);
+  const view = new DataView(bytes.buffer);
+  const setString = (offset: number, str: string): void => {
+    for (let i = 0; i < str.length; i++) bytes[offset + i] = str.charCodeAt(i);
+  };
+  view.setUint32(0, bytes.byteLength);
+  setString(4, 'lcms');
+  bytes[8] = 2;
+  bytes[9] = 0x10;
+  setString(12, 'mntr');
+  setString(16, 'RGB ');
+  setString(20, 'XYZ ');
+  view.setUint16(24, 2021);
+  view.setUint16(26, 3);
+  view.setUint16(28, 4);
+  view.setUint16(30, 5);
+  view.setUint16(32, 6);
+  view.setUint16(34, 7);
+  setString(36, 'acsp');
+  view.setUint32(128, 1);
+  setString(132, 'desc');
+  view.setUint32(136, descOffset);
+  view.setUint32(140, descSize);
+  setString(descOffset, 'desc');
+  view.setUint32(descOffset + 8, description.length + 1);
+  setString(descOffset + 12, description);
+  return [...bytes];
+}
+
+/** Wrap a resource in a Photoshop image resource block */
+function photoshopResource(id: number, data: number[]): number[] {
+  const size = data.length;
+  const padding = size % 2 === 1 ? [0] : [];
+  // '8BIM', resource id, empty pascal string (padded), size, data
+  return [0x38, 0x42, 0x49, 0x4d, id >> 8, id & 0xff, 0, 0, 0, 0, size >> 8, size & 0xff, ...data, ...padding];
+}
+
+const BaseTags: TestTag[] = [
+  { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+  { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+];
+
+describe('Metadata', () => {
+  it('should parse exif dates', () => {
+    assert.equal(parseExifDate('2023:01:02 03:04:05')?.toISOString(), '2023-01-02T03:04:05.000Z');
+    assert.equal(parseExifDate('2023:01:02 03:04:05', '+12:00')?.toISOString(), '2023-01-01T15:04:05.000Z');
+    assert.equal(parseExifDate('    :  :     :  :  '), null);
+  });
+
+  it('should read exif and gps metadata', async () => {
+    const bytes = buildTiff([
+      {
+        tags: [
+          ...BaseTags,
+          { id: TiffTag.Make, type: TiffTagValueType.Ascii, value: 'DJI' },
+          { id: TiffTag.Model, type: TiffTagValueType.Ascii, value: 'FC6310' },
+        ],
+        exif: [
+          { id: TiffTag.DateTimeOriginal, type: TiffTagValueType.Ascii, value: '2023:01:02 03:04:05' },
+          { id: TiffTag.OffsetTimeOriginal, type: TiffTagValueType.Ascii, value: '+13:00' },
+          { id: TiffTag.ExposureTime, type: TiffTagValueType.Rational, value: [1, 250] },
+          { id: TiffTag.FNumber, type: TiffTagValueType.Rational, value: [28, 10] },
+          { id: TiffTag.ISOSpeedRatings, type: TiffTagValueType.Uint16, value: 100 },
+          { id: TiffTag.MakerNote, type: TiffTagValueType.Undefined, value: [1, 2, 3, 4, 5, 6] },
+        ],
+        gps: [
+          { id: TiffTagGps.GPSLatitudeRef, type: TiffTagValueType.Ascii, value: 'S' },
+          { id: TiffTagGps.GPSLatitude, type: TiffTagValueType.Rational, value: [41, 1, 17, 1, 2400, 100] },
+          { id: TiffTagGps.GPSLongitudeRef, type: TiffTagValueType.Ascii, value: 'E' },
+          { id: TiffTagGps.GPSLongitude, type: TiffTagValueType.Rational, value: [174, 1, 46, 1, 3000, 100] },
+          { id: TiffTagGps.GPSAltitudeRef, type: TiffTagValueType.Uint8, value: 1 },
+          { id: TiffTagGps.GPSAltitude, type: TiffTagValueType.Rational, value: [1525, 10] },
+          { id: TiffTagGps.GPSTimeStamp, type: TiffTagValueType.Rational, value: [14, 1, 4, 1, 5, 1] },
+          { id: TiffTagGps.GPSDateStamp, type: TiffTagValueType.Ascii, value: '2023:01:01' },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img] = tiff.images;
+
+    const exif = await fetchExifMetadata(img);
+    assert.equal(exif?.make, 'DJI');
+    assert.equal(exif?.model, 'FC6310');
+    assert.equal(exif?.dateTimeOriginal?.toISOString(), '2023-01-01T14:04:05.000Z');
+    assert.equal(exif?.exposureTime, 1 / 250);
+    assert.equal(exif?.fNumber, 2.8);
+    assert.equal(exif?.isoSpeed, 100);
+    assert.deepEqual(exif?.makerNote, new Uint8Array([1, 2, 3, 4, 5, 6]));
+
+    const gps = await fetchGpsMetadata(img);
+    assert.equal(gps?.latitude?.toFixed(6), (-(41 + 17 / 60 + 24 / 3600)).toFixed(6));
+    assert.equal(gps?.longitude?.toFixed(6), (174 + 46 / 60 + 30 / 3600).toFixed(6));
+    assert.equal(gps?.altitude, -152.5);
+    assert.equal(gps?.timestamp?.toISOString(), '2023-01-01T14:04:05.000Z');
+  });
+
+  it('should ignore exif tags with the wrong type', async () => {
+    const bytes = buildTiff([
+      {
+        tags: [
+          ...BaseTags,
+          { id: TiffTag.Make, type: TiffTagValueType.Uint8, value: [68, 74, 73] },
+          { id: TiffTag.Model, type: TiffTagValueType.Ascii, value: 'FC6310' },
+          { id: TiffTag.Software, type: TiffTagValueType.Undefined, value: [1, 2, 3, 4, 5] },
+        ],
+        exif: [
+          { id: TiffTag.DateTimeOriginal, type: TiffTagValueType.Undefined, value: [50, 48, 50, 51, 58] },
+          { id: TiffTag.DateTimeDigitized, type: TiffTagValueType.Ascii, value: '2023:01:02 03:04:05' },
+          { id: TiffTag.OffsetTimeOriginal, type: TiffTagValueType.Uint16, value: 13 },
+          { id: TiffTag.ImageUniqueID, type: TiffTagValueType.Uint32, value: [1, 2, 3] },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const exif = await fetchExifMetadata(tiff.images[0]);
+    assert.equal(exif?.make, undefined);
+    assert.equal(exif?.model, 'FC6310');
+    assert.equal(exif?.software, undefined);
+    assert.equal(exif?.dateTimeOriginal, undefined);
+    assert.equal(exif?.dateTimeDigitized?.toISOString(), '2023-01-02T03:04:05.000Z');
+    assert.equal(exif?.imageUniqueId, undefined);
+  });
+
+  it('should ignore gps tags with the wrong type', async () => {
+    const bytes = buildTiff([
+      {
+        tags: BaseTags,
+        gps: [
+          { id: TiffTagGps.GPSLatitudeRef, type: TiffTagValueType.Uint16, value: 83 },
+          { id: TiffTagGps.GPSLatitude, type: TiffTagValueType.Ascii, value: '41 17 24' },
+          { id: TiffTagGps.GPSLongitudeRef, type: TiffTagValueType.Ascii, value: 'W' },
+          { id: TiffTagGps.GPSLongitude, type: TiffTagValueType.Rational, value: [174, 1, 46, 1, 3000, 100] },
+          { id: TiffTagGps.GPSTimeStamp, type: TiffTagValueType.Ascii, value: '14:04:05' },
+          { id: TiffTagGps.GPSDateStamp, type: TiffTagValueType.Uint32, value: 20230101 },
+          { id: TiffTagGps.GPSMapDatum, type: TiffTagValueType.Uint8, value: [1, 2] },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const gps = await fetchGpsMetadata(tiff.images[0]);
+    assert.equal(gps?.latitude, undefined);
+    assert.equal(gps?.longitude?.toFixed(6), (-(174 + 46 / 60 + 30 / 3600)).toFixed(6));
+    assert.equal(gps?.timestamp, undefined);
+    assert.equal(gps?.mapDatum, undefined);
+  });
+
+  it('should return null when there is no metadata', async () => {
+    const tiff = await CogTiff.create(new SourceMemory(buildTiff([{ tags: BaseTags }])));
+    const [img] = tiff.images;
+    assert.equal(await fetchExifMetadata(img), null);
+    assert.equal(await fetchGpsMetadata(img), null);
+    assert.equal(await fetchXmpMetadata(img), null);
+    assert.equal(await fetchIptcMetadata(img), null);
+    assert.equal(await fetchIccProfile(img), null);
+  });
+
+  it('should parse xmp', () => {
+    assert.deepEqual(parseXmp(Xmp), {
+      'tiff:Make': 'DJI',
+      'drone-dji:GimbalYawDegree': '+12.30',
+      'drone-dji:RelativeAltitude': '+100.20',
+      'dc:subject': ['survey', 'a & b'],
+      'xmp:CreateDate': '2023-05-06T07:08:09',
+      'exif:ExposureTime': '1/250',
+    });
+  });
+
+  it('should parse iptc', () => {
+    assert.deepEqual(parseIptc(new Uint8Array(Iptc)), {
+      objectName: 'Flight 12',
+      keywords: ['drone', 'ortho'],
+      copyright: '© LINZ',
+      '2:200': 'custom',
+    });
+  });
+
+  it('should parse icc profiles', () => {
+    const icc = parseIccProfile(new Uint8Array(iccProfile('sRGB IEC61966-2.1')));
+    assert.equal(icc.cmm, 'lcms');
+    assert.equal(icc.version, '2.1.0');
+    assert.equal(icc.deviceClass, 'mntr');
+    assert.equal(icc.colorSpace, 'RGB');
+    assert.equal(icc.connectionSpace, 'XYZ');
+    assert.equal(icc.created?.toISOString(), '2021-03-04T05:06:07.000Z');
+    assert.equal(icc.description, 'sRGB IEC61966-2.1');
+
+    assert.throws(() => parseIccProfile(new Uint8Array(200)), {
+      message: 'Invalid ICC profile, missing "acsp" signature',
+    });
+  });
+
+  it('should read xmp, iptc and icc from tags', async () => {
+    const bytes = buildTiff([
+      {
+        tags: [
+          ...BaseTags,
+          { id: TiffTag.XMP, type: TiffTagValueType.Uint8, value: toBytes(Xmp) },
+          { id: TiffTag.IPTC, type: TiffTagValueType.Undefined, value: Iptc },
+          { id: TiffTag.ICCProfile, type: TiffTagValueType.Undefined, value: iccProfile('Display P3') },
+        ],
+      },
+    ]);
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img] = tiff.images;
+
+    const xmp = await fetchXmpMetadata(img);
+    assert.equal(xmp?.['drone-dji:GimbalYawDegree'], '+12.30');
+    const iptc = await fetchIptcMetadata(img);
+    assert.deepEqual(iptc?.['keywords'], ['drone', 'ortho']);
+    const icc = await fetchIccProfile(img);
+    assert.equal(icc?.description, 'Display P3');
+  });
+
+  it('should read iptc and icc from photoshop resources', async () => {
+    const photoshop = [...photoshopResource(0x0404, Iptc), ...photoshopResource(0x040f, iccProfile('Adobe RGB'))];
+    const bytes = buildTiff(
+      [{ tags: [...BaseTags, { id: TiffTag.Photoshop, type: TiffTagValueType.Uint8, value: photoshop }] }],
+      { isLittleEndian: false },
+    );
+    const tiff = await CogTiff.create(new SourceMemory(bytes));
+    const [img] = tiff.images;
+
+    const iptc = await fetchIptcMetadata(img);
+    assert.equal(iptc?.['objectName'], 'Flight 12');
+    const icc = await fetchIccProfile(img);
+    assert.equal(icc?.description, 'Adobe RGB');
+  });
+
+  it('should read iptc stored as uint32', async () => {
+    const padded = [...Iptc, ...new Array((4 - (Iptc.length % 4)) % 4).fill(0)];
+    for (const isLittleEndian of [true, false]) {
+      const view = new DataView(new Uint8Array(padded).buffer);
+      const values: number[] = [];
+      for (let i = 0; i < padded.length; i += 4) values.push(view.getUint32(i, isLittleEndian));
+
+      const bytes = buildTiff(
+        [{ tags: [...BaseTags, { id: TiffTag.IPTC, type: TiffTagValueType.Uint32, value: values }] }],
+        {
+          isLittleEndian,
+        },
+      );
+      const tiff = await CogTiff.create(new SourceMemory(bytes));
+      const iptc = await fetchIptcMetadata(tiff.images[0]);
+      assert.equal(iptc?.['copyright'], '© LINZ');
+    }
+  });
+});
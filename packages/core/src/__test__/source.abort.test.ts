@@ -0,0 +1,211 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { SubFileType, TiffTagValueType } from '../const/tiff.tag.value.js';
+import { GhostOption } from '../read/tiff.gdal.js';
+import { TagOffset } from '../read/tiff.tag.js';
+import { SourceFetchOptions } from '../source.js';
+import { SourceCache } from '../source.cache.js';
+import { isAbortError, TiffAbortError } from '../util/util.abort.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+/** Memory source that records every request and can pause requests until they are released */
+class SourceRecorder extends SourceMemory {
+  requests: { offset: number; length?: number; signal?: AbortSignal }[] = [];
+  /** Pause every request until {@link release} is called */
+  isPaused = false;
+  private paused: (() => void)[] = [];
+
+  override async fetch(offset: number, length?: number, options?: SourceFetchOptions): Promise<ArrayBuffer> {
+    this.requests.push({ offset, length, signal: options?.signal });
+    if (this.isPaused) await new Promise<void>((resolve) => this.paused.push(resolve));
+    return super.fetch(offset, length);
+  }
+
+  release(): void {
+    this.isPaused = false;
+    for (const resolve of this.paused.splice(0)) resolve();
+  }
+}
+
+/** Create the tags of a image with 16x16 tiles */
+function createTags(width: number, height: number): TestTag[] {
+  return [
+    { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: width },
+    { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: height },
+    { id: TiffTag.TileWidth, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.TileHeight, type: TiffTagValueType.Uint16, value: 16 },
+    { id: TiffTag.BitsPerSample, type: TiffTagValueType.Uint16, value: 8 },
+    { id: TiffTag.Compression, type: TiffTagValueType.Uint16, value: 1 },
+  ];
+}
+
+/** Create a 32x16 image with two 16x16 tiles */
+function createSource(): SourceRecorder {
+  const data = [new Uint8Array(256).fill(1), new Uint8Array(256).fill(2)];
+  return new SourceRecorder(buildTiff([{ tags: createTags(32, 16), data }]));
+}
+
+/** Create a 16x16 image with a mask interleaved with the imagery and a EXIF directory */
+function createMaskedSource(): SourceRecorder {
+  const mask = createTags(16, 16);
+  mask.push({ id: TiffTag.NewSubFileType, type: TiffTagValueType.Uint32, value: SubFileType.Mask });
+  const images = [
+    {
+      tags: createTags(16, 16),
+      data: [new Uint8Array(256).fill(1)],
+      exif: [{ id: TiffTag.ExposureTime, type: TiffTagValueType.Uint32, value: 1 }],
+    },
+    { tags: mask, data: [new Uint8Array(256).fill(255)] },
+  ];
+  return new SourceRecorder(buildTiff(images, { ghost: [[GhostOption.MaskInterleavedWithImagery, 'YES']] }));
+}
+
+describe('AbortSignal', () => {
+  it('should not read anything once aborted', async () => {
+    const source = createSource();
+    const controller = new AbortController();
+    controller.abort(new Error('Panned away'));
+
+    await assert.rejects(
+      () => CogTiff.create(source, { signal: controller.signal }),
+      (err) => {
+        assert.ok(isAbortError(err));
+        assert.ok(err instanceof TiffAbortError);
+        assert.equal(err.name, 'AbortError');
+        assert.equal(err.message, 'Read aborted: Panned away');
+        assert.equal((err.reason as Error).message, 'Panned away');
+        return true;
+      },
+    );
+    assert.equal(source.requests.length, 0);
+  });
+
+  it('should retry init after it was aborted', async () => {
+    const source = createSource();
+    source.isPaused = true;
+    const controller = new AbortController();
+    const tiff = new CogTiff(source);
+
+    const init = tiff.init({ signal: controller.signal });
+    controller.abort();
+    await assert.rejects(init, { name: 'AbortError' });
+
+    source.release();
+    await tiff.init();
+    assert.equal(tiff.images.length, 1);
+    assert.equal(tiff.isInitialized, true);
+  });
+
+  it('should pass the signal to the source', async () => {
+    const source = createSource();
+    const tiff = await CogTiff.create(source);
+    const img = tiff.images[0];
+    source.requests = [];
+
+    const controller = new AbortController();
+    const tile = await img.getTile(1, 0, { signal: controller.signal });
+    assert.equal(new Uint8Array(tile?.bytes ?? new ArrayBuffer(0))[0], 2);
+    assert.ok(source.requests.length > 0);
+    assert.ok(source.requests.every((r) => r.signal === controller.signal));
+
+    // Existing reads without a signal do not get any options
+    source.requests = [];
+    await img.getTile(0, 0);
+    assert.ok(source.requests.every((r) => r.signal == null));
+  });
+
+  it('should reject reads from sources that ignore the signal', async () => {
+    const source = createSource();
+    const tiff = await CogTiff.create(source);
+    source.isPaused = true;
+
+    const controller = new AbortController();
+    const tile = tiff.images[0].getTile(0, 0, { signal: controller.signal });
+    // Wait for the offset lookups to start
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    assert.ok(source.requests.length > 0);
+    controller.abort();
+    await assert.rejects(tile, { name: 'AbortError' });
+    source.release();
+  });
+
+  it('should stop pending offset lookups', async () => {
+    const source = createSource();
+    const tiff = await CogTiff.create(source);
+    const img = tiff.images[0];
+    const byteCounts = img.tags.get(TiffTag.TileByteCounts) as TagOffset;
+    assert.equal(byteCounts.isLoaded, false);
+    source.requests = [];
+
+    const controller = new AbortController();
+    controller.abort();
+    await assert.rejects(() => img.getTile(0, 0, { signal: controller.signal }), { name: 'AbortError' });
+    await assert.rejects(() => img.preloadTileOffsets({ x: 0, y: 0, width: 2, height: 1 }, controller), {
+      name: 'AbortError',
+    });
+    await assert.rejects(() => img.readWindow({ x: 0, y: 0, width: 32, height: 16 }, controller), {
+      name: 'AbortError',
+    });
+    assert.equal(source.requests.length, 0);
+    assert.deepEqual(byteCounts.value, []);
+  });
+
+  it('should abort cached reads without cancelling shared chunks', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 64 });
+    source.isPaused = true;
+
+    const controller = new AbortController();
+    const aborted = cache.fetch(0, 10, { signal: controller.signal });
+    const shared = cache.fetch(0, 10);
+    controller.abort();
+    await assert.rejects(aborted, { name: 'AbortError' });
+
+    source.release();
+    assert.equal((await shared).byteLength, 10);
+    assert.equal(source.requests.length, 1);
+    assert.equal(source.requests[0].signal, undefined);
+  });
+
+  it('should pass the signal through masked tile reads', async () => {
+    const source = createMaskedSource();
+    const tiff = await CogTiff.create(source);
+    const img = tiff.images[0];
+    assert.equal(tiff.options?.isMaskInterleaved, true);
+    source.requests = [];
+
+    const controller = new AbortController();
+    const tile = await img.getTileWithMask(0, 0, { signal: controller.signal });
+    assert.equal(new Uint8Array(tile.mask?.bytes ?? new ArrayBuffer(0))[0], 255);
+    assert.ok(source.requests.length > 0);
+    assert.ok(source.requests.every((r) => r.signal === controller.signal));
+    assert.ok(await img.hasTile(0, 0, { signal: controller.signal }));
+
+    source.requests = [];
+    controller.abort();
+    await assert.rejects(() => img.getTileWithMask(0, 0, { signal: controller.signal }), { name: 'AbortError' });
+    assert.equal(source.requests.length, 0);
+  });
+
+  it('should retry sub IFD reads after they were aborted', async () => {
+    const source = createMaskedSource();
+    const tiff = await CogTiff.create(source);
+    source.isPaused = true;
+    source.requests = [];
+
+    const controller = new AbortController();
+    const exif = tiff.images[0].fetchExif({ signal: controller.signal });
+    // Wait for the IFD read to start
+    await new Promise((resolve) => setTimeout(resolve, 1));
+    assert.equal(source.requests[0].signal, controller.signal);
+    controller.abort();
+    await assert.rejects(exif, { name: 'AbortError' });
+
+    source.release();
+    const retry = await tiff.images[0].fetchExif();
+    assert.equal(retry?.value(TiffTag.ExposureTime), 1);
+  });
+});
@@ -0,0 +1,160 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { TestFileSource } from '../__benchmark__/source.file.js';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { SourceCache } from '../source.cache.js';
+
+/** Memory source that records every request */
+class SourceCounter extends SourceMemory {
+  metadata?: { size?: number };
+  requests: { offset: number; length?: number }[] = [];
+
+  override fetch(offset: number, length?: number): Promise<ArrayBuffer> {
+    this.requests.push({ offset, length });
+    return super.fetch(offset, length);
+  }
+}
+
+/** Create a 100 byte source where every byte is its offset */
+function createSource(): SourceCounter {
+  return new SourceCounter(new Uint8Array(100).map((_, i) => i));
+}
+
+describe('SourceCache', () => {
+  it('should align reads to chunks', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16 });
+
+    const bytes = await cache.fetch(10, 20);
+    assert.deepEqual(
+      [...new Uint8Array(bytes)],
+      Array.from({ length: 20 }, (_, i) => i + 10),
+    );
+    assert.deepEqual(source.requests, [{ offset: 0, length: 32 }]);
+
+    // Both chunks are cached
+    assert.deepEqual([...new Uint8Array(await cache.fetch(5, 5))], [5, 6, 7, 8, 9]);
+    assert.deepEqual(
+      [...new Uint8Array(await cache.fetch(20, 12))],
+      Array.from({ length: 12 }, (_, i) => i + 20),
+    );
+    assert.equal(source.requests.length, 1);
+    assert.deepEqual(cache.stats, { hits: 2, misses: 2, deduplicated: 0, requests: 1, evictions: 0 });
+  });
+
+  it('should only fetch missing chunks', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16 });
+    await cache.fetch(16, 16);
+    await cache.fetch(64, 16);
+
+    const bytes = await cache.fetch(0, 96);
+    assert.deepEqual(
+      [...new Uint8Array(bytes)],
+      Array.from({ length: 96 }, (_, i) => i),
+    );
+    assert.deepEqual(source.requests.slice(2), [
+      { offset: 0, length: 16 },
+      { offset: 32, length: 32 },
+      { offset: 80, length: 16 },
+    ]);
+  });
+
+  it('should merge identical in flight requests', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16 });
+    const [a, b] = await Promise.all([cache.fetch(0, 10), cache.fetch(0, 10)]);
+    assert.deepEqual(new Uint8Array(a), new Uint8Array(b));
+    assert.equal(source.requests.length, 1);
+    assert.equal(cache.stats.deduplicated, 1);
+  });
+
+  it('should evict the least recently used chunk', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16, maxChunks: 2 });
+    await cache.fetch(0, 1);
+    await cache.fetch(16, 1);
+    await cache.fetch(0, 1);
+    await cache.fetch(32, 1);
+    assert.equal(cache.size, 2);
+    assert.equal(cache.stats.evictions, 1);
+
+    // Chunk 0 was used more recently than chunk 1
+    await cache.fetch(0, 1);
+    assert.equal(source.requests.length, 3);
+    await cache.fetch(16, 1);
+    assert.equal(source.requests.length, 4);
+  });
+
+  it('should stop at the end of the source', async () => {
+    const cache = new SourceCache(createSource(), { chunkSize: 16 });
+    assert.deepEqual([...new Uint8Array(await cache.fetch(90, 20))], [90, 91, 92, 93, 94, 95, 96, 97, 98, 99]);
+    assert.equal((await cache.fetch(120, 10)).byteLength, 0);
+    assert.equal((await cache.fetch(0, 0)).byteLength, 0);
+  });
+
+  it('should pass reads from the end of the source through', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16 });
+    assert.deepEqual([...new Uint8Array(await cache.fetch(-2))], [98, 99]);
+    assert.deepEqual(source.requests, [{ offset: -2, length: undefined }]);
+
+    source.metadata = { size: 100 };
+    assert.deepEqual([...new Uint8Array(await cache.fetch(-2))], [98, 99]);
+    assert.deepEqual(source.requests[1], { offset: 96, length: 16 });
+  });
+
+  it('should not cache failed requests', async () => {
+    const source = createSource();
+    let failures = 1;
+    const fetch = source.fetch.bind(source);
+    source.fetch = (offset, length): Promise<ArrayBuffer> => {
+      if (failures-- > 0) return Promise.reject(new Error('Network error'));
+      return fetch(offset, length);
+    };
+    const cache = new SourceCache(source, { chunkSize: 16 });
+    await assert.rejects(() => cache.fetch(0, 10), { message: 'Network error' });
+    assert.equal(cache.size, 0);
+    assert.deepEqual([...new Uint8Array(await cache.fetch(0, 2))], [0, 1]);
+  });
+
+  it('should not store chunks that were in flight when cleared', async () => {
+    const source = createSource();
+    const cache = new SourceCache(source, { chunkSize: 16 });
+    const pending = cache.fetch(0, 10);
+    cache.clear();
+    assert.deepEqual([...new Uint8Array(await pending)], [0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    assert.equal(cache.size, 0);
+
+    // Reads after a clear do not wait on chunks from before it
+    const before = cache.fetch(0, 10);
+    cache.clear();
+    const after = cache.fetch(0, 10);
+    assert.equal(cache.stats.deduplicated, 0);
+    assert.equal(source.requests.length, 3);
+    assert.deepEqual(new Uint8Array(await before), new Uint8Array(await after));
+    assert.equal(cache.size, 1);
+  });
+
+  it('should validate options', () => {
+    assert.throws(() => new SourceCache(createSource(), { chunkSize: 0 }), { message: 'Invalid chunk size: 0' });
+    assert.throws(() => new SourceCache(createSource(), { maxChunks: 1.5 }), { message: 'Invalid max chunks: 1.5' });
+  });
+
+  it('should read tiffs', async () => {
+    const url = new URL('../../data/big_cog.tiff', import.meta.url);
+    const tiff = await CogTiff.create(new TestFileSource(url));
+    const cache = new SourceCache(new TestFileSource(url), { chunkSize: 4096 });
+    const cached = await CogTiff.create(cache);
+
+    assert.equal(cached.images.length, tiff.images.length);
+    const tile = await tiff.images[0].getTile(0, 0);
+    assert.deepEqual(await cached.images[0].getTile(0, 0), tile);
+    // The tile is now cached
+    const requests = cache.stats.requests;
+    assert.deepEqual(await cached.images[0].getTile(0, 0), tile);
+    assert.equal(cache.stats.requests, requests);
+    assert.ok(cache.stats.hits > 0);
+  });
+});
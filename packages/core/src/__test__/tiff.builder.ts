@@ -0,0 +1,242 @@
+import { TiffEndian } from '../const/tiff.endian.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { TiffVersion } from '../const/tiff.version.js';
+import { getTiffTagSize } from '../read/tiff.value.reader.js';
+
+/** Tag to write into a test tiff */
+export interface TestTag {
+  id: number;
+  type: TiffTagValueType;
+  /** Rationals are written as a flat list of `[numerator, denominator, ...]` */
+  value: number | number[] | string | bigint | bigint[];
+}
+
+export interface TestImage {
+  tags: TestTag[];
+  /**
+   * Tile or strip data for the image, `null` for sparse tiles
+   *
+   * TileOffsets/TileByteCounts (or StripOffsets/StripByteCounts) are generated from the data
+   */
+  data?: (Uint8Array | null)[];
+  /** Write the data as strips rather than tiles */
+  isStriped?: boolean;
+  /** Images to write as SubIFDs of this image */
+  subImages?: TestImage[];
+  /** Tags to write into a EXIF directory */
+  exif?: TestTag[];
+  /** Tags to write into a GPS directory */
+  gps?: TestTag[];
+}
+
+export interface TestTiffOptions {
+  isLittleEndian?: boolean;
+  isBigTiff?: boolean;
+  /** GDAL ghost options to write between the header and the first IFD */
+  ghost?: [string, string][];
+  /** Write a GDAL `SIZE_AS_UINT4` block leader before each tile */
+  leader?: boolean;
+  /** Write a GDAL `LAST_4_BYTES_REPEATED` block trailer after each tile */
+  trailer?: boolean;
+}
+
+/** Encode the value of a tag into bytes */
+function encodeTag(tag: TestTag, isLittleEndian: boolean): Uint8Array {
+  if (tag.type === TiffTagValueType.Ascii) {
+    const str = String(tag.value) + '\x00';
+    return Uint8Array.from(str, (c) => c.charCodeAt(0));
+  }
+  const values = (Array.isArray(tag.value) ? tag.value : [tag.value]) as (number | bigint)[];
+  const size = getTiffTagSize(tag.type);
+  // Rationals are two 32bit numbers per value
+  const valueSize = tag.type === TiffTagValueType.Rational || tag.type === TiffTagValueType.SignedRational ? 4 : size;
+  const bytes = new Uint8Array(values.length * valueSize);
+  const view = new DataView(bytes.buffer);
+  for (let i = 0; i < values.length; i++) {
+    const offset = i * valueSize;
+    const value = values[i];
+    switch (tag.type) {
+      case TiffTagValueType.Uint8:
+      case TiffTagValueType.Undefined:
+        view.setUint8(offset, Number(value));
+        break;
+      case TiffTagValueType.Int8:
+        view.setInt8(offset, Number(value));
+        break;
+      case TiffTagValueType.Uint16:
+        view.setUint16(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Int16:
+        view.setInt16(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Uint32:
+      case TiffTagValueType.Ifd:
+      case TiffTagValueType.Rational:
+        view.setUint32(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Int32:
+      case TiffTagValueType.SignedRational:
+        view.setInt32(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Float32:
+        view.setFloat32(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Float64:
+        view.setFloat64(offset, Number(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Uint64:
+      case TiffTagValueType.Ifd8:
+        view.setBigUint64(offset, BigInt(value), isLittleEndian);
+        break;
+      case TiffTagValueType.Int64:
+        view.setBigInt64(offset, BigInt(value), isLittleEndian);
+        break;
+      default:
+        throw new Error('Unable to encode tag type: ' + tag.type);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Build a small tiff in memory for testing
+ *
+ * The file is laid out as header, ghost options, IFDs (with their values) then the image data,
+ * SubIFDs, EXIF and GPS directories are stored directly after the IFD that references them
+ */
+export function buildTiff(images: TestImage[], opts: TestTiffOptions = {}): ArrayBuffer {
+  const isLittleEndian = opts.isLittleEndian ?? true;
+  const isBigTiff = opts.isBigTiff ?? false;
+  const pointerSize = isBigTiff ? 8 : 4;
+  const countSize = isBigTiff ? 8 : 2;
+  const entrySize = isBigTiff ? 20 : 12;
+  const offsetType = isBigTiff ? TiffTagValueType.Uint64 : TiffTagValueType.Uint32;
+  const leaderSize = opts.leader ? 4 : 0;
+  const trailerSize = opts.trailer ? 4 : 0;
+
+  const ghost = opts.ghost ? opts.ghost.map(([k, v]) => `${k}=${v}\n`).join('') : '';
+  const headerSize = (isBigTiff ? 16 : 8) + ghost.length;
+
+  /** Flatten all the images and their sub directories into a list of IFDs */
+  const nodes: { image: TestImage; next: number | null; children: { id: TiffTag; nodes: number[] }[] }[] = [];
+  function addNode(image: TestImage): number {
+    const index = nodes.length;
+    const node = { image, next: null as number | null, children: [] as { id: TiffTag; nodes: number[] }[] };
+    nodes.push(node);
+    if (image.subImages) node.children.push({ id: TiffTag.SubIFDs, nodes: image.subImages.map(addNode) });
+    if (image.exif) node.children.push({ id: TiffTag.ExifIFD, nodes: [addNode({ tags: image.exif })] });
+    if (image.gps) node.children.push({ id: TiffTag.GpsIFD, nodes: [addNode({ tags: image.gps })] });
+    return index;
+  }
+  const rootNodes = images.map(addNode);
+  for (let i = 0; i < rootNodes.length - 1; i++) nodes[rootNodes[i]].next = rootNodes[i + 1];
+
+  /** Layout the IFDs, this is done twice first with placeholder offsets and again with the real offsets */
+  function layout(ifdOffsets: number[], dataOffsets: number[][]): Uint8Array[] {
+    return nodes.map((node, i) => {
+      const img = node.image;
+      const offset = ifdOffsets[i];
+      const tags = [...img.tags];
+      if (img.data) {
+        const offsetTag = img.isStriped ? TiffTag.StripOffsets : TiffTag.TileOffsets;
+        const countTag = img.isStriped ? TiffTag.StripByteCounts : TiffTag.TileByteCounts;
+        tags.push({ id: offsetTag, type: offsetType, value: dataOffsets[i] });
+        tags.push({ id: countTag, type: offsetType, value: img.data.map((d) => d?.byteLength ?? 0) });
+      }
+      for (const child of node.children) {
+        const type = isBigTiff ? TiffTagValueType.Ifd8 : TiffTagValueType.Ifd;
+        tags.push({ id: child.id, type, value: child.nodes.map((n) => ifdOffsets[n]) });
+      }
+      tags.sort((a, b) => a.id - b.id);
+
+      const ifdSize = countSize + tags.length * entrySize + pointerSize;
+      const encoded = tags.map((t) => encodeTag(t, isLittleEndian));
+      const valueSize = encoded.reduce((acc, e) => (e.byteLength > pointerSize ? acc + e.byteLength : acc), 0);
+      const ifd = new Uint8Array(ifdSize + valueSize);
+      const view = new DataView(ifd.buffer);
+
+      if (isBigTiff) view.setBigUint64(0, BigInt(tags.length), isLittleEndian);
+      else view.setUint16(0, tags.length, isLittleEndian);
+
+      let valueOffset = ifdSize;
+      for (let t = 0; t < tags.length; t++) {
+        const entry = countSize + t * entrySize;
+        const tag = tags[t];
+        const bytes = encoded[t];
+        const typeSize = getTiffTagSize(tag.type);
+        view.setUint16(entry, tag.id, isLittleEndian);
+        view.setUint16(entry + 2, tag.type, isLittleEndian);
+        const count = bytes.byteLength / typeSize;
+        if (isBigTiff) view.setBigUint64(entry + 4, BigInt(count), isLittleEndian);
+        else view.setUint32(entry + 4, count, isLittleEndian);
+
+        if (bytes.byteLength <= pointerSize) {
+          ifd.set(bytes, entry + 4 + pointerSize);
+          continue;
+        }
+        if (isBigTiff) view.setBigUint64(entry + 4 + pointerSize, BigInt(offset + valueOffset), isLittleEndian);
+        else view.setUint32(entry + 4 + pointerSize, offset + valueOffset, isLittleEndian);
+        ifd.set(bytes, valueOffset);
+        valueOffset += bytes.byteLength;
+      }
+
+      const nextIfd = node.next == null ? 0 : ifdOffsets[node.next];
+      const nextOffset = countSize + tags.length * entrySize;
+      if (isBigTiff) view.setBigUint64(nextOffset, BigInt(nextIfd), isLittleEndian);
+      else view.setUint32(nextOffset, nextIfd, isLittleEndian);
+      return ifd;
+    });
+  }
+
+  // The size of the IFDs does not depend on the offset values so compute where everything is stored from the placeholders
+  const placeholder = layout(
+    nodes.map(() => 0),
+    nodes.map((n) => (n.image.data ?? []).map(() => 0)),
+  );
+  let dataOffset = headerSize;
+  const ifdOffsets = placeholder.map((ifd) => {
+    const offset = dataOffset;
+    dataOffset += ifd.byteLength;
+    return offset;
+  });
+  const dataOffsets = nodes.map((n) =>
+    (n.image.data ?? []).map((d) => {
+      if (d == null || d.byteLength === 0) return 0;
+      const offset = dataOffset + leaderSize;
+      dataOffset = offset + d.byteLength + trailerSize;
+      return offset;
+    }),
+  );
+  const ifds = layout(ifdOffsets, dataOffsets);
+
+  const output = new Uint8Array(dataOffset);
+  const view = new DataView(output.buffer);
+  view.setUint16(0, isLittleEndian ? TiffEndian.Little : TiffEndian.Big, false);
+  view.setUint16(2, isBigTiff ? TiffVersion.BigTiff : TiffVersion.Tiff, isLittleEndian);
+  if (isBigTiff) {
+    view.setUint16(4, 8, isLittleEndian);
+    view.setUint16(6, 0, isLittleEndian);
+    view.setBigUint64(8, BigInt(ifdOffsets[0]), isLittleEndian);
+  } else {
+    view.setUint32(4, ifdOffsets[0], isLittleEndian);
+  }
+  for (let i = 0; i < ghost.length; i++) output[headerSize - ghost.length + i] = ghost.charCodeAt(i);
+
+  for (let i = 0; i < ifds.length; i++) output.set(ifds[i], ifdOffsets[i]);
+
+  for (let i = 0; i < nodes.length; i++) {
+    const data = nodes[i].image.data ?? [];
+    for (let t = 0; t < data.length; t++) {
+      const d = data[t];
+      const offset = dataOffsets[i][t];
+      if (d == null || offset === 0) continue;
+      // GDAL leaders are always little endian
+      if (opts.leader) view.setUint32(offset - leaderSize, d.byteLength, true);
+      output.set(d, offset);
+      if (opts.trailer) output.set(d.subarray(Math.max(0, d.byteLength - 4)), offset + d.byteLength);
+    }
+  }
+
+  return output.buffer;
+}
@@ -0,0 +1,76 @@
+import assert from 'node:assert';
+import { describe, it } from 'node:test';
+import { SourceMemory } from '../__benchmark__/source.memory.js';
+import { CogTiff } from '../cog.tiff.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+import { buildTiff, TestTag } from './tiff.builder.js';
+
+const BaseTags: TestTag[] = [
+  { id: TiffTag.ImageWidth, type: TiffTagValueType.Uint16, value: 16 },
+  { id: TiffTag.ImageHeight, type: TiffTagValueType.Uint16, value: 16 },
+];
+
+// Tag ids from the private range so they do not clash with anything we know about
+const TagA = 65000 as TiffTag;
+const TagB = 65001 as TiffTag;
+const TagC = 65002 as TiffTag;
+
+describe('TiffTagFactory', () => {
+  for (const isBigTiff of [true, false]) {
+    for (const isLittleEndian of [true, false]) {
+      const name = `${isBigTiff ? 'BigTiff' : 'Tiff'} ${isLittleEndian ? 'LE' : 'BE'}`;
+      async function create(tags: TestTag[]): Promise<CogTiff> {
+        const bytes = buildTiff([{ tags: [...BaseTags, ...tags] }], { isBigTiff, isLittleEndian });
+        return CogTiff.create(new SourceMemory(bytes));
+      }
+
+      it(`should read int64 and uint64 values ${name}`, async () => {
+        const tiff = await create([
+          { id: TagA, type: TiffTagValueType.Int64, value: [-5n, 2n ** 60n, -(2n ** 60n)] },
+          { id: TagB, type: TiffTagValueType.Uint64, value: [1n, 2n ** 53n + 1n] },
+          { id: TagC, type: TiffTagValueType.Int64, value: -42n },
+        ]);
+        const [img] = tiff.images;
+        assert.deepEqual(await img.fetch(TagA), [-5, 2n ** 60n, -(2n ** 60n)]);
+        assert.deepEqual(await img.fetch(TagB), [1, 2n ** 53n + 1n]);
+        assert.equal(await img.fetch(TagC), -42);
+      });
+
+      it(`should read ifd8 values ${name}`, async () => {
+        const tiff = await create([{ id: TiffTag.SubIFDs, type: TiffTagValueType.Ifd8, value: [1024n, 2048n] }]);
+        assert.deepEqual(await tiff.images[0].fetch(TiffTag.SubIFDs), [1024, 2048]);
+      });
+
+      it(`should read signed rational values ${name}`, async () => {
+        const tiff = await create([
+          { id: TagA, type: TiffTagValueType.SignedRational, value: [-1, 2, 3, -4] },
+          { id: TagB, type: TiffTagValueType.SignedRational, value: [-7, 2] },
+        ]);
+        const [img] = tiff.images;
+        assert.deepEqual(await img.fetch(TagA), [
+          [-1, 2],
+          [3, -4],
+        ]);
+        assert.deepEqual(await img.fetchDecimal(TagA), [-0.5, -0.75]);
+        assert.deepEqual(await img.fetch(TagB), [-7, 2]);
+        assert.equal(await img.fetchDecimal(TagB), -3.5);
+      });
+
+      it(`should read rationals as decimals ${name}`, async () => {
+        const tiff = await create([
+          { id: TiffTag.XResolution, type: TiffTagValueType.Rational, value: [72, 1] },
+          { id: TiffTag.YResolution, type: TiffTagValueType.Rational, value: [300, 4] },
+          { id: TagA, type: TiffTagValueType.Uint16, value: [1, 2] },
+        ]);
+        const [img] = tiff.images;
+        assert.deepEqual(await img.fetch(TiffTag.XResolution), [72, 1]);
+        assert.equal(await img.fetchDecimal(TiffTag.XResolution), 72);
+        assert.equal(await img.fetchDecimal(TiffTag.YResolution), 75);
+        // Non rational values are not changed
+        assert.deepEqual(await img.fetchDecimal(TagA), [1, 2]);
+        assert.equal(await img.fetchDecimal(TiffTag.Artist), null);
+      });
+    }
+  }
+});
@@ -1,10 +1,29 @@
 import { getUint } from './util/bytes.js';
 import { CogTiff } from './cog.tiff.js';
 import { TiffCompression, TiffMimeType } from './const/tiff.mime.js';
-import { TiffTag, TiffTagGeo } from './const/tiff.tag.id.js';
+import { TiffTag, TiffTagGeo, TiffTagGeoNamed, TiffTagGeoType } from './const/tiff.tag.id.js';
+import {
+  PhotometricInterpretation,
+  PlanarConfiguration,
+  Predictor,
+  RasterTypeKey,
+  SubFileType,
+} from './const/tiff.tag.value.js';
+import { DefaultYCbCrOptions } from './decode/color.js';
+import { DecodedRaster, decodeImageBytes } from './decode/decode.js';
+import { combinePlanes, RasterTile } from './decode/raster.js';
+import { RgbaRaster, toColorTable, toRgba } from './decode/rgba.js';
+import { RasterValues, readValues, ReadValuesOptions } from './decode/values.js';
+import { RasterInterleave, RasterWindow, readWindow, ReadWindowOptions } from './decode/window.js';
+import { CrsDescriptor, getCrs } from './geo/geo.crs.js';
+import { parseGdalNoData } from './metadata/metadata.gdal.js';
+import { applyGeoTransform, GeoTransform, invertGeoTransform, scaleGeoTransform } from './geo/geo.transform.js';
+import { GhostOptionTileOrder, TiffBlockIntegrityCheck, TiffBlockIntegrityError } from './read/tiff.gdal.js';
 import { Tag, TagInline, TagOffset } from './read/tiff.tag.js';
+import { SourceFetchOptions } from './source.js';
+import { fetchSource } from './util/util.abort.js';
 import { BoundingBox, Size } from './vector.js';
-import { fetchAllOffsets, fetchLazy, getValueAt } from './read/tiff.tag.factory.js';
+import { fetchAllOffsets, fetchLazy, fetchOffsetRange, getValueAt, toDecimal } from './read/tiff.tag.factory.js';
 
 /** Invalid EPSG code */
 export const InvalidProjectionCode = 32767;
@@ -35,6 +54,85 @@ export const ImportantTags = new Set([
   TiffTag.TileOffsets,
 ]);
 
+/** Kind of data stored in a image, see {@link CogTiffImage.imageType} */
+export enum CogTiffImageType {
+  /** Full resolution imagery */
+  Full = 'full',
+  /** Reduced resolution imagery */
+  Overview = 'overview',
+  /** Transparency mask of another image */
+  Mask = 'mask',
+  /** Another page of a multi-page tiff */
+  Page = 'page',
+}
+
+/** Bytes of a tile or strip */
+export interface CogTiffImageBytes {
+  mimeType: TiffMimeType;
+  bytes: ArrayBuffer;
+}
+
+/** Options for reading a band of a tile or strip */
+export interface CogTiffImageBandOptions extends SourceFetchOptions {
+  /** Band to read, only {@link PlanarConfiguration.Separate} images store each band as its own plane, defaults to 0 */
+  band?: number;
+}
+
+/** Options for reading every band of a tile or strip */
+export interface CogTiffImageRasterOptions extends SourceFetchOptions {
+  /** Order of the output samples, defaults to `pixel` */
+  interleave?: RasterInterleave;
+  /** Validate tiles against the GDAL block leader and trailer see {@link CogTiffImageTileOptions.validate} */
+  validate?: boolean;
+  /** Value used for the bands of empty planes, defaults to {@link CogTiffImage.gdalNoData} or 0 */
+  nodata?: number;
+}
+
+/** Options for reading a tile */
+export interface CogTiffImageTileOptions extends CogTiffImageBandOptions {
+  /**
+   * Validate the tile against the GDAL block leader and trailer,
+   * the leader, tile and trailer are read with one request
+   *
+   * @throws {@link TiffBlockIntegrityError} if the leader or trailer do not match the tile
+   * @throws if the tiff has no GDAL BLOCK_LEADER or BLOCK_TRAILER so the tile cannot be validated
+   */
+  validate?: boolean;
+}
+
+/** A tile to read with {@link CogTiffImage.getTiles} */
+export interface CogTiffImageTileRequest {
+  /** Tile x offset */
+  x: number;
+  /** Tile y offset */
+  y: number;
+  /** Band to read see {@link CogTiffImageBandOptions.band} */
+  band?: number;
+}
+
+/** Options for reading multiple tiles */
+export interface CogTiffImageTilesOptions extends SourceFetchOptions {
+  /**
+   * Tiles that are separated by at most this many bytes are read with one request, the bytes between them are discarded
+   *
+   * Defaults to 0, only tiles that are directly next to each other are merged
+   */
+  maxGap?: number;
+}
+
+/** Tiles read with {@link CogTiffImage.getTiles} */
+export interface CogTiffImageTiles {
+  /** Bytes of each tile in the order they were requested, null for empty tiles */
+  tiles: (CogTiffImageBytes | null)[];
+  /** Number of requests used to read the tiles, including the requests for their offsets and byte counts */
+  requests: number;
+  /**
+   * Number of requests saved by merging tiles, compared to reading every tile
+   * and each of its offsets and byte counts that are not loaded on its own
+   */
+  requestsSaved: number;
+}
+
 /**
  * Size of a individual tile
  */
@@ -60,38 +158,51 @@ export class CogTiffImage {
   /** Has loadGeoTiffTags been called */
   isGeoTagsLoaded = false;
   /** Sub tags stored in TiffTag.GeoKeyDirectory */
-  tagsGeo: Map<TiffTagGeo, string | number> = new Map();
+  tagsGeo: Map<TiffTagGeo, string | number | number[]> = new Map();
+  /** Image that references this image if it was read from a SubIFD, EXIF or GPS directory, null otherwise */
+  parent: CogTiffImage | null;
+  /** Images stored in the SubIFDs of this image, undefined until {@link fetchSubImages} has been called */
+  subImages?: CogTiffImage[];
+
+  /** Child directories that have been loaded or are loading */
+  private children: Map<TiffTag, Promise<CogTiffImage[]>> = new Map();
 
-  constructor(tiff: CogTiff, id: number, tags: Map<TiffTag, Tag>) {
+  constructor(tiff: CogTiff, id: number, tags: Map<TiffTag, Tag>, parent: CogTiffImage | null = null) {
     this.tiff = tiff;
     this.id = id;
     this.tags = tags;
+    this.parent = parent;
   }
 
   /**
    * Force loading of important tags if they have not already been loaded
    *
    * @param loadGeoTags Whether to load the GeoKeyDirectory and unpack it
+   * @param options signal to abort loading the tags
    */
-  async init(loadGeoTags = true): Promise<void> {
+  async init(loadGeoTags = true, options?: SourceFetchOptions): Promise<void> {
     const requiredTags = [
-      this.fetch(TiffTag.SamplesPerPixel),
-      this.fetch(TiffTag.SampleFormat),
-      this.fetch(TiffTag.BitsPerSample),
-      this.fetch(TiffTag.Compression),
-      this.fetch(TiffTag.ImageHeight),
-      this.fetch(TiffTag.ImageWidth),
-      this.fetch(TiffTag.ModelPixelScale),
-      this.fetch(TiffTag.ModelTiePoint),
-      this.fetch(TiffTag.ModelTransformation),
-      this.fetch(TiffTag.TileHeight),
-      this.fetch(TiffTag.TileWidth),
+      this.fetch(TiffTag.SamplesPerPixel, options),
+      this.fetch(TiffTag.SampleFormat, options),
+      this.fetch(TiffTag.BitsPerSample, options),
+      this.fetch(TiffTag.Compression, options),
+      this.fetch(TiffTag.ImageHeight, options),
+      this.fetch(TiffTag.ImageWidth, options),
+      this.fetch(TiffTag.ModelPixelScale, options),
+      this.fetch(TiffTag.ModelTiePoint, options),
+      this.fetch(TiffTag.ModelTransformation, options),
+      this.fetch(TiffTag.TileHeight, options),
+      this.fetch(TiffTag.TileWidth, options),
+      this.fetch(TiffTag.PlanarConfiguration, options),
+      this.fetch(TiffTag.RowsPerStrip, options),
+      this.fetch(TiffTag.Predictor, options),
+      this.fetch(TiffTag.GdalNoData, options),
     ];
 
     if (loadGeoTags) {
-      requiredTags.push(this.fetch(TiffTag.GeoKeyDirectory));
-      requiredTags.push(this.fetch(TiffTag.GeoAsciiParams));
-      requiredTags.push(this.fetch(TiffTag.GeoDoubleParams));
+      requiredTags.push(this.fetch(TiffTag.GeoKeyDirectory, options));
+      requiredTags.push(this.fetch(TiffTag.GeoAsciiParams, options));
+      requiredTags.push(this.fetch(TiffTag.GeoDoubleParams, options));
     }
 
     await Promise.all(requiredTags);
@@ -139,9 +250,10 @@ export class CogTiffImage {
     for (let i = 4; i <= geoTags[3] * 4; i += 4) {
       const key = geoTags[i] as TiffTagGeo;
       const locationTagId = geoTags[i + 1];
-
+      const count = geoTags[i + 2];
       const offset = geoTags[i + 3];
 
+      // Value is stored directly in the key
       if (locationTagId === 0) {
         this.tagsGeo.set(key, offset);
         continue;
@@ -149,12 +261,9 @@ export class CogTiffImage {
 
       const tag = this.tags.get(locationTagId);
       if (tag == null || tag.value == null) continue;
-      const count = geoTags[i + 2];
-      if (typeof tag.value === 'string') {
-        this.tagsGeo.set(key, tag.value.slice(offset, offset + count - 1).trim());
-      } else {
-        throw new Error('Failed to extract GeoTiffTags');
-      }
+      const value = getGeoKeyValue(tag.value, offset, count);
+      if (value == null) continue;
+      this.tagsGeo.set(key, value);
     }
   }
 
@@ -167,48 +276,231 @@ export class CogTiffImage {
    * ```
    * @throws if {@link loadGeoTiffTags} has not been called
    */
-  valueGeo(tag: TiffTagGeo): string | number | undefined {
+  valueGeo<T extends TiffTagGeo>(tag: T): TiffTagGeoType[T] | undefined {
+    if (this.isGeoTagsLoaded === false) throw new Error('loadGeoTiffTags() has not been called');
+    return this.tagsGeo.get(tag) as TiffTagGeoType[T] | undefined;
+  }
+
+  /**
+   * Get all the geo keys by their name
+   *
+   * @example
+   * ```typescript
+   * image.geoKeys; // { GTModelTypeGeoKey: 1, GTRasterTypeGeoKey: 1, GeogSemiMajorAxisGeoKey: 6378137 }
+   * ```
+   * @throws if {@link loadGeoTiffTags} has not been called
+   */
+  get geoKeys(): TiffTagGeoNamed {
     if (this.isGeoTagsLoaded === false) throw new Error('loadGeoTiffTags() has not been called');
-    return this.tagsGeo.get(tag);
+    const output: Record<string, string | number | number[]> = {};
+    for (const [key, value] of this.tagsGeo) output[TiffTagGeo[key] ?? String(key)] = value;
+    return output as TiffTagGeoNamed;
   }
 
   /**
    * Load a tag, if it is not currently loaded, fetch the required data for the tag.
    *
    * @param tag tag to fetch
+   * @param options signal to abort the read
    */
-  public async fetch<T>(tag: TiffTag): Promise<T | null> {
+  public async fetch<T>(tag: TiffTag, options?: SourceFetchOptions): Promise<T | null> {
     const sourceTag = this.tags.get(tag);
     if (sourceTag == null) return null;
     if (sourceTag.type === 'inline') return sourceTag.value as unknown as T;
-    if (sourceTag.type === 'lazy') return fetchLazy(sourceTag, this.tiff) as T;
+    if (sourceTag.type === 'lazy') return fetchLazy(sourceTag, this.tiff, options) as T;
     if (sourceTag.isLoaded) return sourceTag.value as unknown as T;
-    if (sourceTag.type === 'offset') return fetchAllOffsets(this.tiff, sourceTag) as T;
+    if (sourceTag.type === 'offset') return fetchAllOffsets(this.tiff, sourceTag, options) as T;
     throw new Error('Cannot fetch:' + tag);
   }
 
+  /**
+   * Load a tag, converting any rational values into decimals
+   *
+   * Rationals are normally read as `[numerator, denominator]` pairs
+   *
+   * @example
+   * ```typescript
+   * await image.fetch(TiffTag.XResolution); // [72, 1]
+   * await image.fetchDecimal(TiffTag.XResolution); // 72
+   * ```
+   *
+   * @param tag tag to fetch
+   * @param options signal to abort the read
+   */
+  public async fetchDecimal(tag: TiffTag, options?: SourceFetchOptions): Promise<number | number[] | null> {
+    const value = await this.fetch(tag, options);
+    const sourceTag = this.tags.get(tag);
+    if (value == null || sourceTag == null) return null;
+    return toDecimal(sourceTag, value);
+  }
+
+  /**
+   * Load the images stored in the SubIFDs of this image
+   *
+   * libtiff and DNG store reduced resolution images as SubIFDs rather than in the main IFD chain
+   *
+   * @param options signal to abort the read
+   * @returns images in the SubIFDs, empty if there are none
+   */
+  async fetchSubImages(options?: SourceFetchOptions): Promise<CogTiffImage[]> {
+    const images = await this.fetchChildren(TiffTag.SubIFDs, options);
+    if (this.subImages == null) {
+      await Promise.all(images.map((i) => i.init(true, options)));
+      this.subImages = images;
+    }
+    return images;
+  }
+
+  /**
+   * Load the EXIF directory of the image
+   *
+   * @param options signal to abort the read
+   * @returns the EXIF directory as a image, null if there is no EXIF directory
+   */
+  async fetchExif(options?: SourceFetchOptions): Promise<CogTiffImage | null> {
+    const images = await this.fetchChildren(TiffTag.ExifIFD, options);
+    return images[0] ?? null;
+  }
+
+  /**
+   * Load the GPS directory of the image
+   *
+   * @param options signal to abort the read
+   * @returns the GPS directory as a image, null if there is no GPS directory
+   */
+  async fetchGps(options?: SourceFetchOptions): Promise<CogTiffImage | null> {
+    const images = await this.fetchChildren(TiffTag.GpsIFD, options);
+    return images[0] ?? null;
+  }
+
+  /** Load all the IFDs referenced by a tag, only loading each tag once */
+  private fetchChildren(tag: TiffTag, options?: SourceFetchOptions): Promise<CogTiffImage[]> {
+    let children = this.children.get(tag);
+    if (children == null) {
+      const request = this.readChildren(tag, options).catch((err) => {
+        // Allow the read to be retried if it failed or was aborted
+        if (this.children.get(tag) === request) this.children.delete(tag);
+        throw err;
+      });
+      children = request;
+      this.children.set(tag, children);
+    }
+    return children;
+  }
+
+  private async readChildren(tag: TiffTag, options?: SourceFetchOptions): Promise<CogTiffImage[]> {
+    const value = await this.fetch<number | number[]>(tag, options);
+    if (value == null) return [];
+
+    const images: CogTiffImage[] = [];
+    const seen = new Set<number>();
+    for (const startOffset of Array.isArray(value) ? value : [value]) {
+      let offset = startOffset;
+      // Sub IFDs can also be chained together with the next IFD pointer
+      while (offset !== 0 && !seen.has(offset)) {
+        seen.add(offset);
+        const ifd = await this.tiff.readSubIfd(offset, options);
+        images.push(new CogTiffImage(this.tiff, images.length, ifd.tags, this));
+        offset = ifd.nextOffset;
+      }
+    }
+    return images;
+  }
+
+  /**
+   * Image that this reduced resolution image was created from,
+   * this is either the image that owns the SubIFD or the first image in the tiff
+   *
+   * @returns the full resolution image, null if this image is not a reduced resolution image
+   */
+  get baseImage(): CogTiffImage | null {
+    if (this.value(TiffTag.NewSubFileType) !== 1) return null;
+    if (this.parent != null) return this.parent;
+    if (this.id === 0) return null;
+    return this.tiff.images[0];
+  }
+
+  /**
+   * Flags from {@link TiffTag.NewSubFileType} describing the kind of data in the image
+   *
+   * @see {@link SubFileType}
+   */
+  get subFileType(): number {
+    const subFileType = this.value(TiffTag.NewSubFileType);
+    if (subFileType == null || typeof subFileType !== 'number') return 0;
+    return subFileType;
+  }
+
+  /**
+   * Classify the image as full resolution imagery, a overview, a mask or a page
+   *
+   * Images in the main IFD chain without any {@link SubFileType} flags after the first image are treated as pages
+   */
+  get imageType(): CogTiffImageType {
+    const subFileType = this.subFileType;
+    if (subFileType & SubFileType.Mask) return CogTiffImageType.Mask;
+    if (subFileType & SubFileType.ReducedImage) return CogTiffImageType.Overview;
+    if (subFileType & SubFileType.Page) return CogTiffImageType.Page;
+    if (this.parent == null && this.id > 0) return CogTiffImageType.Page;
+    return CogTiffImageType.Full;
+  }
+
+  /**
+   * Find the transparency mask of this image
+   *
+   * GDAL stores masks as their own images with the {@link SubFileType.Mask} flag set,
+   * a mask is paired with the image that has the same size and the same flags other than the mask flag
+   *
+   * @returns the mask, null if this image is a mask or has no mask
+   */
+  get mask(): CogTiffImage | null {
+    if (this.imageType === CogTiffImageType.Mask) return null;
+    const images = this.parent == null ? this.tiff.images : this.parent.subImages ?? [];
+    const subFileType = this.subFileType | SubFileType.Mask;
+    const size = this.size;
+    for (const img of images) {
+      if (img.subFileType !== subFileType) continue;
+      const imgSize = img.size;
+      if (imgSize.width === size.width && imgSize.height === size.height) return img;
+    }
+    return null;
+  }
+
   /**
    * Get the origin point for the image
    *
+   * For {@link RasterTypeKey.PixelIsPoint} images this is the top left corner of the first pixel not the tie point,
+   * see {@link CogTiff.pointGeoIgnore}
+   *
    * @returns origin point of the image
    */
   get origin(): [number, number, number] {
+    const [x, , , y] = this.geoTransform;
     const tiePoints: number[] | null = this.value<number[]>(TiffTag.ModelTiePoint);
-    if (tiePoints != null && tiePoints.length === 6) {
-      return [tiePoints[3], tiePoints[4], tiePoints[5]];
-    }
+    if (tiePoints != null && tiePoints.length === 6) return [x, y, tiePoints[5]];
 
     const modelTransformation = this.value<number[]>(TiffTag.ModelTransformation);
-    if (modelTransformation != null) {
-      return [modelTransformation[3], modelTransformation[7], modelTransformation[11]];
-    }
+    if (modelTransformation != null) return [x, y, modelTransformation[11]];
 
     // If this is a sub image, use the origin from the top level image
-    if (this.value(TiffTag.NewSubFileType) === 1 && this.id !== 0) {
-      return this.tiff.images[0].origin;
-    }
+    const baseImage = this.baseImage;
+    if (baseImage != null) return baseImage.origin;
 
-    throw new Error('Image does not have a geo transformation.');
+    return [x, y, 0];
+  }
+
+  /**
+   * Get how the pixels relate to the model coordinates from {@link TiffTagGeo.GTRasterTypeGeoKey}
+   *
+   * @returns raster type, defaults to {@link RasterTypeKey.PixelIsArea}
+   */
+  get rasterType(): RasterTypeKey {
+    const rasterType = this.tagsGeo.get(TiffTagGeo.GTRasterTypeGeoKey);
+    if (rasterType === RasterTypeKey.PixelIsPoint) return RasterTypeKey.PixelIsPoint;
+    // Overviews in the main IFD chain do not have their own geo keys
+    const baseImage = this.baseImage;
+    if (rasterType == null && baseImage != null) return baseImage.rasterType;
+    return RasterTypeKey.PixelIsArea;
   }
 
   /** Is there enough geo information on this image to figure out where its actually located */
@@ -217,8 +509,7 @@ export class CogTiffImage {
       this.value(TiffTag.ModelPixelScale) != null || this.value(TiffTag.ModelTransformation) != null;
     if (isImageLocated) return true;
     // If this is a sub image, use the isGeoLocated from the top level image
-    if (this.value(TiffTag.NewSubFileType) === 1 && this.id !== 0) return this.tiff.images[0].isGeoLocated;
-    return false;
+    return this.baseImage?.isGeoLocated ?? false;
   }
 
   /**
@@ -237,8 +528,8 @@ export class CogTiffImage {
     }
 
     // If this is a sub image, use the resolution from the top level image
-    if (this.value(TiffTag.NewSubFileType) === 1 && this.id !== 0) {
-      const firstImg = this.tiff.images[0];
+    const firstImg = this.baseImage;
+    if (firstImg != null) {
       const [resX, resY, resZ] = firstImg.resolution;
       const firstImgSize = firstImg.size;
       const imgSize = this.size;
@@ -250,26 +541,89 @@ export class CogTiffImage {
   }
 
   /**
-   * Bounding box of the image
+   * Get the affine transform from pixel to world coordinates
    *
-   * @returns [minX, minY, maxX, maxY] bounding box
+   * Read from {@link TiffTag.ModelTransformation} including any rotation, otherwise from the
+   * {@link TiffTag.ModelTiePoint} and {@link TiffTag.ModelPixelScale}, reduced resolution images are scaled from the image they were created from
+   *
+   * @returns six parameter geo transform
    */
-  get bbox(): [number, number, number, number] {
-    const size = this.size;
-    const origin = this.origin;
-    const resolution = this.resolution;
+  get geoTransform(): GeoTransform {
+    const modelTransformation = this.value<number[]>(TiffTag.ModelTransformation);
+    if (modelTransformation != null) {
+      const m = modelTransformation;
+      return this.shiftPixelIsPoint([m[3], m[0], m[1], m[7], m[4], m[5]]);
+    }
+
+    const tiePoints = this.value<number[]>(TiffTag.ModelTiePoint);
+    const modelPixelScale = this.value<number[]>(TiffTag.ModelPixelScale);
+    if (tiePoints != null && tiePoints.length >= 6 && modelPixelScale != null) {
+      const [scaleX, scaleY] = modelPixelScale;
+      // Tie points can be at any raster location not just the top left of the image
+      const [i, j, , x, y] = tiePoints;
+      return this.shiftPixelIsPoint([x - i * scaleX, scaleX, 0, y + j * scaleY, 0, -scaleY]);
+    }
 
-    if (origin == null || size == null || resolution == null) {
-      throw new Error('Unable to calculate bounding box');
+    // If this is a sub image, scale the transform of the top level image
+    const baseImage = this.baseImage;
+    if (baseImage != null) {
+      const baseSize = baseImage.size;
+      const size = this.size;
+      return scaleGeoTransform(baseImage.geoTransform, baseSize.width / size.width, baseSize.height / size.height);
     }
 
-    const x1 = origin[0];
-    const y1 = origin[1];
+    throw new Error('Image does not have a geo transformation.');
+  }
+
+  /** PixelIsPoint transforms refer to the center of the pixel, move them to the top left corner of the pixel */
+  private shiftPixelIsPoint(gt: GeoTransform): GeoTransform {
+    if (this.tiff.pointGeoIgnore || this.rasterType !== RasterTypeKey.PixelIsPoint) return gt;
+    const [x, y] = applyGeoTransform(gt, -0.5, -0.5);
+    return [x, gt[1], gt[2], y, gt[4], gt[5]];
+  }
 
-    const x2 = x1 + resolution[0] * size.width;
-    const y2 = y1 + resolution[1] * size.height;
+  /**
+   * Convert a pixel location into world coordinates
+   *
+   * @param px pixel x offset, can be fractional eg 0.5 is the center of the first pixel
+   * @param py pixel y offset
+   * @returns [x, y] in the coordinate system of the image
+   */
+  toWorld(px: number, py: number): [number, number] {
+    return applyGeoTransform(this.geoTransform, px, py);
+  }
 
-    return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+  /**
+   * Convert world coordinates into a pixel location
+   *
+   * @param x x coordinate in the coordinate system of the image
+   * @param y y coordinate in the coordinate system of the image
+   * @returns fractional [px, py] pixel location
+   */
+  toPixel(x: number, y: number): [number, number] {
+    return applyGeoTransform(invertGeoTransform(this.geoTransform), x, y);
+  }
+
+  /**
+   * Bounding box of the image
+   *
+   * Computed from all four corners so rotated images include their full footprint
+   *
+   * @returns [minX, minY, maxX, maxY] bounding box
+   */
+  get bbox(): [number, number, number, number] {
+    const size = this.size;
+    const gt = this.geoTransform;
+
+    const corners = [
+      applyGeoTransform(gt, 0, 0),
+      applyGeoTransform(gt, size.width, 0),
+      applyGeoTransform(gt, 0, size.height),
+      applyGeoTransform(gt, size.width, size.height),
+    ];
+    const xs = corners.map((c) => c[0]);
+    const ys = corners.map((c) => c[1]);
+    return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
   }
 
   /**
@@ -305,6 +659,92 @@ export class CogTiffImage {
     return photometricInterpretation;
   }
 
+  /**
+   * Load the color table of a {@link PhotometricInterpretation.Palette} image
+   *
+   * The {@link TiffTag.ColorMap} is only fetched when it is first needed and the 16 bit values are scaled to 8 bits
+   *
+   * @param options signal to abort the read
+   * @returns four bytes for each color `RGBARGBA`, null if the image has no ColorMap
+   */
+  async fetchColorTable(options?: SourceFetchOptions): Promise<Uint8Array | null> {
+    const colorMap = await this.fetch<number | number[]>(TiffTag.ColorMap, options);
+    if (colorMap == null || typeof colorMap === 'number') return null;
+    return toColorTable(colorMap);
+  }
+
+  /**
+   * Load the tags used to decode {@link PhotometricInterpretation.YCbCr} images
+   *
+   * The tags are only fetched when YCbCr pixels are first decoded,
+   * until then {@link ycbcrSubSampling}, {@link ycbcrPositioning}, {@link ycbcrCoefficients} and {@link referenceBlackWhite}
+   * only have values that were stored inside the IFD
+   *
+   * @param options signal to abort the read
+   */
+  async loadYCbCrTags(options?: SourceFetchOptions): Promise<void> {
+    await Promise.all([
+      this.fetch(TiffTag.YCbCrSubSampling, options),
+      this.fetch(TiffTag.YCbCrPositioning, options),
+      this.fetch(TiffTag.YCbCrCoefficients, options),
+      this.fetch(TiffTag.ReferenceBlackWhite, options),
+    ]);
+  }
+
+  /**
+   * Horizontal and vertical chroma subsampling of {@link PhotometricInterpretation.YCbCr} images
+   *
+   * @returns subsampling, defaults to `[2, 2]`
+   */
+  get ycbcrSubSampling(): [number, number] {
+    const subSampling = this.value<number | number[]>(TiffTag.YCbCrSubSampling);
+    if (subSampling == null || typeof subSampling === 'number') return [2, 2];
+    return [subSampling[0], subSampling[1]];
+  }
+
+  /**
+   * Position of the chroma samples relative to the luminance samples, 1 is centered and 2 is co-sited
+   *
+   * @returns positioning, defaults to 1
+   */
+  get ycbcrPositioning(): number {
+    const positioning = this.value(TiffTag.YCbCrPositioning);
+    if (positioning == null || typeof positioning !== 'number') return 1;
+    return positioning;
+  }
+
+  /**
+   * Proportions of red, green and blue in the luminance of {@link PhotometricInterpretation.YCbCr} images
+   *
+   * @returns coefficients, defaults to the ITU-R BT.601 `[0.299, 0.587, 0.114]`
+   */
+  get ycbcrCoefficients(): number[] {
+    return this.valueDecimal(TiffTag.YCbCrCoefficients) ?? DefaultYCbCrOptions.coefficients;
+  }
+
+  /**
+   * Headroom and footroom of each color component
+   *
+   * @returns `[blackA, whiteA, blackB, whiteB, blackC, whiteC]`, defaults to full range samples
+   */
+  get referenceBlackWhite(): number[] {
+    const referenceBlackWhite = this.valueDecimal(TiffTag.ReferenceBlackWhite);
+    if (referenceBlackWhite != null) return referenceBlackWhite;
+    if (this.photometricInterpretation === PhotometricInterpretation.YCbCr) {
+      return DefaultYCbCrOptions.referenceBlackWhite;
+    }
+    return [0, 255, 0, 255, 0, 255];
+  }
+
+  /** Get the value of a rational tag as decimals if it has been loaded */
+  private valueDecimal(tag: TiffTag): number[] | null {
+    const value = this.value(tag);
+    const sourceTag = this.tags.get(tag);
+    if (value == null || sourceTag == null) return null;
+    const decimal = toDecimal(sourceTag, value);
+    return Array.isArray(decimal) ? decimal : [decimal];
+  }
+
   /**
    * Get the sample format used by the tile
    *
@@ -340,26 +780,61 @@ export class CogTiffImage {
     return samplePerPixel;
   }
 
+  /**
+   * Get how the samples of each pixel are stored
+   *
+   * @returns planar configuration, defaults to {@link PlanarConfiguration.Contig}
+   */
+  get planarConfiguration(): PlanarConfiguration {
+    const planarConfiguration = this.value(TiffTag.PlanarConfiguration);
+    if (planarConfiguration == null || typeof planarConfiguration !== 'number') return PlanarConfiguration.Contig;
+    return planarConfiguration;
+  }
+
+  /**
+   * Get the prediction scheme applied before compression
+   *
+   * @returns predictor, defaults to {@link Predictor.None}
+   */
+  get predictor(): Predictor {
+    const predictor = this.value(TiffTag.Predictor);
+    if (predictor == null || typeof predictor !== 'number') return Predictor.None;
+    return predictor;
+  }
+
   /**
    * Get the GDAL No data value if any
    *
-   * @returns the no data value
+   * GDAL stores the no data value as ASCII, `"nan"` is returned as `NaN` and `"-inf"` as `-Infinity`
+   *
+   * @returns the no data value, null if the image has no nodata value
    */
   get gdalNoData(): number | null {
-    const gdalNoData = this.value(TiffTag.GdalNoData);
-    if (gdalNoData == null || typeof gdalNoData !== 'number') return null;
-    return gdalNoData;
+    return parseGdalNoData(this.value<string | number>(TiffTag.GdalNoData));
   }
 
   /**
-   * Attempt to read the EPSG Code from TiffGeoTags
+   * Attempt to read the horizontal EPSG Code from TiffGeoTags
+   *
+   * Uses the projected EPSG code for projected images otherwise the geographic EPSG code
    *
    * @returns EPSG Code if it exists
    */
   get epsg(): number | null {
-    const projection = this.valueGeo(TiffTagGeo.ProjectedCSTypeGeoKey) as number;
-    if (projection === InvalidProjectionCode) return null;
-    return projection;
+    return this.crs.epsg;
+  }
+
+  /**
+   * Describe the coordinate reference system of the image from its GeoKeys
+   *
+   * Overviews without their own GeoKeys use the CRS of the image they were created from
+   *
+   * @throws if {@link loadGeoTiffTags} has not been called
+   */
+  get crs(): CrsDescriptor {
+    const baseImage = this.baseImage;
+    if (this.isGeoTagsLoaded && this.tagsGeo.size === 0 && baseImage != null) return baseImage.crs;
+    return getCrs(this);
   }
 
   /**
@@ -428,6 +903,20 @@ export class CogTiffImage {
     return tileOffset.count;
   }
 
+  /**
+   * Get the number of rows stored in each strip
+   *
+   * @remarks Used to read striped tiffs
+   *
+   * @returns rows per strip, defaults to the height of the image
+   */
+  get rowsPerStrip(): number {
+    const height = this.size.height;
+    const rowsPerStrip = this.value(TiffTag.RowsPerStrip);
+    if (rowsPerStrip == null || typeof rowsPerStrip !== 'number') return height;
+    return Math.min(rowsPerStrip, height);
+  }
+
   // Clamp the bounds of the output image to the size of the image, as sometimes the edge tiles are not full tiles
   getTileBounds(x: number, y: number): BoundingBox {
     const { size, tileSize } = this;
@@ -438,26 +927,90 @@ export class CogTiffImage {
     return { x: left, y: top, width, height };
   }
 
+  /**
+   * Number of planes of tiles or strips
+   *
+   * {@link PlanarConfiguration.Separate} images store each band in its own plane, other images have one plane
+   */
+  get planeCount(): number {
+    if (this.planarConfiguration !== PlanarConfiguration.Separate) return 1;
+    return this.samplesPerPixel ?? 1;
+  }
+
+  /**
+   * Find the index of a strip inside {@link TiffTag.StripOffsets} and {@link TiffTag.StripByteCounts}
+   *
+   * @param index Strip index inside the band
+   * @param band Band to read, only {@link PlanarConfiguration.Separate} images have more than one band of strips
+   */
+  getStripIndex(index: number, band = 0): number {
+    const planeCount = this.planeCount;
+    if (band < 0 || band >= planeCount) throw new Error(`Band index is outside of range band:${band} >= ${planeCount}`);
+    if (band === 0) return index;
+    const stripsPerPlane = Math.ceil(this.size.height / this.rowsPerStrip);
+    if (index >= stripsPerPlane) throw new Error('Cannot read strip, index out of bounds');
+    return band * stripsPerPlane + index;
+  }
+
   /**
    * Read a strip into a ArrayBuffer
    *
    * Image has to be striped see {@link stripCount}
    *
    * @param index Strip index to read
+   * @param options band to read
    */
-  async getStrip(index: number): Promise<{ mimeType: TiffMimeType; bytes: ArrayBuffer } | null> {
+  async getStrip(index: number, options?: CogTiffImageBandOptions): Promise<CogTiffImageBytes | null> {
     if (this.isTiled()) throw new Error('Cannot read stripes, tiff is tiled: ' + index);
 
     const byteCounts = this.tags.get(TiffTag.StripByteCounts) as TagOffset;
     const offsets = this.tags.get(TiffTag.StripOffsets) as TagOffset;
 
-    if (index >= byteCounts.count) throw new Error('Cannot read strip, index out of bounds');
+    const idx = this.getStripIndex(index, options?.band);
+    if (idx >= byteCounts.count) throw new Error('Cannot read strip, index out of bounds');
 
     const [byteCount, offset] = await Promise.all([
-      getOffset(this.tiff, offsets, index),
-      getOffset(this.tiff, byteCounts, index),
+      getOffset(this.tiff, offsets, idx, options),
+      getOffset(this.tiff, byteCounts, idx, options),
     ]);
-    return this.getBytes(byteCount, offset);
+    return this.getBytes(byteCount, offset, options);
+  }
+
+  /**
+   * Read and decode the pixels of a strip
+   *
+   * The last strip of a image only contains the remaining rows of the image
+   *
+   * @see {@link Decompressors} to add support for more compressions
+   *
+   * @param index Strip index to read
+   * @param options band to read
+   * @returns decoded pixels, null if the strip is empty
+   */
+  async getStripPixels(index: number, options?: CogTiffImageBandOptions): Promise<DecodedRaster | null> {
+    const strip = await this.getStrip(index, options);
+    if (strip == null) return null;
+    const { width, height } = this.size;
+    const rowsPerStrip = this.rowsPerStrip;
+    // Planar images store each plane as its own set of strips
+    const stripsPerPlane = Math.ceil(height / rowsPerStrip);
+    const rows = Math.min(rowsPerStrip, height - (index % stripsPerPlane) * rowsPerStrip);
+    return decodeImageBytes(this, strip, width, rows, options);
+  }
+
+  /**
+   * Read and decode every band of a strip, planes of {@link PlanarConfiguration.Separate} images are read concurrently
+   *
+   * @param index Strip index inside the band
+   * @param options output options
+   * @returns every band, null if the strip is empty
+   */
+  async getStripRaster(index: number, options?: CogTiffImageRasterOptions): Promise<RasterTile | null> {
+    const bands = Array.from({ length: this.planeCount }, (_, band) => band);
+    const signal = options?.signal;
+    const planes = await Promise.all(bands.map((band) => this.getStripPixels(index, { band, signal })));
+    const nodata = options?.nodata ?? this.gdalNoData ?? 0;
+    return combinePlanes(this, planes, options?.interleave ?? 'pixel', nodata);
   }
 
   /** The jpeg header is stored in the IFD, read the JPEG header and adjust the byte array to include it */
@@ -479,19 +1032,92 @@ export class CogTiffImage {
   private async getBytes(
     offset: number,
     byteCount: number,
-  ): Promise<{ mimeType: TiffMimeType; bytes: ArrayBuffer } | null> {
+    options?: SourceFetchOptions,
+  ): Promise<CogTiffImageBytes | null> {
     const mimeType = this.compression;
     if (mimeType == null) throw new Error('Unsupported compression: ' + this.value(TiffTag.Compression));
     if (byteCount === 0) return null;
 
-    const bytes = await this.tiff.source.fetch(offset, byteCount);
+    const bytes = await fetchSource(this.tiff.source, offset, byteCount, options);
     if (bytes.byteLength < byteCount) {
       throw new Error(`Failed to fetch bytes from offset:${offset} wanted:${byteCount} got:${bytes.byteLength}`);
     }
-    if (this.compression === TiffMimeType.Jpeg) return { mimeType, bytes: this.getJpegHeader(bytes) };
+    return this.toImageBytes(mimeType, bytes);
+  }
+
+  /** Apply any compression specific changes to the bytes of a tile or strip */
+  private toImageBytes(mimeType: TiffMimeType, bytes: ArrayBuffer): CogTiffImageBytes {
+    if (mimeType === TiffMimeType.Jpeg) return { mimeType, bytes: this.getJpegHeader(bytes) };
     return { mimeType, bytes };
   }
 
+  /**
+   * Read the bytes of a tile including its GDAL block leader and trailer in one request and validate them
+   *
+   * @throws {@link TiffBlockIntegrityError} if the leader or trailer do not match the tile
+   * @throws if the tiff has no GDAL BLOCK_LEADER or BLOCK_TRAILER
+   */
+  private async getBytesValidated(
+    x: number,
+    y: number,
+    index: number,
+    options?: SourceFetchOptions,
+  ): Promise<CogTiffImageBytes | null> {
+    const mimeType = this.compression;
+    if (mimeType == null) throw new Error('Unsupported compression: ' + this.value(TiffTag.Compression));
+
+    const leaderSize = this.tiff.options?.tileLeaderByteSize ?? null;
+    const trailerSize = this.tiff.options?.tileTrailerByteSize ?? null;
+    if (leaderSize == null && trailerSize == null) {
+      throw new Error(`Unable to validate tile, no GDAL BLOCK_LEADER or BLOCK_TRAILER image:${this.id} x:${x} y:${y}`);
+    }
+
+    const byteCounts = this.tags.get(TiffTag.TileByteCounts) as TagOffset;
+    if (byteCounts == null) throw new Error('No tile byte counts found');
+    const [offset, byteCount] = await Promise.all([
+      getOffset(this.tiff, this.tileOffset, index, options),
+      getOffset(this.tiff, byteCounts, index, options),
+    ]);
+    if (offset === 0 || byteCount === 0) return null;
+
+    const leaderBytes = leaderSize ?? 0;
+    const trailerBytes = trailerSize ?? 0;
+    const start = offset - leaderBytes;
+    const length = leaderBytes + byteCount + trailerBytes;
+    const bytes = await fetchSource(this.tiff.source, start, length, options);
+    const fail = (message: string, check: TiffBlockIntegrityCheck): TiffBlockIntegrityError =>
+      new TiffBlockIntegrityError(
+        `${message} image:${this.id} x:${x} y:${y} offset:${offset}`,
+        this.id,
+        x,
+        y,
+        offset,
+        check,
+      );
+
+    if (bytes.byteLength < length) {
+      throw fail(`Tile truncated wanted:${length} got:${bytes.byteLength}`, 'truncated');
+    }
+
+    const view = new DataView(bytes);
+    if (leaderSize != null) {
+      // GDAL always writes the leader as little endian, no matter the byte order of the tiff
+      const leader = getUint(view, 0, leaderSize, true);
+      if (leader !== byteCount) throw fail(`Tile leader mismatch leader:${leader} byteCount:${byteCount}`, 'leader');
+    }
+    if (trailerBytes > 0) {
+      // Tiles smaller than the trailer only repeat the bytes they have
+      const count = Math.min(trailerBytes, byteCount);
+      const tileEnd = leaderBytes + byteCount;
+      for (let i = 0; i < count; i++) {
+        if (view.getUint8(tileEnd - count + i) === view.getUint8(tileEnd + i)) continue;
+        throw fail('Tile trailer mismatch', 'trailer');
+      }
+    }
+
+    return this.toImageBytes(mimeType, bytes.slice(leaderBytes, leaderBytes + byteCount));
+  }
+
   /**
    * Load a tile into a ArrayBuffer
    *
@@ -499,30 +1125,353 @@ export class CogTiffImage {
    *
    * @param x Tile x offset
    * @param y Tile y offset
+   * @param options tile read options
    */
-  async getTile(x: number, y: number): Promise<{ mimeType: TiffMimeType; bytes: ArrayBuffer } | null> {
+  async getTile(x: number, y: number, options?: CogTiffImageTileOptions): Promise<CogTiffImageBytes | null> {
     const mimeType = this.compression;
-    const size = this.size;
-    const tiles = this.tileSize;
+    if (mimeType == null) throw new Error('Unsupported compression: ' + this.value(TiffTag.Compression));
+
+    const idx = this.getTileIndex(x, y, options?.band);
+    if (options?.validate) return this.getBytesValidated(x, y, idx, options);
+    const { offset, imageSize } = await this.getTileSize(idx, options);
+
+    return this.getBytes(offset, imageSize, options);
+  }
 
-    if (tiles == null) throw new Error('Tiff is not tiled');
+  /**
+   * Load multiple tiles merging tiles that are stored next to each other into a single request
+   *
+   * GDAL writes neighbouring tiles back to back, so reading a block of tiles often only needs one request per row.
+   * The offsets and byte counts of every tile are loaded first, tiles that are next to each other in the tags are
+   * loaded with one request. Tile sizes are always read from {@link TiffTag.TileByteCounts} rather than the GDAL
+   * block leader, so no extra request is needed for each tile.
+   * JPEG tiles have their tables applied the same as {@link getTile}
+   *
+   * @param list tiles to read
+   * @param options merge options
+   */
+  async getTiles(list: CogTiffImageTileRequest[], options?: CogTiffImageTilesOptions): Promise<CogTiffImageTiles> {
+    const mimeType = this.compression;
     if (mimeType == null) throw new Error('Unsupported compression: ' + this.value(TiffTag.Compression));
+    const maxGap = options?.maxGap ?? 0;
+
+    const indexes = list.map((t) => this.getTileIndex(t.x, t.y, t.band));
+    const unique = [...new Set(indexes)];
+
+    const tileOffsets = this.tileOffset;
+    const byteCounts = this.tags.get(TiffTag.TileByteCounts) as TagOffset;
+    if (byteCounts == null) throw new Error('No tile byte counts found');
+    // Reading each tile on its own needs a request for every offset and byte count that is not loaded
+    const missing =
+      unique.filter((i) => !hasOffset(tileOffsets, i)).length + unique.filter((i) => !hasOffset(byteCounts, i)).length;
+    const offsetRequests = await this.fetchTileOffsets(unique, [TiffTag.TileOffsets, TiffTag.TileByteCounts], options);
+    const sizes = await Promise.all(
+      unique.map(async (index) => {
+        const [offset, imageSize] = await Promise.all([
+          getOffset(this.tiff, tileOffsets, index, options),
+          getOffset(this.tiff, byteCounts, index, options),
+        ]);
+        return { offset, imageSize };
+      }),
+    );
+
+    // Group the non empty tiles into ranges of bytes
+    const ranges: { offset: number; end: number; tiles: { index: number; offset: number; imageSize: number }[] }[] = [];
+    const tiles = unique
+      .map((index, i) => ({ index, ...sizes[i] }))
+      .filter((t) => t.offset > 0 && t.imageSize > 0)
+      .sort((a, b) => a.offset - b.offset);
+    for (const tile of tiles) {
+      const last = ranges[ranges.length - 1];
+      const end = tile.offset + tile.imageSize;
+      if (last != null && tile.offset - last.end <= maxGap) {
+        last.end = Math.max(last.end, end);
+        last.tiles.push(tile);
+      } else {
+        ranges.push({ offset: tile.offset, end, tiles: [tile] });
+      }
+    }
+
+    const output = new Map<number, CogTiffImageBytes>();
+    await Promise.all(
+      ranges.map(async (range) => {
+        const length = range.end - range.offset;
+        const bytes = await fetchSource(this.tiff.source, range.offset, length, options);
+        if (bytes.byteLength < length) {
+          throw new Error(`Failed to fetch bytes from offset:${range.offset} wanted:${length} got:${bytes.byteLength}`);
+        }
+        for (const tile of range.tiles) {
+          const start = tile.offset - range.offset;
+          output.set(tile.index, this.toImageBytes(mimeType, bytes.slice(start, start + tile.imageSize)));
+        }
+      }),
+    );
+
+    const requests = offsetRequests + ranges.length;
+    return {
+      tiles: indexes.map((index) => output.get(index) ?? null),
+      requests,
+      requestsSaved: missing + tiles.length - requests,
+    };
+  }
+
+  /**
+   * Load every band of a tile, planes of {@link PlanarConfiguration.Separate} images are fetched concurrently
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param options tile read options
+   * @returns the bytes of each plane, null for empty planes
+   */
+  getTileBands(x: number, y: number, options?: CogTiffImageTileOptions): Promise<(CogTiffImageBytes | null)[]> {
+    const bands = Array.from({ length: this.planeCount }, (_, band) => band);
+    return Promise.all(bands.map((band) => this.getTile(x, y, { ...options, band })));
+  }
+
+  /**
+   * Load the {@link TiffTag.TileOffsets} and {@link TiffTag.TileByteCounts} of a range of tiles
+   *
+   * Each row of tiles is fetched with one request for each tag, rows that are next to each other in the file
+   * (eg rows that cover the full width of the image) are merged into a single request.
+   * Tiles read afterwards use the loaded values rather than fetching them one by one.
+   *
+   * @param tiles range of tiles to load, in tile offsets
+   * @param options band of tiles to load and signal to abort the reads
+   *
+   * @throws if the range is outside of the image
+   */
+  async preloadTileOffsets(tiles: BoundingBox, options?: CogTiffImageBandOptions): Promise<void> {
+    if (tiles.width <= 0 || tiles.height <= 0) return;
+    const band = options?.band;
+
+    const indexes: number[] = [];
+    for (let y = tiles.y; y < tiles.y + tiles.height; y++) {
+      for (let x = tiles.x; x < tiles.x + tiles.width; x++) indexes.push(this.getTileIndex(x, y, band));
+    }
+
+    const tags = [TiffTag.TileOffsets];
+    // Tiles with a GDAL leader read their size from the leader rather than the byte counts
+    if (!this.tiff.options?.tileLeaderByteSize) tags.push(TiffTag.TileByteCounts);
+    await this.fetchTileOffsets(indexes, tags, options);
+  }
+
+  /**
+   * Load the values of offset tags for a list of tiles, tiles that are next to each other in the tags
+   * are fetched with one request for each tag
+   *
+   * @returns number of requests made to the source
+   */
+  private async fetchTileOffsets(indexes: number[], tags: TiffTag[], options?: SourceFetchOptions): Promise<number> {
+    const sorted = [...new Set(indexes)].sort((a, b) => a - b);
+
+    // Group the tiles into runs of tiles that are next to each other in the tag
+    const spans: { start: number; count: number }[] = [];
+    for (const index of sorted) {
+      const last = spans[spans.length - 1];
+      if (last != null && last.start + last.count === index) last.count++;
+      else spans.push({ start: index, count: 1 });
+    }
+
+    let requests = 0;
+    const fetches: Promise<void>[] = [];
+    for (const tagId of tags) {
+      const tag = this.tags.get(tagId);
+      if (tag == null || tag.type !== 'offset') continue;
+      for (const span of spans) {
+        const fetch = fetchOffsetRange(this.tiff, tag, span.start, span.count, options).then((isFetched) => {
+          if (isFetched) requests++;
+        });
+        fetches.push(fetch);
+      }
+    }
+    await Promise.all(fetches);
+    return requests;
+  }
+
+  /**
+   * Find the index of a tile inside {@link TiffTag.TileOffsets} and {@link TiffTag.TileByteCounts}
+   *
+   * Tiles are indexed in row major order, {@link PlanarConfiguration.Separate} images store
+   * one grid of tiles for each band one after another
+   *
+   * GDAL's BLOCK_ORDER only describes where the tile data is stored in the file, the offsets are always row major
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param band Band to read, only {@link PlanarConfiguration.Separate} images have more than one band of tiles
+   *
+   * @throws if the tile is outside of the image or the tile order is not supported
+   */
+  getTileIndex(x: number, y: number, band = 0): number {
+    if (!this.isTiled()) throw new Error('Tiff is not tiled');
 
-    // TODO support GhostOptionTileOrder
-    const nyTiles = Math.ceil(size.height / tiles.height);
-    const nxTiles = Math.ceil(size.width / tiles.width);
+    const tileOrder = this.tiff.options?.tileOrder ?? GhostOptionTileOrder.RowMajor;
+    if (tileOrder !== GhostOptionTileOrder.RowMajor) throw new Error('Unsupported tile order: ' + tileOrder);
 
-    if (x >= nxTiles || y >= nyTiles) {
+    const { x: nxTiles, y: nyTiles } = this.tileCount;
+    if (x < 0 || y < 0 || x >= nxTiles || y >= nyTiles) {
       throw new Error(`Tile index is outside of range x:${x} >= ${nxTiles} or y:${y} >= ${nyTiles}`);
     }
 
-    const idx = y * nxTiles + x;
-    const totalTiles = nxTiles * nyTiles;
-    if (idx >= totalTiles) throw new Error(`Tile index is outside of tile range: ${idx} >= ${totalTiles}`);
+    const bandCount = this.planeCount;
+    if (band < 0 || band >= bandCount) throw new Error(`Band index is outside of range band:${band} >= ${bandCount}`);
+
+    return band * nxTiles * nyTiles + y * nxTiles + x;
+  }
+
+  /**
+   * Load a tile and the matching tile of the image's {@link mask}
+   *
+   * When GDAL has interleaved the mask with the imagery ({@link CogTifGhostOptions.isMaskInterleaved}),
+   * the mask tile directly follows the imagery tile so both are fetched with one contiguous read
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param options signal to abort the reads
+   * @returns the tile and its mask, the mask is null if the image has no mask or the mask tile is empty
+   */
+  async getTileWithMask(
+    x: number,
+    y: number,
+    options?: SourceFetchOptions,
+  ): Promise<{ image: CogTiffImageBytes | null; mask: CogTiffImageBytes | null }> {
+    const mask = this.mask;
+    if (mask == null) return { image: await this.getTile(x, y, options), mask: null };
+    if (this.tiff.options?.isMaskInterleaved !== true) {
+      const [image, maskTile] = await Promise.all([this.getTile(x, y, options), mask.getTile(x, y, options)]);
+      return { image, mask: maskTile };
+    }
+
+    const imageType = this.compression;
+    const maskType = mask.compression;
+    if (imageType == null) throw new Error('Unsupported compression: ' + this.value(TiffTag.Compression));
+    if (maskType == null) throw new Error('Unsupported compression: ' + mask.value(TiffTag.Compression));
+
+    const idx = this.getTileIndex(x, y);
+    const [imageTile, maskTile] = await Promise.all([this.getTileSize(idx, options), mask.getTileSize(idx, options)]);
+
+    const end = maskTile.offset + maskTile.imageSize;
+    // Only read both tiles at once if they are actually next to each other,
+    // the only bytes between them should be the GDAL trailer of the image tile and leader of the mask tile
+    const gap = maskTile.offset - (imageTile.offset + imageTile.imageSize);
+    const maxGap = (this.tiff.options?.tileTrailerByteSize ?? 0) + (this.tiff.options?.tileLeaderByteSize ?? 0);
+    if (imageTile.imageSize === 0 || maskTile.imageSize === 0 || gap < 0 || gap > maxGap) {
+      const [image, maskBytes] = await Promise.all([
+        this.getBytes(imageTile.offset, imageTile.imageSize, options),
+        mask.getBytes(maskTile.offset, maskTile.imageSize, options),
+      ]);
+      return { image, mask: maskBytes };
+    }
 
-    const { offset, imageSize } = await this.getTileSize(idx);
+    const bytes = await fetchSource(this.tiff.source, imageTile.offset, end - imageTile.offset, options);
+    if (bytes.byteLength < end - imageTile.offset) {
+      throw new Error(
+        `Failed to fetch bytes from offset:${imageTile.offset} wanted:${end - imageTile.offset} got:${
+          bytes.byteLength
+        }`,
+      );
+    }
+    const maskStart = maskTile.offset - imageTile.offset;
+    return {
+      image: this.toImageBytes(imageType, bytes.slice(0, imageTile.imageSize)),
+      mask: mask.toImageBytes(maskType, bytes.slice(maskStart, maskStart + maskTile.imageSize)),
+    };
+  }
 
-    return this.getBytes(offset, imageSize);
+  /**
+   * Load and decode the pixels of a tile
+   *
+   * Tiles are always decoded as a full tile, even at the edges of the image see {@link getTileBounds}
+   *
+   * @see {@link Decompressors} to add support for more compressions
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param options tile read options
+   * @returns decoded pixels, null if the tile is empty
+   */
+  async getTilePixels(x: number, y: number, options?: CogTiffImageTileOptions): Promise<DecodedRaster | null> {
+    const tile = await this.getTile(x, y, options);
+    if (tile == null) return null;
+    const { width, height } = this.tileSize;
+    return decodeImageBytes(this, tile, width, height, options);
+  }
+
+  /**
+   * Load and decode every band of a tile, planes of {@link PlanarConfiguration.Separate} images are fetched concurrently
+   *
+   * @example
+   * ```typescript
+   * const tile = await img.getTileRaster(0, 0, { interleave: 'band' });
+   * tile.pixels; // Uint16Array [ ...band 1, ...band 2, ...band 3 ]
+   * ```
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param options output options
+   * @returns every band, null if the tile is empty
+   */
+  async getTileRaster(x: number, y: number, options?: CogTiffImageRasterOptions): Promise<RasterTile | null> {
+    const bands = Array.from({ length: this.planeCount }, (_, band) => band);
+    const { validate, signal } = options ?? {};
+    const planes = await Promise.all(bands.map((band) => this.getTilePixels(x, y, { band, validate, signal })));
+    const nodata = options?.nodata ?? this.gdalNoData ?? 0;
+    return combinePlanes(this, planes, options?.interleave ?? 'pixel', nodata);
+  }
+
+  /**
+   * Load and decode a tile into 8 bit RGBA pixels
+   *
+   * {@link PhotometricInterpretation.Palette} images are expanded with the {@link fetchColorTable color table},
+   * nodata and out of range indexes are transparent. YCbCr, CMYK and CIE L*a*b* images are converted to RGB
+   *
+   * @see {@link toRgba}
+   *
+   * @param x Tile x offset
+   * @param y Tile y offset
+   * @param options signal to abort the read
+   * @returns RGBA pixels, null if the tile is empty
+   */
+  async getTileRgba(x: number, y: number, options?: SourceFetchOptions): Promise<RgbaRaster | null> {
+    const raster = await this.getTileRaster(x, y, { signal: options?.signal });
+    if (raster == null) return null;
+    return toRgba(this, raster, options);
+  }
+
+  /**
+   * Read and decode a window of pixels, stitching together all the tiles or strips that the window covers
+   *
+   * Tiles or strips are fetched concurrently, parts of the window that are outside of the image or are in
+   * empty tiles are filled with the nodata value
+   *
+   * @example
+   * ```typescript
+   * const window = await img.readWindow({ x: 100, y: 100, width: 512, height: 512 }, { interleave: 'band' });
+   * ```
+   *
+   * @param window pixel window to read
+   * @param options output options
+   */
+  readWindow(window: BoundingBox, options?: ReadWindowOptions): Promise<RasterWindow> {
+    return readWindow(this, window, options);
+  }
+
+  /**
+   * Read a window of physical values, applying the GDAL scale and offset of each band
+   * and replacing nodata samples with `NaN` or flagging them in a mask
+   *
+   * @example
+   * ```typescript
+   * const values = await img.readValues({ x: 0, y: 0, width: 256, height: 256 }, { nodataMode: 'mask' });
+   * values.pixels; // Float32Array [ 12.31, 12.42, ... ]
+   * values.mask; // Uint8Array [ 1, 1, 0, ... ]
+   * ```
+   *
+   * @param window pixel window to read
+   * @param options output options
+   */
+  readValues(window: BoundingBox, options?: ReadValuesOptions): Promise<RasterValues> {
+    return readValues(this, window, options);
   }
 
   /**
@@ -533,63 +1482,89 @@ export class CogTiffImage {
    *
    * @param x Tile x offset
    * @param y Tile y offset
+   * @param options band to check for {@link PlanarConfiguration.Separate} images and signal to abort the offset lookups
    *
    * @returns if the tile exists and has data
    */
-  async hasTile(x: number, y: number): Promise<boolean> {
-    const tiles = this.tileSize;
-    const size = this.size;
+  async hasTile(x: number, y: number, options?: CogTiffImageBandOptions): Promise<boolean> {
+    if (!this.isTiled()) throw new Error('Tiff is not tiled');
 
-    if (tiles == null) throw new Error('Tiff is not tiled');
-
-    // TODO support GhostOptionTileOrder
-    const nyTiles = Math.ceil(size.height / tiles.height);
-    const nxTiles = Math.ceil(size.width / tiles.width);
-    if (x >= nxTiles || y >= nyTiles) return false;
-    const idx = y * nxTiles + x;
-    const ret = await this.getTileSize(idx);
+    const { x: nxTiles, y: nyTiles } = this.tileCount;
+    if (x < 0 || y < 0 || x >= nxTiles || y >= nyTiles) return false;
+    const idx = this.getTileIndex(x, y, options?.band);
+    const ret = await this.getTileSize(idx, options);
     return ret.offset > 0;
   }
 
   /**
    * Load the offset and byteCount of a tile
    * @param index index in the tile array
+   * @param options signal to abort the offset lookups
    * @returns Offset and byteCount for the tile
    */
-  async getTileSize(index: number): Promise<{ offset: number; imageSize: number }> {
+  async getTileSize(index: number, options?: SourceFetchOptions): Promise<{ offset: number; imageSize: number }> {
     // GDAL optimizes tiles by storing the size of the tile in
     // the few bytes leading up to the tile
     const leaderBytes = this.tiff.options?.tileLeaderByteSize;
     if (leaderBytes) {
-      const offset = await getOffset(this.tiff, this.tileOffset, index);
+      const offset = await getOffset(this.tiff, this.tileOffset, index, options);
       // Sparse COG no data found
       if (offset === 0) return { offset: 0, imageSize: 0 };
 
       // This fetch will generally load in the bytes needed for the image too
       // provided the image size is less than the size of a chunk
-      const bytes = await this.tiff.source.fetch(offset - leaderBytes, leaderBytes);
-      return { offset, imageSize: getUint(new DataView(bytes), 0, leaderBytes, this.tiff.isLittleEndian) };
+      const bytes = await fetchSource(this.tiff.source, offset - leaderBytes, leaderBytes, options);
+      // GDAL always writes the leader as little endian, no matter the byte order of the tiff
+      return { offset, imageSize: getUint(new DataView(bytes), 0, leaderBytes, true) };
     }
 
     const byteCounts = this.tags.get(TiffTag.TileByteCounts) as TagOffset;
     if (byteCounts == null) throw new Error('No tile byte counts found');
     const [offset, imageSize] = await Promise.all([
-      getOffset(this.tiff, this.tileOffset, index),
-      getOffset(this.tiff, byteCounts, index),
+      getOffset(this.tiff, this.tileOffset, index, options),
+      getOffset(this.tiff, byteCounts, index, options),
     ]);
     return { offset, imageSize };
   }
 }
 
+/**
+ * Read a geo key value that is stored inside another tag
+ *
+ * @param value value of the tag the geo key points to eg {@link TiffTag.GeoDoubleParams}
+ * @param offset index of the first value
+ * @param count number of values
+ * @returns the value, null if it is outside of the tag
+ */
+function getGeoKeyValue(value: unknown, offset: number, count: number): string | number | number[] | null {
+  // Ascii values are terminated with a "|"
+  if (typeof value === 'string') return value.slice(offset, offset + count - 1).trim();
+  if (typeof value === 'number') return offset === 0 && count === 1 ? value : null;
+  if (Array.isArray(value) || ArrayBuffer.isView(value)) {
+    const values = value as ArrayLike<number>;
+    if (offset + count > values.length) return null;
+    if (count === 1) return values[offset];
+    return Array.from({ length: count }, (_, i) => values[offset + i]);
+  }
+  return null;
+}
+
+/** Is the value at the index of a offset tag loaded, so reading it does not need a request */
+function hasOffset(tag: TagOffset | TagInline<number | number[]>, index: number): boolean {
+  if (tag.type === 'inline') return true;
+  return tag.isLoaded || tag.view != null || tag.value[index] != null;
+}
+
 function getOffset(
   tiff: CogTiff,
   x: TagOffset | TagInline<number | number[]>,
   index: number,
+  options?: SourceFetchOptions,
 ): number | Promise<number> {
   if (index > x.count || index < 0) throw new Error('TagIndex: out of bounds ' + x.id + ' @ ' + index);
   if (x.type === 'inline') {
     if (x.count > 1) return (x.value as number[])[index] as number;
     return x.value as number;
   }
-  return getValueAt(tiff, x, index);
+  return getValueAt(tiff, x, index, options);
 }
@@ -1,15 +1,18 @@
-import { CogTiffImage } from './cog.tiff.image.js';
+import { CogTiffImage, CogTiffImageType } from './cog.tiff.image.js';
 import { TiffEndian } from './const/tiff.endian.js';
 import { TiffTag } from './const/tiff.tag.id.js';
 import { TiffVersion } from './const/tiff.version.js';
+import { RasterRegion, readRegion, ReadRegionOptions } from './decode/region.js';
 import { Tag } from './index.js';
 import { DataViewOffset, hasBytes } from './read/data.view.offset.js';
 import { CogTifGhostOptions } from './read/tiff.gdal.js';
 import { TagTiffBigConfig, TagTiffConfig, TiffIfdConfig } from './read/tiff.ifd.config.js';
 import { createTag } from './read/tiff.tag.factory.js';
-import { Source } from './source.js';
+import { Source, SourceFetchOptions } from './source.js';
 import { getUint } from './util/bytes.js';
+import { fetchSource } from './util/util.abort.js';
 import { toHex } from './util/util.hex.js';
+import { Size } from './vector.js';
 
 export class CogTiff {
   /** Read 16KB blocks at a time */
@@ -30,6 +33,11 @@ export class CogTiff {
   isLittleEndian = false;
   /** Has init() been called */
   isInitialized = false;
+  /**
+   * Use the raw tie points for {@link RasterTypeKey.PixelIsPoint} images rather than shifting them by half a pixel,
+   * the same as GDAL's `GTIFF_POINT_GEO_IGNORE=TRUE`
+   */
+  pointGeoIgnore = false;
 
   private _initPromise?: Promise<CogTiff>;
   constructor(source: Source, headerSize?: number, tileSize?: number) {
@@ -42,9 +50,14 @@ export class CogTiff {
     }
   }
 
-  /** Create a COG and initialize it by reading the COG headers */
-  static create(source: Source): Promise<CogTiff> {
-    return new CogTiff(source).init();
+  /**
+   * Create a COG and initialize it by reading the COG headers
+   *
+   * @param source where to read the COG from
+   * @param options signal to abort reading the headers
+   */
+  static create(source: Source, options?: SourceFetchOptions): Promise<CogTiff> {
+    return new CogTiff(source).init(options);
   }
   static createEx(source: Source, headerSize: number, tileSize: number): Promise<CogTiff> {
     return new CogTiff(source, headerSize, tileSize).init();
@@ -52,38 +65,87 @@ export class CogTiff {
 
   /**
    * Initialize the COG loading in the header and all image headers
+   *
+   * If the initialization fails or is aborted, calling init again will retry
+   *
+   * @param options signal to abort reading the headers
+   * @throws {@link TiffAbortError} if the signal is aborted
    */
-  init(): Promise<CogTiff> {
+  init(options?: SourceFetchOptions): Promise<CogTiff> {
     if (this._initPromise) return this._initPromise;
-    this._initPromise = this.readHeader();
-    return this._initPromise;
+    const initPromise = this.readHeader(options).catch((err) => {
+      if (this._initPromise === initPromise) this._initPromise = undefined;
+      throw err;
+    });
+    this._initPromise = initPromise;
+    return initPromise;
   }
 
   /**
    * Find a image which has a resolution similar to the provided resolution
    *
+   * The lowest resolution image that is at least as detailed as the requested resolution on both axes is used
+   *
    * @param resolution resolution to find
+   * @param resolutionY resolution on the y axis to find, defaults to `resolution`
    */
-  getImageByResolution(resolution: number): CogTiffImage {
+  getImageByResolution(resolution: number, resolutionY: number = resolution): CogTiffImage {
     const firstImage = this.images[0];
     const firstImageSize = firstImage.size;
-    const [refX] = firstImage.resolution;
+    const [refX, refY] = firstImage.resolution;
+    const overviews = this.overviews;
 
     const resolutionBaseX = refX * firstImageSize.width;
-    // const resolutionBaseY = refY * firstImageSize.height;
-    for (let i = this.images.length - 1; i > 0; i--) {
-      const img = this.images[i];
+    const resolutionBaseY = Math.abs(refY) * firstImageSize.height;
+    for (let i = overviews.length - 1; i >= 0; i--) {
+      const img = overviews[i];
       const imgSize = img.size;
 
       const imgResolutionX = resolutionBaseX / imgSize.width;
-      // TODO do we care about y resolution
-      // const imgResolutionY = resolutionBaseY / imgSize.height;
+      const imgResolutionY = resolutionBaseY / imgSize.height;
 
-      if (imgResolutionX - resolution <= 0.01) return img;
+      // Relative tolerance so small resolutions (eg degrees) are compared as precisely as large ones
+      if (imgResolutionX <= resolution * (1 + 1e-6) && imgResolutionY <= Math.abs(resolutionY) * (1 + 1e-6)) return img;
     }
     return firstImage;
   }
 
+  /**
+   * Read a region of the tiff and resample it into a grid of the requested size
+   *
+   * The best overview for the output resolution is chosen with {@link getImageByResolution}
+   *
+   * @example
+   * ```typescript
+   * const region = await tiff.readRegion([minX, minY, maxX, maxY], { width: 256, height: 256 }, { resampling: 'bilinear' });
+   * ```
+   *
+   * @param bbox region to read [minX, minY, maxX, maxY] in the CRS of the tiff
+   * @param size output size in pixels
+   * @param options output and resampling options
+   */
+  readRegion(bbox: [number, number, number, number], size: Size, options?: ReadRegionOptions): Promise<RasterRegion> {
+    return readRegion(this, bbox, size, options);
+  }
+
+  /**
+   * Reduced resolution images of the first image, ordered from the highest to lowest resolution
+   *
+   * Overviews are either stored as images in the main IFD chain (GDAL) or as SubIFDs of the first image (libtiff/DNG),
+   * SubIFD overviews are only included once they have been loaded with {@link CogTiffImage.fetchSubImages}
+   *
+   * Masks and pages are not overviews, see {@link CogTiffImage.imageType}
+   */
+  get overviews(): CogTiffImage[] {
+    const overviews = this.images.filter((f) => f.imageType === CogTiffImageType.Overview);
+    const subImages = this.images[0]?.subImages;
+    if (subImages == null) return overviews;
+    for (const img of subImages) {
+      if (img.imageType === CogTiffImageType.Overview) overviews.push(img);
+    }
+    return overviews.sort((a, b) => b.size.width - a.size.width);
+  }
+
   /**
    * Return resolution of each image
    */
@@ -96,18 +158,22 @@ export class CogTiff {
   }
 
   /** Read the Starting header and all Image headers from the source */
-  private async readHeader(): Promise<CogTiff> {
+  private async readHeader(options?: SourceFetchOptions): Promise<CogTiff> {
     if (this.isInitialized) return this;
+    // Remove any images from a previous attempt that failed
+    this.images = [];
     const readSize = typeof this.fixedHeaderSize !== 'undefined' ? this.fixedHeaderSize : this.defaultReadSize;
-    const bytes = new DataView(await this.source.fetch(0, readSize)) as DataViewOffset;
+    const bytes = new DataView(await fetchSource(this.source, 0, readSize, options)) as DataViewOffset;
     bytes.sourceOffset = 0;
 
     let offset = 0;
     const endian = bytes.getUint16(offset, this.isLittleEndian);
     offset += 2;
 
+    if (endian !== TiffEndian.Little && endian !== TiffEndian.Big) {
+      throw new Error(`Invalid tiff header, unknown byte order: ${toHex(endian)}`);
+    }
     this.isLittleEndian = endian === TiffEndian.Little;
-    if (!this.isLittleEndian) throw new Error('Only little endian is supported');
     this.version = bytes.getUint16(offset, this.isLittleEndian);
     offset += 2;
 
@@ -143,10 +209,8 @@ export class CogTiff {
       // TODO is 1KB enough, most IFD entries are in the order of 100-300 bytes
       if(typeof this.fixedHeaderSize === 'undefined'){
         if (!hasBytes(lastView, nextOffsetIfd, 1024)) {
-          const bytes = await this.source.fetch(
-            nextOffsetIfd,
-            getMaxLength(this.source, nextOffsetIfd, this.defaultReadSize),
-            );
+          const length = getMaxLength(this.source, nextOffsetIfd, this.defaultReadSize);
+          const bytes = await fetchSource(this.source, nextOffsetIfd, length, options);
           lastView = new DataView(bytes) as DataViewOffset;
           lastView.sourceOffset = nextOffsetIfd;
         }
@@ -155,7 +219,7 @@ export class CogTiff {
       nextOffsetIfd = await this.readIfd(nextOffsetIfd, lastView);
     }
 
-    await Promise.all(this.images.map((i) => i.init()));
+    await Promise.all(this.images.map((i) => i.init(true, options)));
     this.isInitialized = true;
     return this;
   }
@@ -170,14 +234,57 @@ export class CogTiff {
     const viewOffset = offset - view.sourceOffset;
     const tagCount = getUint(view, viewOffset, this.ifdConfig.offset, this.isLittleEndian);
 
-    const tags: Map<TiffTag, Tag> = new Map();
-
     // We now know how many bytes we need so ensure the ifd bytes are all read
     const ifdBytes = tagCount * this.ifdConfig.ifd;
     if (!hasBytes(view, offset, ifdBytes)) {
       throw new Error('IFD out of range @ ' + toHex(offset) + ' IFD' + this.images.length);
     }
 
+    const { tags, nextOffset } = this.readIfdTags(offset, view);
+    this.images.push(new CogTiffImage(this, this.images.length, tags));
+    return nextOffset;
+  }
+
+  /**
+   * Fetch and read a IFD that is not part of the main IFD chain, eg a SubIFD or EXIF directory
+   *
+   * @param offset file offset to read the IFD from
+   * @param options signal to abort the read
+   * @returns tags of the IFD and the offset to the next IFD in the chain
+   */
+  async readSubIfd(
+    offset: number,
+    options?: SourceFetchOptions,
+  ): Promise<{ tags: Map<TiffTag, Tag>; nextOffset: number }> {
+    let view = await this.fetchView(offset, getMaxLength(this.source, offset, this.defaultReadSize), options);
+    const tagCount = getUint(view, 0, this.ifdConfig.offset, this.isLittleEndian);
+
+    // Very large IFDs may not fit in the default read size
+    const ifdBytes = this.ifdConfig.offset + tagCount * this.ifdConfig.ifd + this.ifdConfig.pointer;
+    if (!hasBytes(view, offset, ifdBytes)) view = await this.fetchView(offset, ifdBytes, options);
+
+    return this.readIfdTags(offset, view);
+  }
+
+  /** Fetch bytes from the source and wrap them in a {@link DataViewOffset} */
+  private async fetchView(offset: number, length: number, options?: SourceFetchOptions): Promise<DataViewOffset> {
+    const view = new DataView(await fetchSource(this.source, offset, length, options)) as DataViewOffset;
+    view.sourceOffset = offset;
+    return view;
+  }
+
+  /**
+   * Read all the tags from a IFD, the view must contain all of the bytes for the IFD
+   *
+   * @param offset file offset to read the IFD from
+   * @param view bytes that contain the IFD
+   */
+  private readIfdTags(offset: number, view: DataViewOffset): { tags: Map<TiffTag, Tag>; nextOffset: number } {
+    const viewOffset = offset - view.sourceOffset;
+    const tagCount = getUint(view, viewOffset, this.ifdConfig.offset, this.isLittleEndian);
+
+    const tags: Map<TiffTag, Tag> = new Map();
+
     const ifdSize = this.ifdConfig.ifd;
     const startOffset = viewOffset + this.ifdConfig.offset;
     for (let i = 0; i < tagCount; i++) {
@@ -185,8 +292,8 @@ export class CogTiff {
       tags.set(tag.id, tag);
     }
 
-    this.images.push(new CogTiffImage(this, this.images.length, tags));
-    return getUint(view, startOffset + tagCount * ifdSize, this.ifdConfig.pointer, this.isLittleEndian);
+    const nextOffset = getUint(view, startOffset + tagCount * ifdSize, this.ifdConfig.pointer, this.isLittleEndian);
+    return { tags, nextOffset };
   }
 }
 
@@ -1,5 +1,15 @@
 export { TiffEndian } from './tiff.endian.js';
 export { TiffCompression, TiffMimeType } from './tiff.mime.js';
-export { TiffTag as TiffTag, TiffTagGeo as TiffTagGeo } from './tiff.tag.id.js';
-export { TiffTagValueType } from './tiff.tag.value.js';
+export { TiffTag as TiffTag, TiffTagGeo as TiffTagGeo, TiffTagGps } from './tiff.tag.id.js';
+export type { TiffTagGeoNamed, TiffTagGeoType } from './tiff.tag.id.js';
+export {
+  ModelTypeKey,
+  PhotometricInterpretation,
+  PlanarConfiguration,
+  Predictor,
+  RasterTypeKey,
+  SampleFormat,
+  SubFileType,
+  TiffTagValueType,
+} from './tiff.tag.value.js';
 export { TiffVersion } from './tiff.version.js';
@@ -12,6 +12,7 @@ export enum TiffMimeType {
   Deflate = 'application/deflate',
   Lerc = 'application/lerc',
   Lzma = 'application/x-lzma',
+  PackBits = 'application/packbits',
 }
 
 export const TiffCompression: { [key: number]: TiffMimeType } = {
@@ -20,6 +21,8 @@ export const TiffCompression: { [key: number]: TiffMimeType } = {
   6: TiffMimeType.Jpeg,
   7: TiffMimeType.Jpeg,
   8: TiffMimeType.Deflate,
+  32773: TiffMimeType.PackBits,
+  32946: TiffMimeType.Deflate,
   34887: TiffMimeType.Lerc,
   34925: TiffMimeType.Lzma,
   34712: TiffMimeType.Jp2,
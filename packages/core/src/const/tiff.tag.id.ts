@@ -88,9 +88,13 @@ export enum TiffTag {
   Flash = 0x9209,
   FlashpixVersion = 0xa000,
   FNumber = 0x829d,
+  FocalLength = 0x920a,
+  GpsIFD = 0x8825,
   ImageUniqueID = 0xa420,
+  ISOSpeedRatings = 0x8827,
   LightSource = 0x9208,
   MakerNote = 0x927c,
+  OffsetTimeOriginal = 0x9011,
   ShutterSpeedValue = 0x9201,
   UserComment = 0x9286,
 
@@ -169,3 +173,66 @@ export enum TiffTagGeo {
   VerticalDatumGeoKey = 4098,
   VerticalUnitsGeoKey = 4099,
 }
+
+/** Geo keys that are stored as text in {@link TiffTag.GeoAsciiParams} */
+type TiffTagGeoAscii =
+  | TiffTagGeo.GTCitationGeoKey
+  | TiffTagGeo.GeogCitationGeoKey
+  | TiffTagGeo.PCSCitationGeoKey
+  | TiffTagGeo.VerticalCitationGeoKey;
+
+/** Geo keys that can have more than one value */
+type TiffTagGeoArray = TiffTagGeo.GeogTOWGS84GeoKey;
+
+/**
+ * Type of the value for each geo key
+ *
+ * Codes and parameters are numbers, citations are strings and multi value keys are arrays
+ *
+ * @example
+ * ```typescript
+ * const semiMajorAxis: number | undefined = image.valueGeo(TiffTagGeo.GeogSemiMajorAxisGeoKey);
+ * ```
+ */
+export type TiffTagGeoType = {
+  [K in TiffTagGeo]: K extends TiffTagGeoAscii ? string : K extends TiffTagGeoArray ? number[] : number;
+};
+
+/** Geo keys by name, eg `{ GTModelTypeGeoKey: 1 }` */
+export type TiffTagGeoNamed = { [K in keyof typeof TiffTagGeo]?: TiffTagGeoType[(typeof TiffTagGeo)[K]] };
+
+/** Tags stored inside the GPS directory {@link TiffTag.GpsIFD} */
+export enum TiffTagGps {
+  GPSVersionID = 0x0000,
+  GPSLatitudeRef = 0x0001,
+  GPSLatitude = 0x0002,
+  GPSLongitudeRef = 0x0003,
+  GPSLongitude = 0x0004,
+  GPSAltitudeRef = 0x0005,
+  GPSAltitude = 0x0006,
+  GPSTimeStamp = 0x0007,
+  GPSSatellites = 0x0008,
+  GPSStatus = 0x0009,
+  GPSMeasureMode = 0x000a,
+  GPSDOP = 0x000b,
+  GPSSpeedRef = 0x000c,
+  GPSSpeed = 0x000d,
+  GPSTrackRef = 0x000e,
+  GPSTrack = 0x000f,
+  GPSImgDirectionRef = 0x0010,
+  GPSImgDirection = 0x0011,
+  GPSMapDatum = 0x0012,
+  GPSDestLatitudeRef = 0x0013,
+  GPSDestLatitude = 0x0014,
+  GPSDestLongitudeRef = 0x0015,
+  GPSDestLongitude = 0x0016,
+  GPSDestBearingRef = 0x0017,
+  GPSDestBearing = 0x0018,
+  GPSDestDistanceRef = 0x0019,
+  GPSDestDistance = 0x001a,
+  GPSProcessingMethod = 0x001b,
+  GPSAreaInformation = 0x001c,
+  GPSDateStamp = 0x001d,
+  GPSDifferential = 0x001e,
+  GPSHPositioningError = 0x001f,
+}
@@ -11,8 +11,124 @@ export enum TiffTagValueType {
   SignedRational = 0x000a,
   Float32 = 0x000b,
   Float64 = 0x000c,
+  // Offset to a sub IFD
+  Ifd = 0x000d,
   // introduced by BigTIFF
   Uint64 = 0x0010,
   Int64 = 0x0011,
   Ifd8 = 0x0012,
 }
+
+/**
+ * Flags describing the kind of data stored in a image
+ *
+ * @see {@link TiffTag.NewSubFileType}
+ */
+export enum SubFileType {
+  /** Reduced resolution version of another image eg a overview */
+  ReducedImage = 1,
+  /** Single page of a multi-page image */
+  Page = 2,
+  /** Transparency mask for another image */
+  Mask = 4,
+}
+
+/**
+ * Color space of the image data
+ *
+ * @see {@link TiffTag.PhotometricInterpretation}
+ */
+export enum PhotometricInterpretation {
+  /** Grayscale where 0 is white */
+  MinIsWhite = 0,
+  /** Grayscale where 0 is black */
+  MinIsBlack = 1,
+  /** Red, green and blue samples */
+  Rgb = 2,
+  /** Samples are indexes into {@link TiffTag.ColorMap} */
+  Palette = 3,
+  /** Transparency mask */
+  Mask = 4,
+  /** Color separations, generally CMYK */
+  Separated = 5,
+  /** Luminance and chrominance samples */
+  YCbCr = 6,
+  /** CIE L*a*b* */
+  CieLab = 8,
+  /** ICC L*a*b* */
+  IccLab = 9,
+  /** ITU L*a*b* */
+  ItuLab = 10,
+}
+
+/**
+ * How to interpret each data sample in a pixel
+ *
+ * @see {@link TiffTag.SampleFormat}
+ */
+export enum SampleFormat {
+  /** Unsigned integer data */
+  Uint = 1,
+  /** Two's complement signed integer data */
+  Int = 2,
+  /** IEEE floating point data */
+  Float = 3,
+  /** Undefined data format */
+  Void = 4,
+  /** Complex signed integer */
+  ComplexInt = 5,
+  /** Complex IEEE floating point */
+  ComplexFloat = 6,
+}
+
+/**
+ * How the components of each pixel are stored
+ *
+ * @see {@link TiffTag.PlanarConfiguration}
+ */
+export enum PlanarConfiguration {
+  /** Samples are interleaved `RGBRGBRGB` */
+  Contig = 1,
+  /** Samples are stored in separate planes `RRRGGGBBB` */
+  Separate = 2,
+}
+
+/**
+ * Prediction scheme applied to the image data before compression
+ *
+ * @see {@link TiffTag.Predictor}
+ */
+export enum Predictor {
+  /** No prediction */
+  None = 1,
+  /** Horizontal differencing of integer samples */
+  Horizontal = 2,
+  /** Horizontal differencing of the bytes of floating point samples */
+  FloatingPoint = 3,
+}
+
+/**
+ * How raster pixels relate to the model coordinates
+ *
+ * @see {@link TiffTagGeo.GTRasterTypeGeoKey}
+ */
+export enum RasterTypeKey {
+  /** Pixels cover an area, tie points refer to the top left corner of a pixel */
+  PixelIsArea = 1,
+  /** Pixels are point samples, tie points refer to the center of a pixel */
+  PixelIsPoint = 2,
+}
+
+/**
+ * Type of coordinate system used by the model
+ *
+ * @see {@link TiffTagGeo.GTModelTypeGeoKey}
+ */
+export enum ModelTypeKey {
+  /** Projection coordinate system */
+  Projected = 1,
+  /** Geographic latitude-longitude system */
+  Geographic = 2,
+  /** Geocentric (X,Y,Z) coordinate system */
+  Geocentric = 3,
+}
@@ -0,0 +1,211 @@
+import { DecodedRaster } from './decode.js';
+import type { RgbaRaster } from './rgba.js';
+
+/** How YCbCr samples are converted into RGB */
+export interface YCbCrOptions {
+  /** Proportions of red, green and blue in luminance, see {@link TiffTag.YCbCrCoefficients} */
+  coefficients: number[];
+  /** Headroom and footroom of each component `[yBlack, yWhite, cbBlack, cbWhite, crBlack, crWhite]` */
+  referenceBlackWhite: number[];
+}
+
+/** Defaults from libtiff, ITU-R BT.601 coefficients with full range samples */
+export const DefaultYCbCrOptions: YCbCrOptions = {
+  coefficients: [0.299, 0.587, 0.114],
+  referenceBlackWhite: [0, 255, 128, 255, 128, 255],
+};
+
+/**
+ * Expand subsampled YCbCr data units into one Y, Cb and Cr sample for every pixel
+ *
+ * Subsampled data is stored as data units of `subX * subY` luminance samples followed by one Cb and one Cr sample,
+ * each chroma sample is replicated across every pixel of its data unit
+ *
+ * @param bytes packed data units
+ * @param width width of the tile or strip in pixels
+ * @param height height of the tile or strip in pixels
+ * @param subX horizontal chroma subsampling
+ * @param subY vertical chroma subsampling
+ * @returns samples interleaved `YCbCrYCbCr`
+ */
+export function upsampleYCbCr(
+  bytes: Uint8Array,
+  width: number,
+  height: number,
+  subX: number,
+  subY: number,
+): Uint8Array {
+  const output = new Uint8Array(width * height * 3);
+  const unitsX = Math.ceil(width / subX);
+  const unitsY = Math.ceil(height / subY);
+  const unitSize = subX * subY + 2;
+
+  for (let uy = 0; uy < unitsY; uy++) {
+    for (let ux = 0; ux < unitsX; ux++) {
+      const unit = (uy * unitsX + ux) * unitSize;
+      const cb = bytes[unit + subX * subY];
+      const cr = bytes[unit + subX * subY + 1];
+      for (let sy = 0; sy < subY; sy++) {
+        const y = uy * subY + sy;
+        if (y >= height) break;
+        for (let sx = 0; sx < subX; sx++) {
+          const x = ux * subX + sx;
+          if (x >= width) break;
+          const target = (y * width + x) * 3;
+          output[target] = bytes[unit + sy * subX + sx];
+          output[target + 1] = cb;
+          output[target + 2] = cr;
+        }
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Number of bytes of subsampled YCbCr data
+ *
+ * @see {@link upsampleYCbCr}
+ */
+export function getYCbCrByteLength(width: number, height: number, subX: number, subY: number): number {
+  return Math.ceil(width / subX) * Math.ceil(height / subY) * (subX * subY + 2);
+}
+
+/**
+ * Convert YCbCr samples into RGBA
+ *
+ * @param raster samples interleaved `YCbCrYCbCr`
+ * @param options coefficients and reference black and white
+ */
+export function ycbcrToRgba(raster: DecodedRaster, options: YCbCrOptions = DefaultYCbCrOptions): RgbaRaster {
+  const { width, height, samplesPerPixel } = raster;
+  const [lumaRed, lumaGreen, lumaBlue] = options.coefficients;
+  const [yBlack, yWhite, cbBlack, cbWhite, crBlack, crWhite] = options.referenceBlackWhite;
+  const pixelCount = width * height;
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const source = i * samplesPerPixel;
+    const y = ((Number(raster.pixels[source]) - yBlack) * 255) / (yWhite - yBlack);
+    const cb = ((Number(raster.pixels[source + 1]) - cbBlack) * 127) / (cbWhite - cbBlack);
+    const cr = ((Number(raster.pixels[source + 2]) - crBlack) * 127) / (crWhite - crBlack);
+
+    const r = y + cr * (2 - 2 * lumaRed);
+    const b = y + cb * (2 - 2 * lumaBlue);
+    const g = (y - lumaBlue * b - lumaRed * r) / lumaGreen;
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width, height, pixels };
+}
+
+/**
+ * Convert 8 bit CMYK samples into RGBA
+ *
+ * @param raster samples interleaved `CMYKCMYK`
+ */
+export function cmykToRgba(raster: DecodedRaster): RgbaRaster {
+  const { width, height, samplesPerPixel } = raster;
+  const pixelCount = width * height;
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const source = i * samplesPerPixel;
+    const k = 255 - Number(raster.pixels[source + 3]);
+    pixels[i * 4] = ((255 - Number(raster.pixels[source])) * k) / 255;
+    pixels[i * 4 + 1] = ((255 - Number(raster.pixels[source + 1])) * k) / 255;
+    pixels[i * 4 + 2] = ((255 - Number(raster.pixels[source + 2])) * k) / 255;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width, height, pixels };
+}
+
+/** D65 reference white */
+const WhiteX = 0.95047;
+const WhiteY = 1;
+const WhiteZ = 1.08883;
+
+/** Convert a linear sRGB value into a 8 bit gamma corrected value */
+function toSrgb(linear: number): number {
+  const value = linear <= 0.0031308 ? 12.92 * linear : 1.055 * Math.pow(linear, 1 / 2.4) - 0.055;
+  return value * 255;
+}
+
+/** Inverse of the CIE L*a*b* companding function */
+function labInverse(t: number): number {
+  return t > 6 / 29 ? t * t * t : 3 * (6 / 29) * (6 / 29) * (t - 4 / 29);
+}
+
+/**
+ * Convert 8 bit CIE L*a*b* samples into RGBA using a D65 white point
+ *
+ * L* is scaled from `0-255` to `0-100`, {@link PhotometricInterpretation.CieLab} stores a* and b* as signed values
+ * while {@link PhotometricInterpretation.IccLab} stores them offset by 128
+ *
+ * @param raster samples interleaved `LabLab`
+ * @param isIccLab are a* and b* offset by 128
+ */
+export function labToRgba(raster: DecodedRaster, isIccLab = false): RgbaRaster {
+  const { width, height, samplesPerPixel } = raster;
+  const pixelCount = width * height;
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const source = i * samplesPerPixel;
+    const l = (Number(raster.pixels[source]) * 100) / 255;
+    let a = Number(raster.pixels[source + 1]);
+    let b = Number(raster.pixels[source + 2]);
+    if (isIccLab) {
+      a -= 128;
+      b -= 128;
+    } else {
+      // Signed values stored in unsigned samples
+      if (a > 127) a -= 256;
+      if (b > 127) b -= 256;
+    }
+
+    const fy = (l + 16) / 116;
+    const x = WhiteX * labInverse(fy + a / 500);
+    const y = WhiteY * labInverse(fy);
+    const z = WhiteZ * labInverse(fy - b / 200);
+
+    pixels[i * 4] = toSrgb(3.2404542 * x - 1.5371385 * y - 0.4985314 * z);
+    pixels[i * 4 + 1] = toSrgb(-0.969266 * x + 1.8760108 * y + 0.041556 * z);
+    pixels[i * 4 + 2] = toSrgb(0.0556434 * x - 0.2040259 * y + 1.0572252 * z);
+    pixels[i * 4 + 3] = 255;
+  }
+  return { width, height, pixels };
+}
+
+/**
+ * Convert RGB or grayscale samples into RGBA
+ *
+ * @param raster samples interleaved by pixel, a extra sample after the color samples is used as alpha
+ * @param colorSamples number of color samples, 3 for RGB and 1 for grayscale
+ * @param maxValue value of a sample that is full intensity eg 255 for 8 bit samples
+ * @param isInverted is 0 full intensity, used by {@link PhotometricInterpretation.MinIsWhite}
+ */
+export function colorToRgba(
+  raster: DecodedRaster,
+  colorSamples: number,
+  maxValue = 255,
+  isInverted = false,
+): RgbaRaster {
+  const { width, height, samplesPerPixel } = raster;
+  const pixelCount = width * height;
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  const hasAlpha = samplesPerPixel > colorSamples;
+  const scale = 255 / maxValue;
+
+  for (let i = 0; i < pixelCount; i++) {
+    const source = i * samplesPerPixel;
+    for (let c = 0; c < 3; c++) {
+      const value = Number(raster.pixels[source + (colorSamples === 1 ? 0 : c)]) * scale;
+      pixels[i * 4 + c] = isInverted ? 255 - value : value;
+    }
+    pixels[i * 4 + 3] = hasAlpha ? Number(raster.pixels[source + colorSamples]) * scale : 255;
+  }
+  return { width, height, pixels };
+}
@@ -0,0 +1,154 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffMimeType } from '../const/tiff.mime.js';
+import { PhotometricInterpretation, PlanarConfiguration, Predictor, SampleFormat } from '../const/tiff.tag.value.js';
+import { SourceFetchOptions } from '../source.js';
+import { getYCbCrByteLength, upsampleYCbCr } from './color.js';
+import { decompress } from './decompress.js';
+import { undoFloatingPointPredictor, undoHorizontalPredictor } from './predictor.js';
+import { getSampleType, readSamples, SampleType, TypedArray } from './sample.js';
+
+/** Pixels decoded from a tile or strip */
+export interface DecodedRaster {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /**
+   * Number of samples for each pixel, samples are interleaved `RGBRGBRGB`
+   *
+   * Complex samples count as two samples, the real value followed by the imaginary value
+   */
+  samplesPerPixel: number;
+  /** Samples for every pixel, row by row */
+  pixels: TypedArray;
+}
+
+/**
+ * Find how to read the samples of a image
+ *
+ * @throws if the samples of the image have different formats or bit depths
+ */
+export function getImageSampleType(image: CogTiffImage): SampleType {
+  const bitsPerSample = image.bitsPerSample ?? [1];
+  const sampleFormat = image.sampleFormat ?? [];
+  if (bitsPerSample.some((f) => f !== bitsPerSample[0])) {
+    throw new Error('Unsupported mixed bits per sample: ' + bitsPerSample);
+  }
+  if (sampleFormat.some((f) => f !== sampleFormat[0])) {
+    throw new Error('Unsupported mixed sample formats: ' + sampleFormat);
+  }
+  return getSampleType(sampleFormat[0], bitsPerSample[0]);
+}
+
+/**
+ * Decompress and decode the bytes of a tile or strip into pixels
+ *
+ * The typed array of the pixels is chosen from the image's {@link TiffTag.SampleFormat} and {@link TiffTag.BitsPerSample},
+ * any {@link TiffTag.Predictor} is reversed after decompression
+ *
+ * @param image image the bytes were read from
+ * @param data compressed bytes
+ * @param width width of the tile or strip in pixels
+ * @param height height of the tile or strip in pixels
+ * @param options signal to abort loading the YCbCr tags
+ */
+export async function decodeImageBytes(
+  image: CogTiffImage,
+  data: { mimeType: TiffMimeType; bytes: ArrayBuffer },
+  width: number,
+  height: number,
+  options?: SourceFetchOptions,
+): Promise<DecodedRaster> {
+  if (image.photometricInterpretation === PhotometricInterpretation.YCbCr) await image.loadYCbCrTags(options);
+  if (isSubsampledYCbCr(image)) return decodeSubsampledYCbCr(image, data, width, height);
+
+  // Each plane of a planar image is stored in its own tile
+  const isPlanar = image.planarConfiguration === PlanarConfiguration.Separate;
+  const samplesPerPixel = isPlanar ? 1 : image.samplesPerPixel ?? 1;
+
+  const type = getImageSampleType(image);
+  const samplesPerRow = width * samplesPerPixel;
+  const sampleCount = samplesPerRow * height;
+  // Rows of bit packed samples are padded to a whole number of bytes
+  const byteLength = Math.ceil((samplesPerRow * type.bitsPerSample) / 8) * height;
+
+  const bytes = await decompress(data.bytes, {
+    image,
+    mimeType: data.mimeType,
+    width,
+    height,
+    samplesPerPixel,
+    bitsPerSample: type.bitsPerSample,
+    byteLength,
+  });
+
+  // Real and imaginary values of complex samples are predicted as separate samples
+  const valuesPerPixel = samplesPerPixel * type.components;
+  const valueBytes = type.bitsPerSample / 8 / type.components;
+
+  const predictor = image.predictor;
+  if (predictor === Predictor.FloatingPoint) {
+    if (type.format !== SampleFormat.Float && type.format !== SampleFormat.ComplexFloat) {
+      throw new Error('Floating point predictor used on non float data');
+    }
+    // Floating point prediction always restores samples as big endian
+    const restored = undoFloatingPointPredictor(bytes, width, height, valuesPerPixel, valueBytes);
+    const pixels = readSamples(restored, type, sampleCount, false);
+    return { width, height, samplesPerPixel: valuesPerPixel, pixels };
+  }
+
+  const pixels = readSamples(bytes, type, sampleCount, image.tiff.isLittleEndian, samplesPerRow);
+  if (predictor === Predictor.Horizontal) {
+    if (type.format === SampleFormat.Float || type.format === SampleFormat.ComplexFloat) {
+      throw new Error(
+        'Horizontal predictor used on float data, float data should use the floating point predictor (3)',
+      );
+    }
+    // Differences of widened samples would not wrap at the sample's bit depth
+    if (type.isPacked || pixels.BYTES_PER_ELEMENT !== valueBytes) {
+      throw new Error('Unsupported horizontal predictor bits per sample: ' + type.bitsPerSample);
+    }
+    undoHorizontalPredictor(pixels, width, height, valuesPerPixel);
+  } else if (predictor !== Predictor.None) {
+    throw new Error('Unsupported predictor: ' + predictor);
+  }
+  return { width, height, samplesPerPixel: valuesPerPixel, pixels };
+}
+
+/** Subsampled YCbCr is stored as data units, unless it is JPEG compressed where the decoder handles the subsampling */
+function isSubsampledYCbCr(image: CogTiffImage): boolean {
+  if (image.photometricInterpretation !== PhotometricInterpretation.YCbCr) return false;
+  if (image.compression === TiffMimeType.Jpeg) return false;
+  if (image.planarConfiguration === PlanarConfiguration.Separate) return false;
+  const [subX, subY] = image.ycbcrSubSampling;
+  return subX !== 1 || subY !== 1;
+}
+
+/**
+ * Decompress subsampled YCbCr data units into one Y, Cb and Cr sample for every pixel
+ *
+ * @see {@link upsampleYCbCr}
+ */
+async function decodeSubsampledYCbCr(
+  image: CogTiffImage,
+  data: { mimeType: TiffMimeType; bytes: ArrayBuffer },
+  width: number,
+  height: number,
+): Promise<DecodedRaster> {
+  const type = getImageSampleType(image);
+  if (type.bitsPerSample !== 8) throw new Error('Unsupported YCbCr bits per sample: ' + type.bitsPerSample);
+  if (image.predictor !== Predictor.None) throw new Error('Unsupported predictor for YCbCr: ' + image.predictor);
+
+  const [subX, subY] = image.ycbcrSubSampling;
+  const bytes = await decompress(data.bytes, {
+    image,
+    mimeType: data.mimeType,
+    width,
+    height,
+    samplesPerPixel: 3,
+    bitsPerSample: 8,
+    byteLength: getYCbCrByteLength(width, height, subX, subY),
+  });
+  const pixels = upsampleYCbCr(new Uint8Array(bytes), width, height, subX, subY);
+  return { width, height, samplesPerPixel: 3, pixels };
+}
@@ -0,0 +1,221 @@
+/** Base lengths for length codes 257..285 */
+const LengthBase = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258,
+];
+/** Extra bits for length codes 257..285 */
+const LengthExtra = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+/** Base offsets for distance codes 0..29 */
+const DistanceBase = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145,
+  8193, 12289, 16385, 24577,
+];
+/** Extra bits for distance codes 0..29 */
+const DistanceExtra = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13,
+];
+/** Order that the code length code lengths are stored in a dynamic block */
+const CodeLengthOrder = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const MaxBits = 15;
+
+/** Canonical huffman table, number of symbols for each code length and the symbols ordered by code */
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+function buildHuffman(lengths: ArrayLike<number>, offset: number, count: number): Huffman {
+  const counts = new Uint16Array(MaxBits + 1);
+  for (let i = 0; i < count; i++) counts[lengths[offset + i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(MaxBits + 1);
+  for (let i = 1; i < MaxBits; i++) offsets[i + 1] = offsets[i] + counts[i];
+
+  const symbols = new Uint16Array(count);
+  for (let i = 0; i < count; i++) {
+    const length = lengths[offset + i];
+    if (length !== 0) symbols[offsets[length]++] = i;
+  }
+  return { counts, symbols };
+}
+
+let FixedTables: { lengths: Huffman; distances: Huffman } | null = null;
+function getFixedTables(): { lengths: Huffman; distances: Huffman } {
+  if (FixedTables) return FixedTables;
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  const distances = new Uint8Array(30).fill(5);
+  FixedTables = { lengths: buildHuffman(lengths, 0, 288), distances: buildHuffman(distances, 0, 30) };
+  return FixedTables;
+}
+
+/** Deflate bit reader and output buffer */
+class Inflater {
+  input: Uint8Array;
+  inOffset: number;
+  bitBuffer = 0;
+  bitCount = 0;
+
+  output: Uint8Array;
+  outOffset = 0;
+
+  constructor(input: Uint8Array, inOffset: number, byteLength: number) {
+    this.input = input;
+    this.inOffset = inOffset;
+    this.output = new Uint8Array(Math.max(byteLength, 1024));
+  }
+
+  bits(count: number): number {
+    let value = this.bitBuffer;
+    while (this.bitCount < count) {
+      if (this.inOffset >= this.input.length) throw new Error('Deflate: unexpected end of data');
+      value |= this.input[this.inOffset++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    this.bitBuffer = value >>> count;
+    this.bitCount -= count;
+    return value & ((1 << count) - 1);
+  }
+
+  /** Decode a symbol one bit at a time from a canonical huffman table */
+  decode(table: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length <= MaxBits; length++) {
+      code |= this.bits(1);
+      const count = table.counts[length];
+      if (code - count < first) return table.symbols[index + (code - first)];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Deflate: invalid huffman code');
+  }
+
+  /** Ensure there is room for `count` more bytes in the output */
+  reserve(count: number): void {
+    const required = this.outOffset + count;
+    if (required <= this.output.length) return;
+    const output = new Uint8Array(Math.max(required, this.output.length * 2));
+    output.set(this.output.subarray(0, this.outOffset));
+    this.output = output;
+  }
+
+  stored(): void {
+    // Stored blocks start on a byte boundary
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+    if (this.inOffset + 4 > this.input.length) throw new Error('Deflate: unexpected end of data');
+    const length = this.input[this.inOffset] | (this.input[this.inOffset + 1] << 8);
+    const lengthComplement = this.input[this.inOffset + 2] | (this.input[this.inOffset + 3] << 8);
+    if (length !== (~lengthComplement & 0xffff)) throw new Error('Deflate: invalid stored block length');
+    this.inOffset += 4;
+    if (this.inOffset + length > this.input.length) throw new Error('Deflate: unexpected end of data');
+    this.reserve(length);
+    this.output.set(this.input.subarray(this.inOffset, this.inOffset + length), this.outOffset);
+    this.inOffset += length;
+    this.outOffset += length;
+  }
+
+  codes(lengths: Huffman, distances: Huffman): void {
+    for (;;) {
+      const symbol = this.decode(lengths);
+      if (symbol < 256) {
+        this.reserve(1);
+        this.output[this.outOffset++] = symbol;
+        continue;
+      }
+      if (symbol === 256) return;
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LengthBase.length) throw new Error('Deflate: invalid length symbol');
+      const length = LengthBase[lengthIndex] + this.bits(LengthExtra[lengthIndex]);
+
+      const distanceIndex = this.decode(distances);
+      if (distanceIndex >= DistanceBase.length) throw new Error('Deflate: invalid distance symbol');
+      const distance = DistanceBase[distanceIndex] + this.bits(DistanceExtra[distanceIndex]);
+      if (distance > this.outOffset) throw new Error('Deflate: distance too far back');
+
+      this.reserve(length);
+      // Byte by byte as the source and target can overlap
+      for (let i = 0; i < length; i++) {
+        this.output[this.outOffset] = this.output[this.outOffset - distance];
+        this.outOffset++;
+      }
+    }
+  }
+
+  dynamic(): void {
+    const lengthCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeCount = this.bits(4) + 4;
+
+    const lengths = new Uint8Array(lengthCount + distanceCount);
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeCount; i++) codeLengths[CodeLengthOrder[i]] = this.bits(3);
+    const codeTable = buildHuffman(codeLengths, 0, 19);
+
+    let index = 0;
+    while (index < lengthCount + distanceCount) {
+      const symbol = this.decode(codeTable);
+      if (symbol < 16) {
+        lengths[index++] = symbol;
+        continue;
+      }
+      let value = 0;
+      let repeat = 0;
+      if (symbol === 16) {
+        if (index === 0) throw new Error('Deflate: repeat with no previous length');
+        value = lengths[index - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (index + repeat > lengthCount + distanceCount) throw new Error('Deflate: too many lengths');
+      lengths.fill(value, index, index + repeat);
+      index += repeat;
+    }
+
+    this.codes(buildHuffman(lengths, 0, lengthCount), buildHuffman(lengths, lengthCount, distanceCount));
+  }
+}
+
+/**
+ * Decompress deflate compressed bytes, with or without a zlib header
+ *
+ * @see RFC 1951 DEFLATE
+ * @see RFC 1950 ZLIB
+ *
+ * @param bytes compressed bytes
+ * @param byteLength expected number of bytes once decompressed, used to size the output
+ */
+export function decompressDeflate(bytes: ArrayBuffer, byteLength: number): ArrayBuffer {
+  const input = new Uint8Array(bytes);
+
+  // Zlib header: compression method 8 and a header checksum divisible by 31
+  let offset = 0;
+  if (input.length > 2 && (input[0] & 0x0f) === 8 && ((input[0] << 8) | input[1]) % 31 === 0) {
+    if (input[1] & 0x20) throw new Error('Deflate: preset dictionaries are not supported');
+    offset = 2;
+  }
+
+  const inflater = new Inflater(input, offset, byteLength);
+  let isLast = false;
+  while (!isLast) {
+    isLast = inflater.bits(1) === 1;
+    const type = inflater.bits(2);
+    if (type === 0) inflater.stored();
+    else if (type === 1) inflater.codes(getFixedTables().lengths, getFixedTables().distances);
+    else if (type === 2) inflater.dynamic();
+    else throw new Error('Deflate: invalid block type');
+  }
+
+  return inflater.output.buffer.slice(0, inflater.outOffset);
+}
@@ -0,0 +1,93 @@
+const ClearCode = 256;
+const EndOfInformation = 257;
+const MaxCodeLength = 12;
+const MaxCodes = 1 << MaxCodeLength;
+
+/**
+ * Decompress TIFF LZW compressed bytes
+ *
+ * TIFF LZW reads codes most significant bit first and increases the code length one code early
+ *
+ * @see TIFF 6.0 Section 13
+ *
+ * @param bytes compressed bytes
+ * @param byteLength expected number of bytes once decompressed
+ */
+export function decompressLzw(bytes: ArrayBuffer, byteLength: number): ArrayBuffer {
+  const input = new Uint8Array(bytes);
+  const output = new Uint8Array(byteLength);
+
+  // Each code is stored as the code before it and the last byte of the sequence
+  const prefix = new Uint16Array(MaxCodes);
+  const suffix = new Uint8Array(MaxCodes);
+  const firstByte = new Uint8Array(MaxCodes);
+  const lengths = new Uint16Array(MaxCodes);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    firstByte[i] = i;
+    lengths[i] = 1;
+  }
+
+  let nextCode = EndOfInformation + 1;
+  let codeLength = 9;
+  let oldCode = -1;
+  let bitOffset = 0;
+  let outOffset = 0;
+  const totalBits = input.length * 8;
+
+  /** Write the bytes of a code to the output */
+  function write(code: number): void {
+    const length = lengths[code];
+    let end = outOffset + length - 1;
+    // Walk back through the prefixes writing each byte from the end
+    while (code >= 0 && end >= outOffset) {
+      if (end < byteLength) output[end] = suffix[code];
+      end--;
+      code = code < 256 ? -1 : prefix[code];
+    }
+    outOffset += length;
+  }
+
+  while (bitOffset + codeLength <= totalBits && outOffset < byteLength) {
+    // Read the next code, most significant bit first
+    let code = 0;
+    for (let i = 0; i < codeLength; i++) {
+      const bit = (input[bitOffset >> 3] >> (7 - (bitOffset & 7))) & 1;
+      code = (code << 1) | bit;
+      bitOffset++;
+    }
+
+    if (code === EndOfInformation) break;
+    if (code === ClearCode) {
+      nextCode = EndOfInformation + 1;
+      codeLength = 9;
+      oldCode = -1;
+      continue;
+    }
+
+    if (oldCode === -1) {
+      if (code > 255) throw new Error(`Invalid LZW code: ${code}`);
+      write(code);
+      oldCode = code;
+      continue;
+    }
+
+    if (code > nextCode) throw new Error(`Invalid LZW code: ${code} > ${nextCode}`);
+    // Codes that are not in the table yet are the previous code plus its first byte
+    const newFirstByte = code < nextCode ? firstByte[code] : firstByte[oldCode];
+    if (nextCode < MaxCodes) {
+      prefix[nextCode] = oldCode;
+      suffix[nextCode] = newFirstByte;
+      firstByte[nextCode] = firstByte[oldCode];
+      lengths[nextCode] = lengths[oldCode] + 1;
+      nextCode++;
+    }
+    write(code);
+    oldCode = code;
+
+    // TIFF LZW increases the code length one code early
+    if (nextCode >= (1 << codeLength) - 1 && codeLength < MaxCodeLength) codeLength++;
+  }
+
+  return output.buffer;
+}
@@ -0,0 +1,33 @@
+/**
+ * Decompress PackBits (Macintosh RLE) compressed bytes
+ *
+ * @see TIFF 6.0 Section 9
+ *
+ * @param bytes compressed bytes
+ * @param byteLength expected number of bytes once decompressed
+ */
+export function decompressPackBits(bytes: ArrayBuffer, byteLength: number): ArrayBuffer {
+  const input = new Uint8Array(bytes);
+  const output = new Uint8Array(byteLength);
+  let inOffset = 0;
+  let outOffset = 0;
+
+  while (inOffset < input.length && outOffset < byteLength) {
+    const header = (input[inOffset++] << 24) >> 24; // Int8
+    if (header >= 0) {
+      // Copy the next n + 1 bytes literally
+      const count = Math.min(header + 1, byteLength - outOffset, input.length - inOffset);
+      output.set(input.subarray(inOffset, inOffset + count), outOffset);
+      inOffset += header + 1;
+      outOffset += count;
+    } else if (header !== -128) {
+      // Repeat the next byte -n + 1 times
+      const count = Math.min(1 - header, byteLength - outOffset);
+      output.fill(input[inOffset++], outOffset, outOffset + count);
+      outOffset += count;
+    }
+    // -128 is a no-op
+  }
+
+  return output.buffer;
+}
@@ -0,0 +1,65 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffMimeType } from '../const/tiff.mime.js';
+import { decompressDeflate } from './decompress.deflate.js';
+import { decompressLzw } from './decompress.lzw.js';
+import { decompressPackBits } from './decompress.packbits.js';
+
+/** Information about the tile or strip that is being decompressed */
+export interface DecompressContext {
+  /** Image the bytes were read from */
+  image: CogTiffImage;
+  /** Compression of the bytes */
+  mimeType: TiffMimeType;
+  /** Width of the tile or strip in pixels */
+  width: number;
+  /** Height of the tile or strip in pixels */
+  height: number;
+  /** Number of samples stored for each pixel */
+  samplesPerPixel: number;
+  /** Number of bits used by each sample */
+  bitsPerSample: number;
+  /** Expected number of bytes once decompressed */
+  byteLength: number;
+}
+
+/**
+ * Convert compressed tile or strip bytes into uncompressed samples
+ *
+ * The returned bytes are in the byte order of the tiff
+ */
+export type Decompressor = (bytes: ArrayBuffer, ctx: DecompressContext) => ArrayBuffer | Promise<ArrayBuffer>;
+
+/**
+ * Decompressors used to decode pixels, keyed by compression
+ *
+ * None, LZW, Deflate and PackBits are supported out of the box,
+ * other compressions such as LERC, ZSTD, WEBP or JPEG XL can be registered
+ *
+ * @example
+ * ```typescript
+ * Decompressors.set(TiffMimeType.Zstd, (bytes) => zstd.decompress(new Uint8Array(bytes)).buffer);
+ * ```
+ */
+export const Decompressors: Map<TiffMimeType, Decompressor> = new Map([
+  [TiffMimeType.None, (bytes: ArrayBuffer): ArrayBuffer => bytes],
+  [TiffMimeType.Lzw, (bytes: ArrayBuffer, ctx: DecompressContext): ArrayBuffer => decompressLzw(bytes, ctx.byteLength)],
+  [
+    TiffMimeType.Deflate,
+    (bytes: ArrayBuffer, ctx: DecompressContext): ArrayBuffer => decompressDeflate(bytes, ctx.byteLength),
+  ],
+  [
+    TiffMimeType.PackBits,
+    (bytes: ArrayBuffer, ctx: DecompressContext): ArrayBuffer => decompressPackBits(bytes, ctx.byteLength),
+  ],
+]);
+
+/**
+ * Decompress bytes using the registered {@link Decompressors}
+ *
+ * @throws if no decompressor is registered for the compression
+ */
+export async function decompress(bytes: ArrayBuffer, ctx: DecompressContext): Promise<ArrayBuffer> {
+  const decompressor = Decompressors.get(ctx.mimeType);
+  if (decompressor == null) throw new Error('Unsupported compression for decoding: ' + ctx.mimeType);
+  return decompressor(bytes, ctx);
+}
@@ -0,0 +1,73 @@
+import { TypedArray } from './sample.js';
+
+/**
+ * Undo horizontal differencing (Predictor=2) of integer samples in place
+ *
+ * Each sample is stored as the difference from the same sample of the previous pixel in the row,
+ * typed arrays wrap on overflow so adding the differences back together gives the original values
+ *
+ * @param pixels samples to update
+ * @param width width of each row in pixels
+ * @param height number of rows
+ * @param samplesPerPixel number of samples interleaved in each pixel
+ */
+export function undoHorizontalPredictor(
+  pixels: TypedArray,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+): void {
+  const rowSize = width * samplesPerPixel;
+  const isBigInt = pixels instanceof BigInt64Array || pixels instanceof BigUint64Array;
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowSize;
+    for (let i = rowStart + samplesPerPixel; i < rowStart + rowSize; i++) {
+      if (isBigInt) (pixels as BigInt64Array)[i] += (pixels as BigInt64Array)[i - samplesPerPixel];
+      else (pixels as Uint8Array)[i] += (pixels as Uint8Array)[i - samplesPerPixel];
+    }
+  }
+}
+
+/**
+ * Undo floating point prediction (Predictor=3)
+ *
+ * Each row has its bytes split into planes, most significant byte first, then horizontally differenced byte by byte
+ *
+ * @see http://chriscox.org/TIFFTN3d1.pdf
+ *
+ * @param bytes decompressed bytes
+ * @param width width of each row in pixels
+ * @param height number of rows
+ * @param samplesPerPixel number of samples interleaved in each pixel
+ * @param bytesPerSample number of bytes in each sample
+ *
+ * @returns samples in big endian byte order
+ */
+export function undoFloatingPointPredictor(
+  bytes: ArrayBuffer,
+  width: number,
+  height: number,
+  samplesPerPixel: number,
+  bytesPerSample: number,
+): ArrayBuffer {
+  const input = new Uint8Array(bytes);
+  const samplesPerRow = width * samplesPerPixel;
+  const rowSize = samplesPerRow * bytesPerSample;
+  const output = new Uint8Array(rowSize * height);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * rowSize;
+    if (rowStart + rowSize > input.length) break;
+    // Copy the row as the decompressed bytes may be shared with the source
+    const row = input.slice(rowStart, rowStart + rowSize);
+    for (let i = samplesPerPixel; i < rowSize; i++) row[i] = (row[i] + row[i - samplesPerPixel]) & 0xff;
+
+    // Interleave the byte planes back into samples
+    for (let s = 0; s < samplesPerRow; s++) {
+      for (let b = 0; b < bytesPerSample; b++) {
+        output[rowStart + s * bytesPerSample + b] = row[b * samplesPerRow + s];
+      }
+    }
+  }
+  return output.buffer;
+}
@@ -0,0 +1,76 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { DecodedRaster, getImageSampleType } from './decode.js';
+import { copySamples } from './sample.js';
+import type { RasterInterleave } from './window.js';
+
+/** Every band of a tile or strip */
+export interface RasterTile extends DecodedRaster {
+  /** Order of the samples in {@link pixels} */
+  interleave: RasterInterleave;
+}
+
+/**
+ * Combine the planes of a tile or strip into one raster with every band
+ *
+ * {@link PlanarConfiguration.Contig} images have one plane that contains every band,
+ * {@link PlanarConfiguration.Separate} images have one plane for each band
+ *
+ * @param image image the planes were read from
+ * @param planes decoded planes, null for empty planes
+ * @param interleave order of the output samples
+ * @param nodata value for the bands of empty planes
+ * @returns every band, null if all of the planes are empty
+ */
+export function combinePlanes(
+  image: CogTiffImage,
+  planes: (DecodedRaster | null)[],
+  interleave: RasterInterleave,
+  nodata: number,
+): RasterTile | null {
+  const first = planes.find((f) => f != null);
+  if (first == null) return null;
+  const { width, height } = first;
+  const pixelCount = width * height;
+
+  // Only one plane, samples are already interleaved by pixel
+  if (planes.length === 1) {
+    const samplesPerPixel = first.samplesPerPixel;
+    if (interleave === 'pixel' || samplesPerPixel === 1) return { ...first, interleave };
+    const pixels = new (getImageSampleType(image).array)(first.pixels.length);
+    for (let i = 0; i < pixelCount; i++) {
+      for (let s = 0; s < samplesPerPixel; s++) pixels[s * pixelCount + i] = first.pixels[i * samplesPerPixel + s];
+    }
+    return { width, height, samplesPerPixel, interleave, pixels };
+  }
+
+  // Complex planes have two values for each pixel
+  const valuesPerPlane = first.samplesPerPixel;
+  const samplesPerPixel = planes.length * valuesPerPlane;
+  const type = getImageSampleType(image);
+  const pixels = new type.array(pixelCount * samplesPerPixel);
+  for (let band = 0; band < planes.length; band++) {
+    const plane = planes[band];
+    const start = band * valuesPerPlane;
+    if (plane == null) {
+      // Fill empty planes with nodata
+      if (nodata === 0) continue;
+      if (pixels instanceof BigInt64Array || pixels instanceof BigUint64Array) continue;
+      for (let s = start; s < start + valuesPerPlane; s++) {
+        if (interleave === 'band') pixels.fill(nodata, s * pixelCount, (s + 1) * pixelCount);
+        else for (let i = 0; i < pixelCount; i++) pixels[i * samplesPerPixel + s] = nodata;
+      }
+      continue;
+    }
+    if (interleave === 'band' && valuesPerPlane === 1) {
+      copySamples(pixels, plane.pixels, band * pixelCount);
+      continue;
+    }
+    for (let i = 0; i < pixelCount; i++) {
+      for (let v = 0; v < valuesPerPlane; v++) {
+        const target = interleave === 'band' ? (start + v) * pixelCount + i : i * samplesPerPixel + start + v;
+        pixels[target] = plane.pixels[i * valuesPerPlane + v];
+      }
+    }
+  }
+  return { width, height, samplesPerPixel, interleave, pixels };
+}
@@ -0,0 +1,142 @@
+import type { CogTiff } from '../cog.tiff.js';
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { GeoTransform } from '../geo/geo.transform.js';
+import { SourceFetchOptions } from '../source.js';
+import { Size } from '../vector.js';
+import { resample, ResampleMethod } from './resample.js';
+import { TypedArray } from './sample.js';
+import { RasterInterleave } from './window.js';
+
+export interface ReadRegionOptions extends SourceFetchOptions {
+  /** How to resample the source pixels into the output grid, defaults to `nearest` */
+  resampling?: ResampleMethod;
+  /** Order of the output samples, defaults to `pixel` */
+  interleave?: RasterInterleave;
+  /**
+   * Value used for pixels that are outside of the image or in empty tiles, defaults to {@link CogTiffImage.gdalNoData}
+   *
+   * Source pixels with this value are ignored when resampling
+   */
+  nodata?: number;
+}
+
+/** Pixels read from a region of a tiff */
+export interface RasterRegion extends Size {
+  /** Image the pixels were read from */
+  image: CogTiffImage;
+  /** Bounding box of the region [minX, minY, maxX, maxY] */
+  bbox: [number, number, number, number];
+  /** Number of samples for each pixel */
+  samplesPerPixel: number;
+  /** Order of the samples in {@link pixels} */
+  interleave: RasterInterleave;
+  /** Samples for every pixel in the region */
+  pixels: TypedArray;
+}
+
+/**
+ * Read a region of a tiff into a grid of the requested size
+ *
+ * The overview that has the closest resolution to the output grid without being coarser is used
+ *
+ * @param tiff tiff to read from
+ * @param bbox region to read [minX, minY, maxX, maxY] in the CRS of the tiff
+ * @param size output size in pixels
+ */
+export async function readRegion(
+  tiff: CogTiff,
+  bbox: [number, number, number, number],
+  size: Size,
+  options: ReadRegionOptions = {},
+): Promise<RasterRegion> {
+  if (size.width <= 0 || size.height <= 0) {
+    throw new Error(`Invalid region size width:${size.width} height:${size.height}`);
+  }
+  const [minX, minY, maxX, maxY] = bbox;
+  if (minX >= maxX || minY >= maxY) throw new Error('Invalid region bbox: ' + bbox);
+
+  const image = tiff.getImageByResolution((maxX - minX) / size.width, (maxY - minY) / size.height);
+  // Region in fractional pixels of the image, all four corners are used as rotated or skewed images
+  // may have any corner of the bbox on the edge of the region
+  const corners = [
+    image.toPixel(minX, minY),
+    image.toPixel(minX, maxY),
+    image.toPixel(maxX, minY),
+    image.toPixel(maxX, maxY),
+  ];
+  const pixelXs = corners.map((c) => c[0]);
+  const pixelYs = corners.map((c) => c[1]);
+  const box = {
+    x: Math.min(...pixelXs),
+    y: Math.min(...pixelYs),
+    width: Math.max(...pixelXs) - Math.min(...pixelXs),
+    height: Math.max(...pixelYs) - Math.min(...pixelYs),
+  };
+
+  // Read a extra pixel around the edges for bilinear resampling, only pixels inside of the image are read
+  // as resampling fills any pixels outside of the window with nodata, at least one pixel is always read
+  const imageSize = image.size;
+  const windowX = clamp(Math.floor(box.x) - 1, 0, imageSize.width - 1);
+  const windowY = clamp(Math.floor(box.y) - 1, 0, imageSize.height - 1);
+  const window = {
+    x: windowX,
+    y: windowY,
+    width: clamp(Math.ceil(box.x + box.width) + 1, windowX + 1, imageSize.width) - windowX,
+    height: clamp(Math.ceil(box.y + box.height) + 1, windowY + 1, imageSize.height) - windowY,
+  };
+
+  const nodata = options.nodata ?? image.gdalNoData;
+  const source = await image.readWindow(window, {
+    interleave: options.interleave,
+    nodata: nodata ?? 0,
+    signal: options.signal,
+  });
+  const output = resample(source, {
+    method: options.resampling ?? 'nearest',
+    box: { ...box, x: box.x - windowX, y: box.y - windowY },
+    transform: getResampleTransform(image, bbox, size, windowX, windowY),
+    size,
+    nodata,
+  });
+
+  return { image, bbox, ...output };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+/**
+ * Transform from output pixels to pixels of the window read from the image
+ *
+ * Only needed when the image is rotated or skewed, as every output pixel center then has to be mapped
+ * through {@link CogTiffImage.toPixel} rather than scaling the bounding box of the region
+ *
+ * @returns the transform, undefined if the image is axis aligned
+ */
+function getResampleTransform(
+  image: CogTiffImage,
+  bbox: [number, number, number, number],
+  size: Size,
+  windowX: number,
+  windowY: number,
+): GeoTransform | undefined {
+  const gt = image.geoTransform;
+  if (gt[2] === 0 && gt[4] === 0) return undefined;
+
+  const [minX, minY, maxX, maxY] = bbox;
+  const resolutionX = (maxX - minX) / size.width;
+  const resolutionY = (maxY - minY) / size.height;
+  // Output pixels start at the top left of the bbox
+  const origin = image.toPixel(minX, maxY);
+  const right = image.toPixel(minX + resolutionX, maxY);
+  const down = image.toPixel(minX, maxY - resolutionY);
+  return [
+    origin[0] - windowX,
+    right[0] - origin[0],
+    down[0] - origin[0],
+    origin[1] - windowY,
+    right[1] - origin[1],
+    down[1] - origin[1],
+  ];
+}
@@ -0,0 +1,176 @@
+import { applyGeoTransform, GeoTransform, invertGeoTransform } from '../geo/geo.transform.js';
+import { Size } from '../vector.js';
+import { toSampleNoData, TypedArray } from './sample.js';
+import { RasterInterleave } from './window.js';
+
+/**
+ * How to compute output pixels from the source pixels
+ *
+ * - `nearest`: value of the closest source pixel
+ * - `bilinear`: weighted value of the four closest source pixels
+ * - `average`: mean of every source pixel covered by the output pixel
+ */
+export type ResampleMethod = 'nearest' | 'bilinear' | 'average';
+
+/** Pixels to be resampled */
+export interface ResampleSource extends Size {
+  samplesPerPixel: number;
+  interleave: RasterInterleave;
+  pixels: TypedArray;
+}
+
+export interface ResampleOptions {
+  method: ResampleMethod;
+  /** Area of the source to resample in source pixel coordinates, may be fractional */
+  box: { x: number; y: number; width: number; height: number };
+  /**
+   * Affine transform from output pixel to source pixel coordinates, used instead of {@link box}
+   * so sources that are rotated or skewed relative to the output can be resampled
+   */
+  transform?: GeoTransform;
+  /** Output size in pixels */
+  size: Size;
+  /** Source samples with this value are ignored when computing bilinear or average values */
+  nodata?: number | null;
+  /** Value for output pixels that have no valid source pixels, defaults to {@link nodata} or 0 */
+  fill?: number;
+}
+
+/** Find the offset of a sample inside a raster */
+function sampleIndex(raster: ResampleSource, x: number, y: number, sample: number): number {
+  if (raster.interleave === 'pixel') return (y * raster.width + x) * raster.samplesPerPixel + sample;
+  return sample * raster.width * raster.height + y * raster.width + x;
+}
+
+/**
+ * Resample a area of a raster into a new grid
+ *
+ * The output has the same sample type and interleave as the source, integer outputs are rounded
+ *
+ * @param source raster to resample
+ * @param options area and method to resample with
+ */
+export function resample(source: ResampleSource, options: ResampleOptions): ResampleSource {
+  const { box, size, method } = options;
+  const isBigInt = source.pixels instanceof BigInt64Array || source.pixels instanceof BigUint64Array;
+  if (isBigInt && method !== 'nearest') throw new Error(`Unable to resample 64 bit integers with: ${method}`);
+
+  const spp = source.samplesPerPixel;
+  const output: ResampleSource = {
+    width: size.width,
+    height: size.height,
+    samplesPerPixel: spp,
+    interleave: source.interleave,
+    pixels: new (source.pixels.constructor as new (length: number) => TypedArray)(size.width * size.height * spp),
+  };
+  const nodata = options.nodata == null ? null : toSampleNoData(source.pixels, options.nodata);
+  const fill = options.fill ?? nodata ?? 0;
+  const isFloat = source.pixels instanceof Float32Array || source.pixels instanceof Float64Array;
+  const src = source.pixels as Float64Array;
+  const dst = output.pixels as Float64Array;
+  const gt: GeoTransform = options.transform ?? [box.x, box.width / size.width, 0, box.y, 0, box.height / size.height];
+  const isAxisAligned = gt[2] === 0 && gt[4] === 0;
+  const inverse = isAxisAligned ? null : invertGeoTransform(gt);
+
+  /** Read a sample, null if it is outside of the source or is nodata */
+  function read(x: number, y: number, s: number): number | null {
+    if (x < 0 || y < 0 || x >= source.width || y >= source.height) return null;
+    const value = src[sampleIndex(source, x, y, s)];
+    if (value === nodata || (nodata != null && isNaN(nodata) && isNaN(value))) return null;
+    return value;
+  }
+
+  function write(x: number, y: number, s: number, value: number | null): void {
+    if (value == null) value = fill;
+    else if (!isFloat) value = Math.round(value);
+    const target = sampleIndex(output, x, y, s);
+    if (isBigInt) (output.pixels as BigInt64Array)[target] = BigInt(Number.isInteger(value) ? value : 0);
+    else dst[target] = value;
+  }
+
+  /** Is the center of a source pixel inside of a output pixel */
+  function isCovered(sx: number, sy: number, x: number, y: number): boolean {
+    if (inverse == null) return true;
+    const [ox, oy] = applyGeoTransform(inverse, sx + 0.5, sy + 0.5);
+    return ox >= x && ox < x + 1 && oy >= y && oy < y + 1;
+  }
+
+  for (let y = 0; y < size.height; y++) {
+    for (let x = 0; x < size.width; x++) {
+      // Center of the output pixel in source pixel coordinates
+      const [centerX, centerY] = applyGeoTransform(gt, x + 0.5, y + 0.5);
+
+      if (method === 'nearest') {
+        const sx = Math.floor(centerX);
+        const sy = Math.floor(centerY);
+        const isInside = sx >= 0 && sy >= 0 && sx < source.width && sy < source.height;
+        for (let s = 0; s < spp; s++) {
+          const target = sampleIndex(output, x, y, s);
+          if (isInside) output.pixels[target] = source.pixels[sampleIndex(source, sx, sy, s)];
+          else write(x, y, s, null);
+        }
+        continue;
+      }
+
+      if (method === 'bilinear') {
+        const fx = centerX - 0.5;
+        const fy = centerY - 0.5;
+        const x0 = Math.floor(fx);
+        const y0 = Math.floor(fy);
+        const dx = fx - x0;
+        const dy = fy - y0;
+        const weights = [(1 - dx) * (1 - dy), dx * (1 - dy), (1 - dx) * dy, dx * dy];
+        for (let s = 0; s < spp; s++) {
+          const values = [read(x0, y0, s), read(x0 + 1, y0, s), read(x0, y0 + 1, s), read(x0 + 1, y0 + 1, s)];
+          let total = 0;
+          let weight = 0;
+          for (let i = 0; i < 4; i++) {
+            const value = values[i];
+            if (value == null || weights[i] === 0) continue;
+            total += value * weights[i];
+            weight += weights[i];
+          }
+          write(x, y, s, weight === 0 ? null : total / weight);
+        }
+        continue;
+      }
+
+      // Average every source pixel whose center is inside the output pixel
+      const corners = [
+        applyGeoTransform(gt, x, y),
+        applyGeoTransform(gt, x + 1, y),
+        applyGeoTransform(gt, x, y + 1),
+        applyGeoTransform(gt, x + 1, y + 1),
+      ];
+      const startX = Math.round(Math.min(...corners.map((c) => c[0])));
+      const startY = Math.round(Math.min(...corners.map((c) => c[1])));
+      // Always include at least one pixel when upsampling
+      const endX = Math.max(startX + 1, Math.round(Math.max(...corners.map((c) => c[0]))));
+      const endY = Math.max(startY + 1, Math.round(Math.max(...corners.map((c) => c[1]))));
+      for (let s = 0; s < spp; s++) {
+        let total = 0;
+        let count = 0;
+        let covered = 0;
+        for (let sy = startY; sy < endY; sy++) {
+          for (let sx = startX; sx < endX; sx++) {
+            if (!isCovered(sx, sy, x, y)) continue;
+            covered++;
+            const value = read(sx, sy, s);
+            if (value == null) continue;
+            total += value;
+            count++;
+          }
+        }
+        // Rotated output pixels smaller than a source pixel may not cover any source pixel centers
+        if (covered === 0) {
+          const value = read(Math.floor(centerX), Math.floor(centerY), s);
+          write(x, y, s, value);
+        } else {
+          write(x, y, s, count === 0 ? null : total / count);
+        }
+      }
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,128 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffMimeType } from '../const/tiff.mime.js';
+import { PhotometricInterpretation, SampleFormat } from '../const/tiff.tag.value.js';
+import { SourceFetchOptions } from '../source.js';
+import { cmykToRgba, colorToRgba, labToRgba, ycbcrToRgba } from './color.js';
+import { DecodedRaster, getImageSampleType } from './decode.js';
+
+/** 8 bit RGBA pixels ready to be drawn */
+export interface RgbaRaster {
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Four bytes for every pixel `RGBARGBA` */
+  pixels: Uint8ClampedArray;
+}
+
+/**
+ * Scale a {@link TiffTag.ColorMap} into a 8 bit RGBA color table
+ *
+ * The ColorMap stores all the red values, then all the green values then all the blue values as 16 bit numbers.
+ * Some writers store 8 bit values in the ColorMap, if no value is larger than 255 the values are used as is
+ *
+ * @param colorMap values of the ColorMap tag
+ * @returns four bytes for each color `RGBARGBA`, every color is opaque
+ */
+export function toColorTable(colorMap: ArrayLike<number>): Uint8Array {
+  const count = Math.floor(colorMap.length / 3);
+  let isEightBit = true;
+  for (let i = 0; i < count * 3; i++) {
+    if (colorMap[i] > 255) {
+      isEightBit = false;
+      break;
+    }
+  }
+  const scale = isEightBit ? 1 : 257;
+
+  const table = new Uint8Array(count * 4);
+  for (let i = 0; i < count; i++) {
+    table[i * 4] = Math.round(colorMap[i] / scale);
+    table[i * 4 + 1] = Math.round(colorMap[count + i] / scale);
+    table[i * 4 + 2] = Math.round(colorMap[count * 2 + i] / scale);
+    table[i * 4 + 3] = 255;
+  }
+  return table;
+}
+
+/**
+ * Expand palette indexes into RGBA
+ *
+ * Indexes that are nodata or are not in the color table are transparent
+ *
+ * @param raster decoded palette indexes, one sample per pixel
+ * @param colorTable color table from {@link toColorTable}
+ * @param nodata index that should be transparent
+ */
+export function expandPalette(raster: DecodedRaster, colorTable: Uint8Array, nodata: number | null = null): RgbaRaster {
+  const { width, height } = raster;
+  const pixelCount = width * height;
+  const colorCount = colorTable.length / 4;
+  const pixels = new Uint8ClampedArray(pixelCount * 4);
+  for (let i = 0; i < pixelCount; i++) {
+    const index = Number(raster.pixels[i * raster.samplesPerPixel]);
+    if (index === nodata || !Number.isInteger(index) || index < 0 || index >= colorCount) continue;
+    pixels[i * 4] = colorTable[index * 4];
+    pixels[i * 4 + 1] = colorTable[index * 4 + 1];
+    pixels[i * 4 + 2] = colorTable[index * 4 + 2];
+    pixels[i * 4 + 3] = colorTable[index * 4 + 3];
+  }
+  return { width, height, pixels };
+}
+
+/** Value of a sample at full intensity */
+function getMaxValue(image: CogTiffImage): number {
+  const type = getImageSampleType(image);
+  if (type.format === SampleFormat.Float) return 1;
+  if (type.format === SampleFormat.Int) return 2 ** (type.bitsPerSample - 1) - 1;
+  return 2 ** type.bitsPerSample - 1;
+}
+
+/**
+ * Convert decoded pixels into RGBA using the {@link PhotometricInterpretation} of the image
+ *
+ * Palette, grayscale, RGB, YCbCr, CMYK and CIE L*a*b* images are supported
+ *
+ * @param image image the pixels were read from
+ * @param raster decoded pixels interleaved by pixel
+ * @param options signal to abort loading the color table or YCbCr tags
+ * @throws if the photometric interpretation cannot be converted
+ */
+export async function toRgba(
+  image: CogTiffImage,
+  raster: DecodedRaster,
+  options?: SourceFetchOptions,
+): Promise<RgbaRaster> {
+  const photometric = image.photometricInterpretation;
+  switch (photometric) {
+    case PhotometricInterpretation.Palette: {
+      const colorTable = await image.fetchColorTable(options);
+      if (colorTable == null) throw new Error('Palette image has no ColorMap');
+      return expandPalette(raster, colorTable, image.gdalNoData);
+    }
+    case PhotometricInterpretation.MinIsBlack:
+    case PhotometricInterpretation.MinIsWhite: {
+      const isInverted = photometric === PhotometricInterpretation.MinIsWhite;
+      return colorToRgba(raster, 1, getMaxValue(image), isInverted);
+    }
+    case PhotometricInterpretation.Rgb:
+      return colorToRgba(raster, 3, getMaxValue(image));
+    case PhotometricInterpretation.YCbCr:
+      // JPEG decoders convert YCbCr to RGB while decompressing
+      if (image.compression === TiffMimeType.Jpeg) return colorToRgba(raster, 3);
+      await image.loadYCbCrTags(options);
+      return ycbcrToRgba(raster, {
+        coefficients: image.ycbcrCoefficients,
+        referenceBlackWhite: image.referenceBlackWhite,
+      });
+    case PhotometricInterpretation.Separated:
+      if (raster.samplesPerPixel < 4)
+        throw new Error('Unsupported separated image, samples: ' + raster.samplesPerPixel);
+      return cmykToRgba(raster);
+    case PhotometricInterpretation.CieLab:
+    case PhotometricInterpretation.IccLab:
+      return labToRgba(raster, photometric === PhotometricInterpretation.IccLab);
+    default:
+      throw new Error('Unsupported photometric interpretation for RGBA: ' + photometric);
+  }
+}
@@ -0,0 +1,272 @@
+import { SampleFormat } from '../const/tiff.tag.value.js';
+
+/** Typed arrays that decoded pixels can be stored in */
+export type TypedArray =
+  | Uint8Array
+  | Int8Array
+  | Uint16Array
+  | Int16Array
+  | Uint32Array
+  | Int32Array
+  | Float32Array
+  | Float64Array
+  | BigUint64Array
+  | BigInt64Array;
+
+/** Constructor for any of the {@link TypedArray}s */
+export interface TypedArrayConstructor {
+  new (length: number): TypedArray;
+  new (buffer: ArrayBuffer, byteOffset?: number, length?: number): TypedArray;
+  readonly BYTES_PER_ELEMENT: number;
+}
+
+/** How to read a single sample out of the decompressed bytes */
+export interface SampleType {
+  /** Sample format of the data, {@link SampleFormat.Void} is read as {@link SampleFormat.Uint} */
+  format: SampleFormat;
+  /** Number of bits in each sample, complex samples include both the real and imaginary parts */
+  bitsPerSample: number;
+  /** Number of values in each sample, complex samples have a real and a imaginary value */
+  components: number;
+  /**
+   * Samples are bit packed as they are not a multiple of 8 bits
+   *
+   * Packed samples are stored most significant bit first and each row starts on a byte boundary
+   */
+  isPacked: boolean;
+  /** Typed array used to store the samples, samples that do not fit a typed array are widened */
+  array: TypedArrayConstructor;
+  /**
+   * Read one value from a view
+   *
+   * @param offset byte offset of the value, or the bit offset if the samples are {@link isPacked}
+   */
+  read(view: DataView, offset: number, isLittleEndian: boolean): number | bigint;
+}
+
+type SampleReader = SampleType['read'];
+
+/**
+ * Copy samples into another typed array
+ *
+ * @param target array to copy into
+ * @param source samples to copy, must be bigints if the target is a bigint array
+ * @param offset index in the target to start writing at
+ */
+export function copySamples(target: TypedArray, source: TypedArray, offset = 0): void {
+  const isTargetBigInt = target instanceof BigInt64Array || target instanceof BigUint64Array;
+  if (isTargetBigInt) {
+    if (source instanceof BigInt64Array || source instanceof BigUint64Array) return target.set(source, offset);
+  } else if (!(source instanceof BigInt64Array || source instanceof BigUint64Array)) {
+    return target.set(source, offset);
+  }
+  throw new Error(`Unable to copy ${source.constructor.name} samples into ${target.constructor.name}`);
+}
+
+/** Is this javascript engine little endian */
+const IsLittleEndianPlatform = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/** Read a unsigned 24 bit integer */
+function getUint24(view: DataView, offset: number, isLittleEndian: boolean): number {
+  const a = view.getUint8(offset);
+  const b = view.getUint8(offset + 1);
+  const c = view.getUint8(offset + 2);
+  return isLittleEndian ? a | (b << 8) | (c << 16) : (a << 16) | (b << 8) | c;
+}
+
+/** Read `bits` bits starting at `bitOffset`, most significant bit first */
+function getBits(view: DataView, bitOffset: number, bits: number): number {
+  let value = 0;
+  let offset = bitOffset;
+  let remaining = bits;
+  while (remaining > 0) {
+    const bitInByte = offset & 7;
+    const count = Math.min(8 - bitInByte, remaining);
+    const chunk = (view.getUint8(offset >> 3) >> (8 - bitInByte - count)) & ((1 << count) - 1);
+    // Multiply rather than shift so 32 bit values are not read as negative numbers
+    value = value * 2 ** count + chunk;
+    offset += count;
+    remaining -= count;
+  }
+  return value;
+}
+
+/**
+ * Convert the bits of a small IEEE style float into a number
+ *
+ * Float16 has a 5 bit exponent and 10 bit mantissa,
+ * Float24 has a 7 bit exponent and a 16 bit mantissa
+ */
+function toFloat(value: number, exponentBits: number, mantissaBits: number): number {
+  const sign = value >= 2 ** (exponentBits + mantissaBits) ? -1 : 1;
+  const exponent = Math.floor(value / 2 ** mantissaBits) % 2 ** exponentBits;
+  const mantissa = value % 2 ** mantissaBits;
+  const bias = 2 ** (exponentBits - 1) - 1;
+  // Subnormal numbers
+  if (exponent === 0) return sign * 2 ** (1 - bias) * (mantissa / 2 ** mantissaBits);
+  if (exponent === 2 ** exponentBits - 1) return mantissa === 0 ? sign * Infinity : NaN;
+  return sign * 2 ** (exponent - bias) * (1 + mantissa / 2 ** mantissaBits);
+}
+
+/** Find the reader for a unsigned integer value of the given bit depth */
+function getUintReader(bits: number): SampleReader | null {
+  if (bits % 8 !== 0) {
+    if (bits >= 32) return null;
+    return (v, o) => getBits(v, o, bits);
+  }
+  if (bits === 8) return (v, o) => v.getUint8(o);
+  if (bits === 16) return (v, o, le) => v.getUint16(o, le);
+  if (bits === 24) return getUint24;
+  if (bits === 32) return (v, o, le) => v.getUint32(o, le);
+  if (bits === 64) return (v, o, le) => v.getBigUint64(o, le);
+  return null;
+}
+
+/** Find the reader for a signed integer value of the given bit depth */
+function getIntReader(bits: number): SampleReader | null {
+  if (bits % 8 !== 0) {
+    if (bits >= 32) return null;
+    return (v, o) => {
+      const value = getBits(v, o, bits);
+      return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+    };
+  }
+  if (bits === 8) return (v, o) => v.getInt8(o);
+  if (bits === 16) return (v, o, le) => v.getInt16(o, le);
+  if (bits === 24) return (v, o, le) => (getUint24(v, o, le) << 8) >> 8;
+  if (bits === 32) return (v, o, le) => v.getInt32(o, le);
+  if (bits === 64) return (v, o, le) => v.getBigInt64(o, le);
+  return null;
+}
+
+/** Find the reader for a floating point value of the given bit depth */
+function getFloatReader(bits: number): SampleReader | null {
+  if (bits === 16) return (v, o, le) => toFloat(v.getUint16(o, le), 5, 10);
+  if (bits === 24) return (v, o, le) => toFloat(getUint24(v, o, le), 7, 16);
+  if (bits === 32) return (v, o, le) => v.getFloat32(o, le);
+  if (bits === 64) return (v, o, le) => v.getFloat64(o, le);
+  return null;
+}
+
+/**
+ * Convert a nodata value into the value it has once stored as a sample
+ *
+ * GDAL stores nodata as a double, so Float32 samples only match it once it is rounded to the nearest Float32
+ * eg a nodata of `-9999.9` is stored as `-9999.900390625`
+ *
+ * @param pixels samples the nodata value is compared against
+ * @param nodata nodata value
+ */
+export function toSampleNoData(pixels: TypedArray, nodata: number): number {
+  return pixels instanceof Float32Array ? Math.fround(nodata) : nodata;
+}
+
+/** Smallest typed array that can store a value */
+function getArray(format: SampleFormat, bits: number): TypedArrayConstructor {
+  if (format === SampleFormat.Float || format === SampleFormat.ComplexFloat) {
+    return bits === 64 ? Float64Array : Float32Array;
+  }
+  const isSigned = format === SampleFormat.Int || format === SampleFormat.ComplexInt;
+  if (bits <= 8) return isSigned ? Int8Array : Uint8Array;
+  if (bits <= 16) return isSigned ? Int16Array : Uint16Array;
+  if (bits <= 32) return isSigned ? Int32Array : Uint32Array;
+  return isSigned ? BigInt64Array : BigUint64Array;
+}
+
+/**
+ * Find how to read samples of the given format and bit depth
+ *
+ * | Format | Bits per sample | Array |
+ * | ------ | --------------- | ----- |
+ * | Uint, Int | 1 - 31 | 8, 16 or 32 bit integers, samples that are not a multiple of 8 bits are unpacked |
+ * | Uint, Int | 32, 64 | 32 or 64 bit integers |
+ * | Float | 16, 24, 32 | Float32Array, 16 and 24 bit floats are widened |
+ * | Float | 64 | Float64Array |
+ * | ComplexInt | 32, 64 | Int16Array or Int32Array with real and imaginary values |
+ * | ComplexFloat | 32, 64, 128 | Float32Array or Float64Array with real and imaginary values |
+ *
+ * @param format sample format from {@link TiffTag.SampleFormat}, defaults to {@link SampleFormat.Uint}
+ * @param bitsPerSample number of bits per sample from {@link TiffTag.BitsPerSample}
+ *
+ * @throws if the format and bit depth combination is not supported
+ */
+export function getSampleType(format: SampleFormat | null | undefined, bitsPerSample: number): SampleType {
+  const sampleFormat = format == null || format === SampleFormat.Void ? SampleFormat.Uint : format;
+  const isComplex = sampleFormat === SampleFormat.ComplexInt || sampleFormat === SampleFormat.ComplexFloat;
+  const components = isComplex ? 2 : 1;
+  const bits = bitsPerSample / components;
+
+  let read: SampleReader | null = null;
+  if (bitsPerSample > 0 && Number.isInteger(bitsPerSample)) {
+    switch (sampleFormat) {
+      case SampleFormat.Uint:
+        read = getUintReader(bits);
+        break;
+      case SampleFormat.Int:
+        read = getIntReader(bits);
+        break;
+      case SampleFormat.Float:
+        read = getFloatReader(bits);
+        break;
+      case SampleFormat.ComplexInt:
+        if (bits === 16 || bits === 32) read = getIntReader(bits);
+        break;
+      case SampleFormat.ComplexFloat:
+        read = getFloatReader(bits);
+        break;
+    }
+  }
+  if (read == null) throw new Error(`Unsupported sample type format:${format} bitsPerSample:${bitsPerSample}`);
+
+  const array = getArray(sampleFormat, bits);
+  return { format: sampleFormat, bitsPerSample, components, isPacked: bits % 8 !== 0, array, read };
+}
+
+/**
+ * Convert decompressed bytes into a typed array of samples
+ *
+ * Complex samples are read as a real value followed by a imaginary value,
+ * so the output has `count * type.components` values
+ *
+ * @param bytes decompressed bytes
+ * @param type sample type to read
+ * @param count number of samples to read, missing samples are left as 0
+ * @param isLittleEndian byte order of the samples
+ * @param samplesPerRow number of samples in each row, rows of packed samples start on a byte boundary
+ */
+export function readSamples(
+  bytes: ArrayBuffer,
+  type: SampleType,
+  count: number,
+  isLittleEndian: boolean,
+  samplesPerRow = count,
+): TypedArray {
+  const output = new type.array(count * type.components);
+  const view = new DataView(bytes);
+
+  if (type.isPacked) {
+    const rowBits = Math.ceil((samplesPerRow * type.bitsPerSample) / 8) * 8;
+    const byteLength = bytes.byteLength * 8;
+    for (let i = 0; i < count; i++) {
+      const offset = Math.floor(i / samplesPerRow) * rowBits + (i % samplesPerRow) * type.bitsPerSample;
+      if (offset + type.bitsPerSample > byteLength) break;
+      output[i] = type.read(view, offset, isLittleEndian) as number;
+    }
+    return output;
+  }
+
+  const byteSize = type.bitsPerSample / 8 / type.components;
+  const available = Math.min(output.length, Math.floor(bytes.byteLength / byteSize));
+
+  // Samples that are not widened and are single bytes or in the same byte order as the platform can be copied directly
+  const isWidened = type.array.BYTES_PER_ELEMENT !== byteSize;
+  if (!isWidened && (byteSize === 1 || isLittleEndian === IsLittleEndianPlatform)) {
+    // Typed arrays need to be aligned to their element size
+    const source = bytes.byteLength % byteSize === 0 ? bytes : bytes.slice(0, available * byteSize);
+    copySamples(output, new type.array(source, 0, available));
+    return output;
+  }
+
+  for (let i = 0; i < available; i++) output[i] = type.read(view, i * byteSize, isLittleEndian);
+  return output;
+}
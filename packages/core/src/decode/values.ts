@@ -0,0 +1,123 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { fetchGdalMetadata } from '../metadata/metadata.gdal.js';
+import { BoundingBox } from '../vector.js';
+import { toSampleNoData } from './sample.js';
+import { readWindow, RasterWindow, ReadWindowOptions } from './window.js';
+
+/**
+ * How nodata pixels are represented once decoded into physical values
+ *
+ * - `nan`: nodata samples are set to `NaN`
+ * - `mask`: nodata samples keep their scaled value and are flagged in {@link RasterValues.mask}
+ */
+export type NoDataMode = 'nan' | 'mask';
+
+/** Scale and offset of a band, `physical = raw * scale + offset` */
+export interface BandScale {
+  scale: number;
+  offset: number;
+}
+
+export interface ReadValuesOptions extends ReadWindowOptions {
+  /** How nodata pixels are represented, defaults to `nan` */
+  nodataMode?: NoDataMode;
+  /** Scale and offset for each band, defaults to the `SCALE` and `OFFSET` from the GDAL metadata */
+  scales?: BandScale[];
+}
+
+/** Physical values read from a window of a image */
+export interface RasterValues extends Omit<RasterWindow, 'pixels'> {
+  /** Physical value of every sample in the window */
+  pixels: Float32Array | Float64Array;
+  /** One entry for every sample, 1 if the sample is valid 0 if it is nodata, null unless the nodata mode is `mask` */
+  mask: Uint8Array | null;
+}
+
+export interface ToValuesOptions {
+  /** Scale and offset for each band, bands without a scale are not scaled */
+  scales: BandScale[];
+  /** Raw value that marks a sample as nodata */
+  nodata: number | null;
+  /** How nodata pixels are represented */
+  nodataMode: NoDataMode;
+}
+
+/**
+ * Apply the scale and offset of each band to raw samples and replace nodata samples
+ *
+ * Samples that are 8 or 16 bit or Float32 are output as a Float32Array, everything else as a Float64Array
+ *
+ * @param raster raw samples
+ * @param options scale, offset and nodata to apply
+ */
+export function toPhysicalValues(raster: RasterWindow, options: ToValuesOptions): RasterValues {
+  const source = raster.pixels;
+  const isFloat32 = source.BYTES_PER_ELEMENT <= 2 || source instanceof Float32Array;
+  const pixels = isFloat32 ? new Float32Array(source.length) : new Float64Array(source.length);
+  const mask = options.nodataMode === 'mask' ? new Uint8Array(source.length) : null;
+
+  const { scales } = options;
+  const nodata = options.nodata == null ? null : toSampleNoData(source, options.nodata);
+  const isNoDataNaN = nodata != null && isNaN(nodata);
+  const pixelCount = raster.width * raster.height;
+  const samplesPerPixel = raster.samplesPerPixel;
+
+  for (let i = 0; i < source.length; i++) {
+    const band = raster.interleave === 'pixel' ? i % samplesPerPixel : Math.floor(i / pixelCount);
+    const raw = Number(source[i]);
+
+    const isNoData = isNoDataNaN ? isNaN(raw) : raw === nodata;
+    const bandScale = scales[band];
+    const value = bandScale == null ? raw : raw * bandScale.scale + bandScale.offset;
+
+    if (mask) {
+      pixels[i] = value;
+      mask[i] = isNoData ? 0 : 1;
+    } else {
+      pixels[i] = isNoData ? NaN : value;
+    }
+  }
+
+  return { ...raster, pixels, mask };
+}
+
+/**
+ * Read a window of a image as physical values
+ *
+ * The GDAL scale and offset of each band are applied and nodata samples are turned into `NaN` or a mask
+ *
+ * @param image image to read from
+ * @param window pixel window to read
+ */
+export async function readValues(
+  image: CogTiffImage,
+  window: BoundingBox,
+  options: ReadValuesOptions = {},
+): Promise<RasterValues> {
+  const nodata = options.nodata ?? image.gdalNoData;
+  const [raster, scales] = await Promise.all([
+    readWindow(image, window, { ...options, nodata: nodata ?? undefined }),
+    options.scales ?? fetchBandScales(image),
+  ]);
+  return toPhysicalValues(raster, { scales, nodata, nodataMode: options.nodataMode ?? 'nan' });
+}
+
+/**
+ * Read the scale and offset of each band from the GDAL metadata
+ *
+ * Overviews do not store GDAL metadata so the metadata of the image they were created from is used
+ *
+ * @returns scale and offset for every band, bands without a scale or offset default to a scale of 1 and a offset of 0
+ */
+export async function fetchBandScales(image: CogTiffImage): Promise<BandScale[]> {
+  const metadata =
+    (await fetchGdalMetadata(image)) ?? (image.baseImage ? await fetchGdalMetadata(image.baseImage) : null);
+  const scales: BandScale[] = [];
+  for (let i = 0; i < (image.samplesPerPixel ?? 1); i++) scales.push({ scale: 1, offset: 0 });
+  if (metadata == null) return scales;
+  for (const band of metadata.bands) {
+    if (scales[band.sample] == null) continue;
+    scales[band.sample] = { scale: band.scale ?? 1, offset: band.offset ?? 0 };
+  }
+  return scales;
+}
@@ -0,0 +1,160 @@
+import type { CogTiffImage, CogTiffImageRasterOptions } from '../cog.tiff.image.js';
+import { SourceFetchOptions } from '../source.js';
+import { BoundingBox } from '../vector.js';
+import { DecodedRaster, getImageSampleType } from './decode.js';
+import { copySamples, TypedArray } from './sample.js';
+
+/**
+ * How samples are ordered in a window
+ *
+ * - `pixel`: samples of each pixel are together `RGBRGBRGB`
+ * - `band`: each band is stored one after another `RRRGGGBBB`
+ */
+export type RasterInterleave = 'pixel' | 'band';
+
+export interface ReadWindowOptions extends SourceFetchOptions {
+  /** Order of the output samples, defaults to `pixel` */
+  interleave?: RasterInterleave;
+  /** Value used for pixels that are outside of the image or in empty tiles, defaults to {@link CogTiffImage.gdalNoData} or 0 */
+  nodata?: number;
+}
+
+/** Pixels read from a window of a image */
+export interface RasterWindow extends BoundingBox {
+  /** Number of samples for each pixel */
+  samplesPerPixel: number;
+  /** Order of the samples in {@link pixels} */
+  interleave: RasterInterleave;
+  /** Samples for every pixel in the window */
+  pixels: TypedArray;
+}
+
+/** A decoded tile or strip and where it is located inside the image */
+interface RasterChunk {
+  x: number;
+  y: number;
+  raster: DecodedRaster | null;
+}
+
+/** Range of tiles that intersect with the window, null if the window is outside of the image */
+function getTileRange(image: CogTiffImage, window: BoundingBox): BoundingBox | null {
+  const { width, height } = image.size;
+  const tileSize = image.tileSize;
+  const startX = Math.max(0, window.x);
+  const startY = Math.max(0, window.y);
+  const endX = Math.min(width, window.x + window.width);
+  const endY = Math.min(height, window.y + window.height);
+  if (startX >= endX || startY >= endY) return null;
+
+  const x = Math.floor(startX / tileSize.width);
+  const y = Math.floor(startY / tileSize.height);
+  return { x, y, width: Math.ceil(endX / tileSize.width) - x, height: Math.ceil(endY / tileSize.height) - y };
+}
+
+/** Load all the tiles or strips that intersect with the window */
+function fetchChunks(
+  image: CogTiffImage,
+  window: BoundingBox,
+  options: CogTiffImageRasterOptions,
+): Promise<RasterChunk>[] {
+  if (image.isTiled()) {
+    const range = getTileRange(image, window);
+    if (range == null) return [];
+    const tileSize = image.tileSize;
+    const chunks: Promise<RasterChunk>[] = [];
+    for (let ty = range.y; ty < range.y + range.height; ty++) {
+      for (let tx = range.x; tx < range.x + range.width; tx++) {
+        const x = tx * tileSize.width;
+        const y = ty * tileSize.height;
+        chunks.push(image.getTileRaster(tx, ty, options).then((raster) => ({ x, y, raster })));
+      }
+    }
+    return chunks;
+  }
+
+  const startY = Math.max(0, window.y);
+  const endY = Math.min(image.size.height, window.y + window.height);
+  if (startY >= endY || window.x >= image.size.width || window.x + window.width <= 0) return [];
+
+  const rowsPerStrip = image.rowsPerStrip;
+  const chunks: Promise<RasterChunk>[] = [];
+  for (let index = Math.floor(startY / rowsPerStrip); index * rowsPerStrip < endY; index++) {
+    const y = index * rowsPerStrip;
+    chunks.push(image.getStripRaster(index, options).then((raster) => ({ x: 0, y, raster })));
+  }
+  return chunks;
+}
+
+/**
+ * Read a window of pixels from a image, stitching together all the tiles or strips that it covers
+ *
+ * Parts of the window that are outside of the image or inside empty tiles are filled with the nodata value
+ *
+ * @param image image to read from
+ * @param window pixel window to read
+ */
+export async function readWindow(
+  image: CogTiffImage,
+  window: BoundingBox,
+  options: ReadWindowOptions = {},
+): Promise<RasterWindow> {
+  if (window.width <= 0 || window.height <= 0) {
+    throw new Error(`Invalid window size width:${window.width} height:${window.height}`);
+  }
+
+  const interleave = options.interleave ?? 'pixel';
+  const type = getImageSampleType(image);
+  const samplesPerPixel = (image.samplesPerPixel ?? 1) * type.components;
+
+  const pixelCount = window.width * window.height;
+  const pixels = new type.array(pixelCount * samplesPerPixel);
+  const nodata = options.nodata ?? image.gdalNoData ?? 0;
+  if (nodata !== 0) {
+    if (pixels instanceof BigInt64Array || pixels instanceof BigUint64Array) {
+      if (Number.isInteger(nodata)) pixels.fill(BigInt(nodata));
+    } else {
+      pixels.fill(nodata);
+    }
+  }
+
+  // Load the offsets of every tile up front rather than one small request for each tile
+  const range = image.isTiled() ? getTileRange(image, window) : null;
+  if (range != null) {
+    const bands = Array.from({ length: image.planeCount }, (_, band) => band);
+    await Promise.all(bands.map((band) => image.preloadTileOffsets(range, { band, signal: options.signal })));
+  }
+
+  const chunks = await Promise.all(fetchChunks(image, window, { signal: options.signal, nodata }));
+  const { width, height } = image.size;
+  for (const chunk of chunks) {
+    const raster = chunk.raster;
+    if (raster == null) continue;
+
+    // Intersection of the chunk, the window and the image
+    const startX = Math.max(chunk.x, window.x, 0);
+    const startY = Math.max(chunk.y, window.y, 0);
+    const endX = Math.min(chunk.x + raster.width, window.x + window.width, width);
+    const endY = Math.min(chunk.y + raster.height, window.y + window.height, height);
+    if (startX >= endX || startY >= endY) continue;
+
+    const rowLength = endX - startX;
+    for (let y = startY; y < endY; y++) {
+      const sourceOffset = ((y - chunk.y) * raster.width + (startX - chunk.x)) * samplesPerPixel;
+      const targetPixel = (y - window.y) * window.width + (startX - window.x);
+
+      if (interleave === 'pixel') {
+        const row = raster.pixels.subarray(sourceOffset, sourceOffset + rowLength * samplesPerPixel);
+        copySamples(pixels, row, targetPixel * samplesPerPixel);
+        continue;
+      }
+
+      for (let x = 0; x < rowLength; x++) {
+        for (let s = 0; s < samplesPerPixel; s++) {
+          pixels[s * pixelCount + targetPixel + x] = raster.pixels[sourceOffset + x * samplesPerPixel + s];
+        }
+      }
+    }
+  }
+
+  return { ...window, samplesPerPixel, interleave, pixels };
+}
@@ -0,0 +1,254 @@
+import type { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTagGeo } from '../const/tiff.tag.id.js';
+import { ModelTypeKey } from '../const/tiff.tag.value.js';
+
+/** GeoKey value for a user defined code */
+export const UserDefinedGeoKey = 32767;
+
+/** EPSG unit codes */
+const Unit = { Metre: 9001, Foot: 9002, UsSurveyFoot: 9003, Radian: 9101, Degree: 9102 };
+
+/** Unit of a coordinate system or parameter */
+export interface CrsUnit {
+  /** EPSG code of the unit, null if user defined */
+  epsg: number | null;
+  /** Name of the unit eg "metre" */
+  name: string;
+  /** Size of the unit in metres or radians */
+  size: number;
+}
+
+/** Citations stored in the GeoAsciiParams */
+export interface CrsCitations {
+  model?: string;
+  geographic?: string;
+  projected?: string;
+  vertical?: string;
+}
+
+/** Coordinate reference system of a image, built from its GeoKeys */
+export interface CrsDescriptor {
+  /** Type of model from {@link TiffTagGeo.GTModelTypeGeoKey} */
+  modelType: ModelTypeKey | null;
+  /** Horizontal EPSG code, projected if the image is projected otherwise geographic, null if user defined */
+  epsg: number | null;
+  /** EPSG code of the projected CRS */
+  projectedEpsg: number | null;
+  /** EPSG code of the geographic CRS */
+  geographicEpsg: number | null;
+  /** EPSG code of the vertical CRS */
+  verticalEpsg: number | null;
+  /** Units of projected coordinates */
+  linearUnit: CrsUnit | null;
+  /** Units of geographic coordinates and angular parameters */
+  angularUnit: CrsUnit | null;
+  citations: CrsCitations;
+  /** PROJJSON description of the CRS, only created when the CRS is user defined */
+  projJson: ProjJson | null;
+}
+
+/** Subset of the PROJJSON schema used to describe user defined CRSs */
+export type ProjJson = Record<string, unknown>;
+
+/** PROJJSON method and EPSG code for each {@link TiffTagGeo.ProjCoordTransGeoKey} */
+const CoordTransforms: Record<number, { name: string; epsg: number }> = {
+  1: { name: 'Transverse Mercator', epsg: 9807 },
+  2: { name: 'Transverse Mercator (South Orientated)', epsg: 9808 },
+  3: { name: 'Hotine Oblique Mercator (variant B)', epsg: 9815 },
+  7: { name: 'Mercator (variant A)', epsg: 9804 },
+  8: { name: 'Lambert Conic Conformal (2SP)', epsg: 9802 },
+  9: { name: 'Lambert Conic Conformal (1SP)', epsg: 9801 },
+  10: { name: 'Lambert Azimuthal Equal Area', epsg: 9820 },
+  11: { name: 'Albers Equal Area', epsg: 9822 },
+  15: { name: 'Polar Stereographic (variant B)', epsg: 9829 },
+  16: { name: 'Oblique Stereographic', epsg: 9809 },
+  17: { name: 'Equidistant Cylindrical', epsg: 1028 },
+  24: { name: 'Transverse Mercator (South Orientated)', epsg: 9808 },
+};
+
+/** PROJJSON parameter name, EPSG code and unit type for each projection parameter GeoKey */
+const ProjectionParameters: [TiffTagGeo, string, number, 'angle' | 'linear' | 'scale'][] = [
+  [TiffTagGeo.ProjNatOriginLatGeoKey, 'Latitude of natural origin', 8801, 'angle'],
+  [TiffTagGeo.ProjNatOriginLongGeoKey, 'Longitude of natural origin', 8802, 'angle'],
+  [TiffTagGeo.ProjCenterLatGeoKey, 'Latitude of projection centre', 8811, 'angle'],
+  [TiffTagGeo.ProjCenterLongGeoKey, 'Longitude of projection centre', 8812, 'angle'],
+  [TiffTagGeo.ProjAzimuthAngleGeoKey, 'Azimuth of initial line', 8813, 'angle'],
+  [TiffTagGeo.ProjRectifiedGridAngleGeoKey, 'Angle from Rectified to Skew Grid', 8814, 'angle'],
+  [TiffTagGeo.ProjScaleAtNatOriginGeoKey, 'Scale factor at natural origin', 8805, 'scale'],
+  [TiffTagGeo.ProjScaleAtCenterGeoKey, 'Scale factor on initial line', 8815, 'scale'],
+  [TiffTagGeo.ProjFalseOriginLatGeoKey, 'Latitude of false origin', 8821, 'angle'],
+  [TiffTagGeo.ProjFalseOriginLongGeoKey, 'Longitude of false origin', 8822, 'angle'],
+  [TiffTagGeo.ProjStdParallel1GeoKey, 'Latitude of 1st standard parallel', 8823, 'angle'],
+  [TiffTagGeo.ProjStdParallel2GeoKey, 'Latitude of 2nd standard parallel', 8824, 'angle'],
+  [TiffTagGeo.ProjStraightVertPoleLongGeoKey, 'Longitude of origin', 8833, 'angle'],
+  [TiffTagGeo.ProjFalseEastingGeoKey, 'False easting', 8806, 'linear'],
+  [TiffTagGeo.ProjFalseNorthingGeoKey, 'False northing', 8807, 'linear'],
+  [TiffTagGeo.ProjFalseOriginEastingGeoKey, 'Easting at false origin', 8826, 'linear'],
+  [TiffTagGeo.ProjFalseOriginNorthingGeoKey, 'Northing at false origin', 8827, 'linear'],
+  [TiffTagGeo.ProjCenterEastingGeoKey, 'Easting at projection centre', 8816, 'linear'],
+  [TiffTagGeo.ProjCenterNorthingGeoKey, 'Northing at projection centre', 8817, 'linear'],
+];
+
+/** Read a numeric EPSG code from a geo key, user defined codes are returned as null */
+function getCode(image: CogTiffImage, key: TiffTagGeo): number | null {
+  const value = image.valueGeo(key);
+  if (typeof value !== 'number' || value === UserDefinedGeoKey || value === 0) return null;
+  return value;
+}
+
+function getNumber(image: CogTiffImage, key: TiffTagGeo): number | null {
+  const value = image.valueGeo(key);
+  return typeof value === 'number' ? value : null;
+}
+
+function getString(image: CogTiffImage, key: TiffTagGeo): string | undefined {
+  const value = image.valueGeo(key);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/** Find the unit from a unit code key and a user defined size key */
+function getUnit(image: CogTiffImage, codeKey: TiffTagGeo, sizeKey: TiffTagGeo): CrsUnit | null {
+  const code = getNumber(image, codeKey);
+  const size = getNumber(image, sizeKey);
+  if (code == null && size == null) return null;
+
+  if (code === Unit.Metre) return { epsg: code, name: 'metre', size: 1 };
+  if (code === Unit.Foot) return { epsg: code, name: 'foot', size: 0.3048 };
+  if (code === Unit.UsSurveyFoot) return { epsg: code, name: 'US survey foot', size: 1200 / 3937 };
+  if (code === Unit.Radian) return { epsg: code, name: 'radian', size: 1 };
+  if (code === Unit.Degree) return { epsg: code, name: 'degree', size: Math.PI / 180 };
+  const epsg = code == null || code === UserDefinedGeoKey ? null : code;
+  return { epsg, name: epsg ? `EPSG:${epsg}` : 'unknown', size: size ?? 1 };
+}
+
+/** Convert a unit into a PROJJSON unit */
+function toProjJsonUnit(unit: CrsUnit, type: 'LinearUnit' | 'AngularUnit'): ProjJson | string {
+  if (unit.name === 'metre' || unit.name === 'degree') return unit.name;
+  const projUnit: ProjJson = { type, name: unit.name, conversion_factor: unit.size };
+  if (unit.epsg) projUnit['id'] = { authority: 'EPSG', code: unit.epsg };
+  return projUnit;
+}
+
+const Degree: CrsUnit = { epsg: Unit.Degree, name: 'degree', size: Math.PI / 180 };
+const Metre: CrsUnit = { epsg: Unit.Metre, name: 'metre', size: 1 };
+
+/** Create a PROJJSON geographic CRS from the Geog* keys */
+function toGeographicProjJson(image: CogTiffImage, crs: CrsDescriptor): ProjJson {
+  const name = crs.citations.geographic ?? (crs.geographicEpsg ? `EPSG:${crs.geographicEpsg}` : 'unknown');
+  const geographic: ProjJson = { type: 'GeographicCRS', name };
+  if (crs.geographicEpsg) {
+    geographic['id'] = { authority: 'EPSG', code: crs.geographicEpsg };
+    return geographic;
+  }
+
+  const ellipsoid: ProjJson = { name: 'unknown' };
+  const ellipsoidCode = getCode(image, TiffTagGeo.GeogEllipsoidGeoKey);
+  if (ellipsoidCode) ellipsoid['id'] = { authority: 'EPSG', code: ellipsoidCode };
+  const semiMajor = getNumber(image, TiffTagGeo.GeogSemiMajorAxisGeoKey);
+  const semiMinor = getNumber(image, TiffTagGeo.GeogSemiMinorAxisGeoKey);
+  const invFlattening = getNumber(image, TiffTagGeo.GeogInvFlatteningGeoKey);
+  if (semiMajor != null) ellipsoid['semi_major_axis'] = semiMajor;
+  if (invFlattening != null) ellipsoid['inverse_flattening'] = invFlattening;
+  else if (semiMinor != null) ellipsoid['semi_minor_axis'] = semiMinor;
+
+  const datum: ProjJson = { type: 'GeodeticReferenceFrame', name: 'unknown', ellipsoid };
+  const datumCode = getCode(image, TiffTagGeo.GeogGeodeticDatumGeoKey);
+  if (datumCode) datum['id'] = { authority: 'EPSG', code: datumCode };
+  const primeMeridian = getNumber(image, TiffTagGeo.GeogPrimeMeridianLongGeoKey);
+  if (primeMeridian) datum['prime_meridian'] = { name: 'unknown', longitude: primeMeridian };
+  geographic['datum'] = datum;
+
+  const unit = toProjJsonUnit(crs.angularUnit ?? Degree, 'AngularUnit');
+  geographic['coordinate_system'] = {
+    subtype: 'ellipsoidal',
+    axis: [
+      { name: 'Geodetic latitude', abbreviation: 'Lat', direction: 'north', unit },
+      { name: 'Geodetic longitude', abbreviation: 'Lon', direction: 'east', unit },
+    ],
+  };
+  const toWgs84 = image.valueGeo(TiffTagGeo.GeogTOWGS84GeoKey);
+  if (Array.isArray(toWgs84)) geographic['remarks'] = `TOWGS84[${toWgs84.join(',')}]`;
+  return geographic;
+}
+
+/** Create a PROJJSON projected CRS from the Proj* keys */
+function toProjectedProjJson(image: CogTiffImage, crs: CrsDescriptor): ProjJson {
+  const name = crs.citations.projected ?? crs.citations.model ?? 'unknown';
+  const angularUnit = toProjJsonUnit(crs.angularUnit ?? Degree, 'AngularUnit');
+  const linearUnit = toProjJsonUnit(crs.linearUnit ?? Metre, 'LinearUnit');
+
+  const conversion: ProjJson = { name: 'unknown' };
+  const projectionCode = getCode(image, TiffTagGeo.ProjectionGeoKey);
+  if (projectionCode) conversion['id'] = { authority: 'EPSG', code: projectionCode };
+
+  const transform = getNumber(image, TiffTagGeo.ProjCoordTransGeoKey);
+  const method = transform == null ? null : CoordTransforms[transform];
+  if (method) conversion['method'] = { name: method.name, id: { authority: 'EPSG', code: method.epsg } };
+  else conversion['method'] = { name: transform == null ? 'unknown' : `GeoTIFF CT ${transform}` };
+
+  const parameters: ProjJson[] = [];
+  for (const [key, paramName, epsg, unitType] of ProjectionParameters) {
+    const value = getNumber(image, key);
+    if (value == null) continue;
+    const unit = unitType === 'angle' ? angularUnit : unitType === 'linear' ? linearUnit : 'unity';
+    parameters.push({ name: paramName, value, unit, id: { authority: 'EPSG', code: epsg } });
+  }
+  conversion['parameters'] = parameters;
+
+  return {
+    type: 'ProjectedCRS',
+    name,
+    base_crs: toGeographicProjJson(image, crs),
+    conversion,
+    coordinate_system: {
+      subtype: 'Cartesian',
+      axis: [
+        { name: 'Easting', abbreviation: 'E', direction: 'east', unit: linearUnit },
+        { name: 'Northing', abbreviation: 'N', direction: 'north', unit: linearUnit },
+      ],
+    },
+  };
+}
+
+/**
+ * Build a description of the coordinate reference system of a image from its GeoKeys
+ *
+ * @throws if {@link CogTiffImage.loadGeoTiffTags} has not been called
+ */
+export function getCrs(image: CogTiffImage): CrsDescriptor {
+  const modelType = getNumber(image, TiffTagGeo.GTModelTypeGeoKey) as ModelTypeKey | null;
+  const projectedEpsg = getCode(image, TiffTagGeo.ProjectedCSTypeGeoKey);
+  const geographicEpsg = getCode(image, TiffTagGeo.GeographicTypeGeoKey);
+
+  const citations: CrsCitations = {};
+  const model = getString(image, TiffTagGeo.GTCitationGeoKey);
+  if (model) citations.model = model;
+  const geographic = getString(image, TiffTagGeo.GeogCitationGeoKey);
+  if (geographic) citations.geographic = geographic;
+  const projected = getString(image, TiffTagGeo.PCSCitationGeoKey);
+  if (projected) citations.projected = projected;
+  const vertical = getString(image, TiffTagGeo.VerticalCitationGeoKey);
+  if (vertical) citations.vertical = vertical;
+
+  const isProjected = modelType === ModelTypeKey.Projected || (modelType == null && projectedEpsg != null);
+  const crs: CrsDescriptor = {
+    modelType,
+    epsg: isProjected ? projectedEpsg : geographicEpsg,
+    projectedEpsg,
+    geographicEpsg,
+    verticalEpsg: getCode(image, TiffTagGeo.VerticalCSTypeGeoKey),
+    linearUnit: getUnit(image, TiffTagGeo.ProjLinearUnitsGeoKey, TiffTagGeo.ProjLinearUnitSizeGeoKey),
+    angularUnit: getUnit(image, TiffTagGeo.GeogAngularUnitsGeoKey, TiffTagGeo.GeogAngularUnitSizeGeoKey),
+    citations,
+    projJson: null,
+  };
+
+  // Only user defined systems need a full definition
+  if (crs.epsg == null && modelType != null) {
+    if (modelType === ModelTypeKey.Projected) crs.projJson = toProjectedProjJson(image, crs);
+    else if (modelType === ModelTypeKey.Geographic) crs.projJson = toGeographicProjJson(image, crs);
+  }
+  if (crs.projJson) crs.projJson = { $schema: 'https://proj.org/schemas/v0.7/projjson.schema.json', ...crs.projJson };
+
+  return crs;
+}
@@ -0,0 +1,53 @@
+/**
+ * Six parameter affine transform from pixel to world coordinates, using the same ordering as GDAL
+ *
+ * `[originX, pixelWidth, rotationX, originY, rotationY, pixelHeight]`
+ *
+ * ```
+ * x = gt[0] + px * gt[1] + py * gt[2]
+ * y = gt[3] + px * gt[4] + py * gt[5]
+ * ```
+ */
+export type GeoTransform = [number, number, number, number, number, number];
+
+/**
+ * Convert a pixel location into world coordinates
+ *
+ * @param gt transform to apply
+ * @param px pixel x offset, can be fractional eg 0.5 is the center of the first pixel
+ * @param py pixel y offset
+ */
+export function applyGeoTransform(gt: GeoTransform, px: number, py: number): [number, number] {
+  return [gt[0] + px * gt[1] + py * gt[2], gt[3] + px * gt[4] + py * gt[5]];
+}
+
+/**
+ * Create the inverse of a geo transform, to convert world coordinates back into pixels
+ *
+ * @throws if the transform cannot be inverted
+ */
+export function invertGeoTransform(gt: GeoTransform): GeoTransform {
+  const det = gt[1] * gt[5] - gt[2] * gt[4];
+  if (det === 0 || !Number.isFinite(det)) throw new Error('Unable to invert geo transform: ' + gt);
+
+  const invDet = 1 / det;
+  return [
+    (gt[2] * gt[3] - gt[0] * gt[5]) * invDet,
+    gt[5] * invDet,
+    -gt[2] * invDet,
+    (gt[0] * gt[4] - gt[1] * gt[3]) * invDet,
+    -gt[4] * invDet,
+    gt[1] * invDet,
+  ];
+}
+
+/**
+ * Scale the pixels of a geo transform, eg to create the transform for a overview
+ *
+ * @param gt transform to scale
+ * @param scaleX number of source pixels per output pixel on the x axis
+ * @param scaleY number of source pixels per output pixel on the y axis
+ */
+export function scaleGeoTransform(gt: GeoTransform, scaleX: number, scaleY: number): GeoTransform {
+  return [gt[0], gt[1] * scaleX, gt[2] * scaleY, gt[3], gt[4] * scaleX, gt[5] * scaleY];
+}
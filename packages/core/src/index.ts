@@ -1,12 +1,79 @@
 export { CogTiff } from './cog.tiff.js';
-export { CogTiffImage } from './cog.tiff.image.js';
+export { CogTiffImage, CogTiffImageType } from './cog.tiff.image.js';
+export type {
+  CogTiffImageBandOptions,
+  CogTiffImageBytes,
+  CogTiffImageRasterOptions,
+  CogTiffImageTileOptions,
+  CogTiffImageTileRequest,
+  CogTiffImageTiles,
+  CogTiffImageTilesOptions,
+} from './cog.tiff.image.js';
 export { TiffEndian } from './const/tiff.endian.js';
 export { TiffCompression, TiffMimeType } from './const/tiff.mime.js';
-export { TiffTagGeo, TiffTag } from './const/tiff.tag.id.js';
-export { TiffTagValueType } from './const/tiff.tag.value.js';
+export { TiffTagGeo, TiffTag, TiffTagGps } from './const/tiff.tag.id.js';
+export type { TiffTagGeoNamed, TiffTagGeoType } from './const/tiff.tag.id.js';
+export {
+  PlanarConfiguration,
+  ModelTypeKey,
+  PhotometricInterpretation,
+  Predictor,
+  RasterTypeKey,
+  SampleFormat,
+  SubFileType,
+  TiffTagValueType,
+} from './const/tiff.tag.value.js';
 export { TiffVersion } from './const/tiff.version.js';
+export {
+  cmykToRgba,
+  colorToRgba,
+  DefaultYCbCrOptions,
+  getYCbCrByteLength,
+  labToRgba,
+  upsampleYCbCr,
+  ycbcrToRgba,
+} from './decode/color.js';
+export type { YCbCrOptions } from './decode/color.js';
+export { decodeImageBytes, getImageSampleType } from './decode/decode.js';
+export type { DecodedRaster } from './decode/decode.js';
+export { decompress, Decompressors } from './decode/decompress.js';
+export type { DecompressContext, Decompressor } from './decode/decompress.js';
+export { combinePlanes } from './decode/raster.js';
+export type { RasterTile } from './decode/raster.js';
+export { readRegion } from './decode/region.js';
+export type { RasterRegion, ReadRegionOptions } from './decode/region.js';
+export { resample } from './decode/resample.js';
+export type { ResampleMethod, ResampleOptions, ResampleSource } from './decode/resample.js';
+export { expandPalette, toColorTable, toRgba } from './decode/rgba.js';
+export type { RgbaRaster } from './decode/rgba.js';
+export { getSampleType, readSamples } from './decode/sample.js';
+export type { SampleType, TypedArray, TypedArrayConstructor } from './decode/sample.js';
+export { fetchBandScales, readValues, toPhysicalValues } from './decode/values.js';
+export type { BandScale, NoDataMode, RasterValues, ReadValuesOptions, ToValuesOptions } from './decode/values.js';
+export { readWindow } from './decode/window.js';
+export type { RasterInterleave, RasterWindow, ReadWindowOptions } from './decode/window.js';
+export { TiffBlockIntegrityError } from './read/tiff.gdal.js';
+export type { TiffBlockIntegrityCheck } from './read/tiff.gdal.js';
 export { TagInline, TagLazy, TagOffset, Tag } from './read/tiff.tag.js';
+export { getCrs, UserDefinedGeoKey } from './geo/geo.crs.js';
+export type { CrsCitations, CrsDescriptor, CrsUnit, ProjJson } from './geo/geo.crs.js';
+export { applyGeoTransform, invertGeoTransform, scaleGeoTransform } from './geo/geo.transform.js';
+export type { GeoTransform } from './geo/geo.transform.js';
 export { getTiffTagSize } from './read/tiff.value.reader.js';
+export { fetchExifMetadata, fetchGpsMetadata, parseExifDate } from './metadata/metadata.exif.js';
+export type { ExifMetadata, GpsMetadata } from './metadata/metadata.exif.js';
+export { fetchGdalMetadata, parseGdalMetadata, parseGdalNoData } from './metadata/metadata.gdal.js';
+export type { GdalBandMetadata, GdalBandStatistics, GdalMetadata, GdalMetadataItem } from './metadata/metadata.gdal.js';
+export { fetchIccProfile, parseIccProfile } from './metadata/metadata.icc.js';
+export type { IccProfile } from './metadata/metadata.icc.js';
+export { fetchIptcMetadata, findPhotoshopResource, IptcDataSet, parseIptc } from './metadata/metadata.iptc.js';
+export type { IptcMetadata } from './metadata/metadata.iptc.js';
+export { fetchXmpMetadata, parseXmp } from './metadata/metadata.xmp.js';
+export type { XmpMetadata } from './metadata/metadata.xmp.js';
 export { Source } from './source.js';
+export type { SourceFetchOptions } from './source.js';
+export { SourceCache } from './source.cache.js';
+export type { SourceCacheOptions, SourceCacheStats } from './source.cache.js';
+export { isAbortError, TiffAbortError } from './util/util.abort.js';
 export { toHex } from './util/util.hex.js';
 export type { BoundingBox, Point, Size, Vector } from './vector.js';
@@ -0,0 +1,55 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { TiffTagValueType } from '../const/tiff.tag.value.js';
+
+/**
+ * Fetch a tag that stores a binary blob (eg XMP, IPTC or ICC profiles) as raw bytes
+ *
+ * Blobs are generally stored as `Undefined` or `Uint8` but some writers use `Uint32` or `Ascii`,
+ * so the values are packed back into bytes using the byte order of the tiff
+ *
+ * @returns bytes of the tag, null if the tag does not exist
+ */
+export async function fetchTagBytes(image: CogTiffImage, tag: TiffTag): Promise<Uint8Array | null> {
+  const value = await image.fetch<number | number[] | string>(tag);
+  const sourceTag = image.tags.get(tag);
+  if (value == null || sourceTag == null) return null;
+  if (typeof value === 'string') return Uint8Array.from(value, (c) => c.charCodeAt(0));
+
+  const values = Array.isArray(value) ? value : [value];
+  switch (sourceTag.dataType) {
+    case TiffTagValueType.Uint8:
+    case TiffTagValueType.Int8:
+    case TiffTagValueType.Undefined:
+      return Uint8Array.from(values);
+    case TiffTagValueType.Uint16: {
+      const bytes = new Uint8Array(values.length * 2);
+      const view = new DataView(bytes.buffer);
+      values.forEach((v, i) => view.setUint16(i * 2, v, image.tiff.isLittleEndian));
+      return bytes;
+    }
+    case TiffTagValueType.Uint32: {
+      const bytes = new Uint8Array(values.length * 4);
+      const view = new DataView(bytes.buffer);
+      values.forEach((v, i) => view.setUint32(i * 4, v, image.tiff.isLittleEndian));
+      return bytes;
+    }
+    default:
+      throw new Error(`Unable to read tag ${TiffTag[tag]} as bytes, type: ${TiffTagValueType[sourceTag.dataType]}`);
+  }
+}
+
+/** Decode UTF-8 bytes into a string removing any trailing null bytes */
+export function decodeUtf8(bytes: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(bytes).replace(/\0+$/, '');
+}
+
+/** Decode the five predefined XML entities */
+export function decodeXmlEntities(str: string): string {
+  return str
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
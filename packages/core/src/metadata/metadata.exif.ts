@@ -0,0 +1,191 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag, TiffTagGps } from '../const/tiff.tag.id.js';
+import { fetchTagBytes } from './metadata.bytes.js';
+
+/** Commonly used EXIF values, read from the image and its EXIF directory */
+export interface ExifMetadata {
+  /** Manufacturer of the camera */
+  make?: string;
+  /** Model of the camera */
+  model?: string;
+  /** Software used to create the image */
+  software?: string;
+  /** When the image was captured */
+  dateTimeOriginal?: Date;
+  /** When the image was stored digitally */
+  dateTimeDigitized?: Date;
+  /** Exposure time in seconds */
+  exposureTime?: number;
+  /** F number of the lens */
+  fNumber?: number;
+  /** ISO speed of the sensor */
+  isoSpeed?: number;
+  /** Focal length of the lens in millimeters */
+  focalLength?: number;
+  /** Unique identifier of the image */
+  imageUniqueId?: string;
+  /** Maker note, the format of this is manufacturer specific */
+  makerNote?: Uint8Array;
+}
+
+/** Position information from the GPS directory */
+export interface GpsMetadata {
+  /** Latitude in decimal degrees, negative values are south */
+  latitude?: number;
+  /** Longitude in decimal degrees, negative values are west */
+  longitude?: number;
+  /** Altitude in meters, negative values are below sea level */
+  altitude?: number;
+  /** Time of the GPS fix (UTC) */
+  timestamp?: Date;
+  /** Direction the image was captured in, in degrees */
+  imageDirection?: number;
+  /** Geodetic datum used by the GPS eg "WGS-84" */
+  mapDatum?: string;
+}
+
+/**
+ * Parse a EXIF date time which is formatted as `YYYY:MM:DD HH:MM:SS`
+ *
+ * EXIF date times do not include a timezone, if no offset is provided the time is assumed to be UTC
+ *
+ * @param dateTime EXIF date time
+ * @param offset timezone offset eg "+12:00"
+ * @returns the date, null if the date is invalid
+ */
+export function parseExifDate(dateTime: string, offset = 'Z'): Date | null {
+  const match = dateTime.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (match == null) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset.trim()}`);
+  if (isNaN(date.getTime())) return null;
+  return date;
+}
+
+/** GPS tags are stored in their own namespace */
+function gpsTag(tag: TiffTagGps): TiffTag {
+  return tag as number;
+}
+
+/** Read a tag as a string, null if the tag is missing or is not a string eg it is stored as BYTE or UNDEFINED */
+async function fetchString(image: CogTiffImage, tag: TiffTag): Promise<string | null> {
+  const value = await image.fetch<unknown>(tag);
+  if (typeof value !== 'string') return null;
+  return value;
+}
+
+/** Read a GPS tag as a string, null if the tag is missing or is not a string */
+function fetchGpsString(gps: CogTiffImage, tag: TiffTagGps): Promise<string | null> {
+  return fetchString(gps, gpsTag(tag));
+}
+
+/** Read a GPS tag as a list of numbers converting any rationals into decimals, null if the tag is missing or is not numeric */
+async function fetchGpsNumbers(gps: CogTiffImage, tag: TiffTagGps): Promise<number[] | null> {
+  const value: unknown = await gps.fetchDecimal(gpsTag(tag));
+  if (value == null) return null;
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  if (values.length === 0) return null;
+  for (const v of values) if (typeof v !== 'number') return null;
+  return values as number[];
+}
+
+/** Convert a list of degrees, minutes and seconds into decimal degrees */
+function toDegrees(dms: number[] | null, ref: string | null, negativeRef: string): number | undefined {
+  if (dms == null) return undefined;
+  const [degrees = 0, minutes = 0, seconds = 0] = dms;
+  const value = degrees + minutes / 60 + seconds / 3600;
+  if (ref?.trim().toUpperCase() === negativeRef) return -value;
+  return value;
+}
+
+function toNumber(value: number | number[] | null): number | undefined {
+  if (value == null) return undefined;
+  if (Array.isArray(value)) return value[0];
+  return value;
+}
+
+/**
+ * Read the EXIF metadata of a image
+ *
+ * @returns EXIF metadata, null if the image does not have a EXIF directory
+ */
+export async function fetchExifMetadata(image: CogTiffImage): Promise<ExifMetadata | null> {
+  const exif = await image.fetchExif();
+  if (exif == null) return null;
+
+  const [make, model, software, original, digitized, offset, makerNote] = await Promise.all([
+    fetchString(image, TiffTag.Make),
+    fetchString(image, TiffTag.Model),
+    fetchString(image, TiffTag.Software),
+    fetchString(exif, TiffTag.DateTimeOriginal),
+    fetchString(exif, TiffTag.DateTimeDigitized),
+    fetchString(exif, TiffTag.OffsetTimeOriginal),
+    fetchTagBytes(exif, TiffTag.MakerNote),
+  ]);
+  const [exposureTime, fNumber, isoSpeed, focalLength] = await Promise.all([
+    exif.fetchDecimal(TiffTag.ExposureTime),
+    exif.fetchDecimal(TiffTag.FNumber),
+    exif.fetchDecimal(TiffTag.ISOSpeedRatings),
+    exif.fetchDecimal(TiffTag.FocalLength),
+  ]);
+  const imageUniqueId = await fetchString(exif, TiffTag.ImageUniqueID);
+
+  const metadata: ExifMetadata = {};
+  if (make != null) metadata.make = make.trim();
+  if (model != null) metadata.model = model.trim();
+  if (software != null) metadata.software = software.trim();
+  if (original != null) metadata.dateTimeOriginal = parseExifDate(original, offset ?? undefined) ?? undefined;
+  if (digitized != null) metadata.dateTimeDigitized = parseExifDate(digitized, offset ?? undefined) ?? undefined;
+  if (exposureTime != null) metadata.exposureTime = toNumber(exposureTime);
+  if (fNumber != null) metadata.fNumber = toNumber(fNumber);
+  if (isoSpeed != null) metadata.isoSpeed = toNumber(isoSpeed);
+  if (focalLength != null) metadata.focalLength = toNumber(focalLength);
+  if (imageUniqueId != null) metadata.imageUniqueId = imageUniqueId.trim();
+  if (makerNote != null) metadata.makerNote = makerNote;
+  return metadata;
+}
+
+/**
+ * Read the GPS position of a image
+ *
+ * @returns GPS metadata, null if the image does not have a GPS directory
+ */
+export async function fetchGpsMetadata(image: CogTiffImage): Promise<GpsMetadata | null> {
+  const gps = await image.fetchGps();
+  if (gps == null) return null;
+
+  const [latRef, lonRef, dateStamp, mapDatum] = await Promise.all([
+    fetchGpsString(gps, TiffTagGps.GPSLatitudeRef),
+    fetchGpsString(gps, TiffTagGps.GPSLongitudeRef),
+    fetchGpsString(gps, TiffTagGps.GPSDateStamp),
+    fetchGpsString(gps, TiffTagGps.GPSMapDatum),
+  ]);
+  const [lat, lon, altRef, alt, timeStamp, imageDirection] = await Promise.all([
+    fetchGpsNumbers(gps, TiffTagGps.GPSLatitude),
+    fetchGpsNumbers(gps, TiffTagGps.GPSLongitude),
+    fetchGpsNumbers(gps, TiffTagGps.GPSAltitudeRef),
+    fetchGpsNumbers(gps, TiffTagGps.GPSAltitude),
+    fetchGpsNumbers(gps, TiffTagGps.GPSTimeStamp),
+    fetchGpsNumbers(gps, TiffTagGps.GPSImgDirection),
+  ]);
+
+  const metadata: GpsMetadata = {};
+  const latitude = toDegrees(lat, latRef, 'S');
+  if (latitude != null) metadata.latitude = latitude;
+  const longitude = toDegrees(lon, lonRef, 'W');
+  if (longitude != null) metadata.longitude = longitude;
+
+  const altitude = toNumber(alt);
+  // Altitude ref of 1 is below sea level
+  if (altitude != null) metadata.altitude = toNumber(altRef) === 1 ? -altitude : altitude;
+
+  if (dateStamp != null && timeStamp != null) {
+    const [hour = 0, minute = 0, second = 0] = timeStamp;
+    const date = parseExifDate(`${dateStamp.trim()} 00:00:00`);
+    if (date != null) metadata.timestamp = new Date(date.getTime() + ((hour * 60 + minute) * 60 + second) * 1000);
+  }
+  const direction = toNumber(imageDirection);
+  if (direction != null) metadata.imageDirection = direction;
+  if (mapDatum != null) metadata.mapDatum = mapDatum.trim();
+  return metadata;
+}
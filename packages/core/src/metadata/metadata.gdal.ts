@@ -0,0 +1,179 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { decodeXmlEntities } from './metadata.bytes.js';
+
+/** A single `<Item>` from the GDAL metadata */
+export interface GdalMetadataItem {
+  name: string;
+  value: string;
+  /** Band index (0 based) if the item is for a band */
+  sample?: number;
+  /** Role of a band item eg "scale", "offset", "description" */
+  role?: string;
+  /** Metadata domain, items without a domain are in the default domain */
+  domain?: string;
+}
+
+/** Statistics of a band, from the `STATISTICS_*` items */
+export interface GdalBandStatistics {
+  minimum?: number;
+  maximum?: number;
+  mean?: number;
+  stdDev?: number;
+  validPercent?: number;
+}
+
+/** Metadata for a single band */
+export interface GdalBandMetadata {
+  /** Band index (0 based) */
+  sample: number;
+  description?: string;
+  /** Values should be multiplied by the scale to get physical values */
+  scale?: number;
+  /** Offset added to the scaled values to get physical values */
+  offset?: number;
+  /** Unit of the values eg "m" */
+  unitType?: string;
+  /** Colour interpretation eg "Red", "Alpha" */
+  colorInterpretation?: string;
+  statistics: GdalBandStatistics;
+  /** Items in the default domain that are not parsed into a specific field */
+  items: Record<string, string>;
+  /** Items in other domains, keyed by domain */
+  domains: Record<string, Record<string, string>>;
+}
+
+/** Structured GDAL metadata from {@link TiffTag.GdalMetadata} */
+export interface GdalMetadata {
+  /** Dataset level items in the default domain */
+  items: Record<string, string>;
+  /** Dataset level items in other domains, keyed by domain */
+  domains: Record<string, Record<string, string>>;
+  /** Per band metadata, ordered by band index */
+  bands: GdalBandMetadata[];
+  /** Every item in the order it was stored */
+  raw: GdalMetadataItem[];
+}
+
+const ItemRegex = /<Item\b([^>]*?)(?:\/>|>([\s\S]*?)<\/Item>)/g;
+const AttributeRegex = /([\w-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/** Band items that are parsed into a specific field */
+const StatisticKeys: Record<string, keyof GdalBandStatistics> = {
+  STATISTICS_MINIMUM: 'minimum',
+  STATISTICS_MAXIMUM: 'maximum',
+  STATISTICS_MEAN: 'mean',
+  STATISTICS_STDDEV: 'stdDev',
+  STATISTICS_VALID_PERCENT: 'validPercent',
+};
+
+function toNumber(value: string): number | undefined {
+  const num = Number(value.trim());
+  return isNaN(num) ? undefined : num;
+}
+
+function getBand(bands: GdalBandMetadata[], sample: number): GdalBandMetadata {
+  let band = bands[sample];
+  if (band == null) {
+    band = { sample, statistics: {}, items: {}, domains: {} };
+    bands[sample] = band;
+  }
+  return band;
+}
+
+/** Apply a band item to the band, returns false if the item is not a known band field */
+function applyBandItem(band: GdalBandMetadata, item: GdalMetadataItem): boolean {
+  const key = item.role ?? item.name.toLowerCase();
+  switch (key) {
+    case 'description':
+      band.description = item.value;
+      return true;
+    case 'scale':
+      band.scale = toNumber(item.value);
+      return true;
+    case 'offset':
+      band.offset = toNumber(item.value);
+      return true;
+    case 'unittype':
+      band.unitType = item.value;
+      return true;
+    case 'colorinterp':
+      band.colorInterpretation = item.value;
+      return true;
+  }
+  const statistic = StatisticKeys[item.name];
+  if (statistic == null) return false;
+  const value = toNumber(item.value);
+  if (value != null) band.statistics[statistic] = value;
+  return true;
+}
+
+/**
+ * Parse the `<GDALMetadata>` XML that GDAL writes into {@link TiffTag.GdalMetadata}
+ *
+ * @param xml GDAL metadata XML
+ * @returns parsed metadata, null if the xml is not GDAL metadata
+ */
+export function parseGdalMetadata(xml: string): GdalMetadata | null {
+  if (!xml.includes('<GDALMetadata')) return null;
+  const output: GdalMetadata = { items: {}, domains: {}, bands: [], raw: [] };
+
+  for (const match of xml.matchAll(ItemRegex)) {
+    const item: GdalMetadataItem = { name: '', value: decodeXmlEntities(match[2] ?? '') };
+    for (const attr of match[1].matchAll(AttributeRegex)) {
+      const value = decodeXmlEntities(attr[2] ?? attr[3]);
+      if (attr[1] === 'name') item.name = value;
+      else if (attr[1] === 'sample') item.sample = Number(value);
+      else if (attr[1] === 'role') item.role = value;
+      else if (attr[1] === 'domain') item.domain = value;
+    }
+    output.raw.push(item);
+
+    const band = item.sample == null || isNaN(item.sample) ? null : getBand(output.bands, item.sample);
+    const target = band ?? output;
+    if (item.domain) {
+      const domain = target.domains[item.domain] ?? {};
+      domain[item.name] = item.value;
+      target.domains[item.domain] = domain;
+      continue;
+    }
+    if (band && applyBandItem(band, item)) continue;
+    target.items[item.name] = item.value;
+  }
+
+  // Remove any gaps from bands that have no metadata
+  output.bands = output.bands.filter((f) => f != null);
+  return output;
+}
+
+/**
+ * Read and parse the GDAL metadata of a image
+ *
+ * @returns GDAL metadata, null if the image has no GDAL metadata
+ */
+export async function fetchGdalMetadata(image: CogTiffImage): Promise<GdalMetadata | null> {
+  const xml = await image.fetch(TiffTag.GdalMetadata);
+  if (typeof xml !== 'string') return null;
+  return parseGdalMetadata(xml);
+}
+
+/**
+ * Parse a GDAL nodata value, GDAL stores nodata as ASCII eg `"-9999"`, `"nan"` or `"-inf"`
+ *
+ * @param value value of {@link TiffTag.GdalNoData}
+ * @returns the nodata value, null if there is no value or it is not a number
+ */
+export function parseGdalNoData(value: string | number | null | undefined): number | null {
+  if (value == null) return null;
+  if (typeof value === 'number') return value;
+
+  const str = value.replace(/\0+$/, '').trim().toLowerCase();
+  if (str === '') return null;
+  if (str === 'nan' || str === '-nan' || str === '+nan') return NaN;
+  if (str === 'inf' || str === '+inf' || str === 'infinity') return Infinity;
+  if (str === '-inf' || str === '-infinity') return -Infinity;
+
+  const num = Number(str);
+  if (isNaN(num)) return null;
+  return num;
+}
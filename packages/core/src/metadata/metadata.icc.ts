@@ -0,0 +1,135 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { fetchTagBytes } from './metadata.bytes.js';
+import { findPhotoshopResource, PhotoshopResourceIcc } from './metadata.iptc.js';
+
+/**
+ * Header information from a ICC profile
+ *
+ * @see https://www.color.org/specification/ICC.1-2022-05.pdf
+ */
+export interface IccProfile {
+  /** Size of the profile in bytes */
+  size: number;
+  /** Preferred colour management module eg "lcms" */
+  cmm: string;
+  /** Profile version eg "4.3.0" */
+  version: string;
+  /** Profile/device class eg "mntr" for display devices */
+  deviceClass: string;
+  /** Colour space of the data eg "RGB", "CMYK" or "GRAY" */
+  colorSpace: string;
+  /** Profile connection space, either "XYZ" or "Lab" */
+  connectionSpace: string;
+  /** When the profile was created */
+  created: Date | null;
+  /** Human readable description of the profile eg "sRGB IEC61966-2.1" */
+  description: string | null;
+  /** Raw bytes of the profile */
+  bytes: Uint8Array;
+}
+
+/** ICC profiles always have a "acsp" signature at byte 36 */
+const IccSignature = 0x61637370;
+
+function readSignature(view: DataView, offset: number): string {
+  let str = '';
+  for (let i = 0; i < 4; i++) str += String.fromCharCode(view.getUint8(offset + i));
+  return str.replace(/\0/g, '').trim();
+}
+
+/** Read a `desc` (ICC v2) or `mluc` (ICC v4) text element */
+function readDescription(view: DataView, offset: number, size: number): string | null {
+  const type = readSignature(view, offset);
+  if (type === 'desc') {
+    const length = view.getUint32(offset + 8, false);
+    let str = '';
+    for (let i = 0; i < length && 12 + i < size; i++) str += String.fromCharCode(view.getUint8(offset + 12 + i));
+    return str.replace(/\0+$/, '');
+  }
+  if (type === 'mluc') {
+    const recordCount = view.getUint32(offset + 8, false);
+    if (recordCount === 0) return null;
+    // Use the first record, generally "enUS"
+    const length = view.getUint32(offset + 20, false);
+    const stringOffset = view.getUint32(offset + 24, false);
+    let str = '';
+    for (let i = 0; i < length; i += 2) str += String.fromCharCode(view.getUint16(offset + stringOffset + i, false));
+    return str.replace(/\0+$/, '');
+  }
+  return null;
+}
+
+/**
+ * Parse the header and description of a ICC profile
+ *
+ * @param bytes raw ICC profile
+ * @throws if the bytes are not a ICC profile
+ */
+export function parseIccProfile(bytes: Uint8Array): IccProfile {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < 132 || view.getUint32(36, false) !== IccSignature) {
+    throw new Error('Invalid ICC profile, missing "acsp" signature');
+  }
+
+  const major = view.getUint8(8);
+  const minor = view.getUint8(9) >> 4;
+  const bugFix = view.getUint8(9) & 0x0f;
+
+  const year = view.getUint16(24, false);
+  const created =
+    year === 0
+      ? null
+      : new Date(
+          Date.UTC(
+            year,
+            view.getUint16(26, false) - 1,
+            view.getUint16(28, false),
+            view.getUint16(30, false),
+            view.getUint16(32, false),
+            view.getUint16(34, false),
+          ),
+        );
+
+  let description: string | null = null;
+  const tagCount = view.getUint32(128, false);
+  for (let i = 0; i < tagCount; i++) {
+    const entry = 132 + i * 12;
+    if (entry + 12 > bytes.byteLength) break;
+    if (readSignature(view, entry) !== 'desc') continue;
+    const offset = view.getUint32(entry + 4, false);
+    const size = view.getUint32(entry + 8, false);
+    if (offset + size > bytes.byteLength) break;
+    description = readDescription(view, offset, size);
+    break;
+  }
+
+  return {
+    size: view.getUint32(0, false),
+    cmm: readSignature(view, 4),
+    version: `${major}.${minor}.${bugFix}`,
+    deviceClass: readSignature(view, 12),
+    colorSpace: readSignature(view, 16),
+    connectionSpace: readSignature(view, 20),
+    created,
+    description,
+    bytes,
+  };
+}
+
+/**
+ * Read and parse the ICC profile of a image
+ *
+ * The profile is either stored in its own tag or inside of the Photoshop image resources
+ *
+ * @returns ICC profile, null if the image does not have a profile
+ */
+export async function fetchIccProfile(image: CogTiffImage): Promise<IccProfile | null> {
+  let bytes = await fetchTagBytes(image, TiffTag.ICCProfile);
+  if (bytes == null) {
+    const photoshop = await fetchTagBytes(image, TiffTag.Photoshop);
+    if (photoshop != null) bytes = findPhotoshopResource(photoshop, PhotoshopResourceIcc);
+  }
+  if (bytes == null) return null;
+  return parseIccProfile(bytes);
+}
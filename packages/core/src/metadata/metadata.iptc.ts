@@ -0,0 +1,125 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { decodeUtf8, fetchTagBytes } from './metadata.bytes.js';
+
+/**
+ * Names of the commonly used IPTC IIM datasets from the application record (record 2)
+ *
+ * @see https://www.iptc.org/std/IIM/4.2/specification/IIMV4.2.pdf
+ */
+export const IptcDataSet: Record<number, string> = {
+  5: 'objectName',
+  25: 'keywords',
+  55: 'dateCreated',
+  60: 'timeCreated',
+  80: 'byline',
+  85: 'bylineTitle',
+  90: 'city',
+  92: 'subLocation',
+  95: 'provinceState',
+  100: 'countryCode',
+  101: 'country',
+  105: 'headline',
+  110: 'credit',
+  115: 'source',
+  116: 'copyright',
+  120: 'caption',
+  122: 'writer',
+};
+
+/** IPTC datasets that can be repeated */
+const IptcRepeatable = new Set(['keywords', 'byline', 'bylineTitle', 'writer']);
+
+/**
+ * IPTC values keyed by their dataset name, see {@link IptcDataSet},
+ * unknown datasets are keyed by `record:dataset` eg "2:200"
+ */
+export type IptcMetadata = Record<string, string | string[]>;
+
+/** Photoshop image resource that contains the IPTC-NAA record */
+const PhotoshopResourceIptc = 0x0404;
+/** Photoshop image resource that contains the ICC profile */
+export const PhotoshopResourceIcc = 0x040f;
+
+/**
+ * Parse IPTC IIM records
+ *
+ * @param bytes raw IPTC bytes
+ */
+export function parseIptc(bytes: Uint8Array): IptcMetadata {
+  const output: IptcMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 5 <= bytes.byteLength) {
+    // Every record starts with a tag marker
+    if (bytes[offset] !== 0x1c) {
+      offset++;
+      continue;
+    }
+    const record = bytes[offset + 1];
+    const dataSet = bytes[offset + 2];
+    const length = view.getUint16(offset + 3, false);
+    // Extended datasets (length > 32767) are not used for text values
+    if (length & 0x8000) break;
+    const start = offset + 5;
+    offset = start + length;
+    if (offset > bytes.byteLength) break;
+    // Record 1 is the envelope and the record version numbers are binary
+    if (record !== 2 || dataSet === 0) continue;
+
+    const key = IptcDataSet[dataSet] ?? `${record}:${dataSet}`;
+    const value = decodeUtf8(bytes.subarray(start, offset)).trim();
+    const existing = output[key];
+    if (IptcRepeatable.has(key)) {
+      output[key] = Array.isArray(existing) ? [...existing, value] : [value];
+    } else {
+      output[key] = value;
+    }
+  }
+  return output;
+}
+
+/**
+ * Find a image resource inside of a Photoshop image resource block
+ *
+ * @param bytes raw Photoshop ({@link TiffTag.Photoshop}) bytes
+ * @param resourceId resource to find
+ * @returns resource data, null if the resource does not exist
+ */
+export function findPhotoshopResource(bytes: Uint8Array, resourceId: number): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+  while (offset + 12 <= bytes.byteLength) {
+    // '8BIM'
+    if (view.getUint32(offset, false) !== 0x3842494d) return null;
+    const id = view.getUint16(offset + 4, false);
+    // Pascal string name, padded to a even length
+    const nameLength = bytes[offset + 6];
+    offset += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (offset + 4 > bytes.byteLength) return null;
+    const size = view.getUint32(offset, false);
+    offset += 4;
+    if (id === resourceId) return bytes.subarray(offset, Math.min(offset + size, bytes.byteLength));
+    // Resource data is padded to a even length
+    offset += size + (size % 2);
+  }
+  return null;
+}
+
+/**
+ * Read and parse the IPTC metadata of a image
+ *
+ * IPTC is either stored in its own tag or inside of the Photoshop image resources
+ *
+ * @returns IPTC values, null if the image does not have any IPTC metadata
+ */
+export async function fetchIptcMetadata(image: CogTiffImage): Promise<IptcMetadata | null> {
+  const iptc = await fetchTagBytes(image, TiffTag.IPTC);
+  if (iptc != null) return parseIptc(iptc);
+
+  const photoshop = await fetchTagBytes(image, TiffTag.Photoshop);
+  if (photoshop == null) return null;
+  const resource = findPhotoshopResource(photoshop, PhotoshopResourceIptc);
+  if (resource == null) return null;
+  return parseIptc(resource);
+}
@@ -0,0 +1,58 @@
+import { CogTiffImage } from '../cog.tiff.image.js';
+import { TiffTag } from '../const/tiff.tag.id.js';
+import { decodeUtf8, decodeXmlEntities, fetchTagBytes } from './metadata.bytes.js';
+
+/**
+ * XMP properties keyed by their qualified name eg `xmp:CreateDate` or `drone-dji:GimbalYawDegree`
+ *
+ * Properties that are lists (`rdf:Seq`, `rdf:Bag` or `rdf:Alt`) are returned as arrays
+ */
+export type XmpMetadata = Record<string, string | string[]>;
+
+const DescriptionRegex = /<rdf:Description\b([^>]*?)(\/>|>([\s\S]*?)<\/rdf:Description>)/g;
+const AttributeRegex = /([\w.-]+:[\w.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+const PropertyRegex = /<([\w.-]+:[\w.-]+)\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1>)/g;
+const ListItemRegex = /<rdf:li\b[^>]*>([\s\S]*?)<\/rdf:li>/g;
+
+/**
+ * Parse a XMP packet into key value pairs
+ *
+ * This is not a full RDF parser, it reads the attributes and simple child properties of every `rdf:Description`
+ *
+ * @param xmp XMP packet
+ */
+export function parseXmp(xmp: string): XmpMetadata {
+  const output: XmpMetadata = {};
+  for (const description of xmp.matchAll(DescriptionRegex)) {
+    for (const attr of description[1].matchAll(AttributeRegex)) {
+      const key = attr[1];
+      if (key.startsWith('rdf:') || key.startsWith('xmlns:')) continue;
+      output[key] = decodeXmlEntities(attr[2] ?? attr[3]);
+    }
+
+    const body = description[3];
+    if (body == null) continue;
+    for (const prop of body.matchAll(PropertyRegex)) {
+      const key = prop[1];
+      const value = prop[2];
+      if (key.startsWith('rdf:') || value == null) continue;
+      if (value.includes('<rdf:li')) {
+        output[key] = [...value.matchAll(ListItemRegex)].map((li) => decodeXmlEntities(li[1].trim()));
+      } else if (!value.includes('<')) {
+        output[key] = decodeXmlEntities(value.trim());
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Read and parse the XMP metadata of a image
+ *
+ * @returns XMP properties, null if the image has no XMP metadata
+ */
+export async function fetchXmpMetadata(image: CogTiffImage): Promise<XmpMetadata | null> {
+  const bytes = await fetchTagBytes(image, TiffTag.XMP);
+  if (bytes == null) return null;
+  return parseXmp(decodeUtf8(bytes));
+}
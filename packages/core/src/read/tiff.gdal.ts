@@ -18,6 +18,40 @@ export enum GhostOptionTileLeader {
   uint32 = 'SIZE_AS_UINT4',
 }
 
+export enum GhostOptionTileTrailer {
+  LastFourBytesRepeated = 'LAST_4_BYTES_REPEATED',
+}
+
+/** Part of a GDAL block that failed validation */
+export type TiffBlockIntegrityCheck = 'leader' | 'trailer' | 'truncated';
+
+/**
+ * A tile does not match its GDAL block leader or trailer,
+ * this generally means the file has been truncated or overwritten
+ */
+export class TiffBlockIntegrityError extends Error {
+  /** Id of the image that the tile belongs to */
+  imageId: number;
+  /** Tile x offset */
+  x: number;
+  /** Tile y offset */
+  y: number;
+  /** Offset of the tile data in the file */
+  offset: number;
+  /** Which check failed */
+  check: TiffBlockIntegrityCheck;
+
+  constructor(message: string, imageId: number, x: number, y: number, offset: number, check: TiffBlockIntegrityCheck) {
+    super(message);
+    this.name = 'TiffBlockIntegrityError';
+    this.imageId = imageId;
+    this.x = x;
+    this.y = y;
+    this.offset = offset;
+    this.check = check;
+  }
+}
+
 /**
  * GDAL has made a ghost set of options for Tiff files
  * this class represents the optimizations that GDAL has applied
@@ -79,6 +113,25 @@ export class CogTifGhostOptions {
     }
   }
 
+  /**
+   * If the tile trailer is set, how many bytes are repeated after the tile
+   */
+  get tileTrailerByteSize(): ByteSize | null {
+    switch (this.options.get(GhostOption.BlockTrailer)) {
+      case GhostOptionTileTrailer.LastFourBytesRepeated:
+        return ByteSize.UInt32;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Order that the tiles are stored in, defaults to {@link GhostOptionTileOrder.RowMajor}
+   */
+  get tileOrder(): string {
+    return this.options.get(GhostOption.BlockOrder) ?? GhostOptionTileOrder.RowMajor;
+  }
+
   get isMaskInterleaved(): boolean {
     return this.options.get(GhostOption.MaskInterleavedWithImagery) === 'YES';
   }
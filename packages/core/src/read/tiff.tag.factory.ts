@@ -1,7 +1,9 @@
 import { CogTiff } from '../cog.tiff.js';
 import { TiffTag } from '../const/tiff.tag.id.js';
 import { TiffTagValueType } from '../const/tiff.tag.value.js';
-import { getUint, getUint64 } from '../util/bytes.js';
+import { SourceFetchOptions } from '../source.js';
+import { getInt64Value, getUint, getUint64Value } from '../util/bytes.js';
+import { fetchSource, throwIfAborted } from '../util/util.abort.js';
 import { DataViewOffset, hasBytes } from './data.view.offset.js';
 import { Tag, TagLazy, TagOffset } from './tiff.tag.js';
 import { getTiffTagSize } from './tiff.value.reader.js';
@@ -30,6 +32,7 @@ function readTagValue(
       return bytes.getInt16(offset, isLittleEndian);
 
     case TiffTagValueType.Uint32:
+    case TiffTagValueType.Ifd:
       return bytes.getUint32(offset, isLittleEndian);
 
     case TiffTagValueType.Int32:
@@ -48,7 +51,12 @@ function readTagValue(
       return bytes.getFloat32(offset, isLittleEndian);
 
     case TiffTagValueType.Uint64:
-      return getUint64(bytes, offset, isLittleEndian);
+    case TiffTagValueType.Ifd8:
+      return getUint64Value(bytes, offset, isLittleEndian);
+
+    case TiffTagValueType.Int64:
+      return getInt64Value(bytes, offset, isLittleEndian);
+
     default:
       throw new Error(`Unknown read type "${fieldType}" "${TiffTagValueType[fieldType]}"`);
   }
@@ -129,12 +137,31 @@ export function createTag(tiff: CogTiff, view: DataViewOffset, offset: number):
   return { type: 'lazy', id: tagId, count: dataCount, dataOffset, dataType, tagOffset: offset };
 }
 
+/**
+ * Convert a rational tag value from `[numerator, denominator]` pairs into decimals
+ *
+ * Values from tags that are not rationals are returned as is
+ *
+ * @param tag tag the value was read from
+ * @param value value of the tag
+ */
+export function toDecimal(tag: Tag, value: unknown): number | number[] {
+  if (tag.dataType !== TiffTagValueType.Rational && tag.dataType !== TiffTagValueType.SignedRational) {
+    return value as number | number[];
+  }
+  if (tag.count === 1) {
+    const [numerator, denominator] = value as [number, number];
+    return numerator / denominator;
+  }
+  return (value as [number, number][]).map(([numerator, denominator]) => numerator / denominator);
+}
+
 /** Fetch the value from a {@link TagLazy} tag */
-export async function fetchLazy<T>(tag: TagLazy<T>, tiff: CogTiff): Promise<T> {
+export async function fetchLazy<T>(tag: TagLazy<T>, tiff: CogTiff, options?: SourceFetchOptions): Promise<T> {
   if (tag.value != null) return tag.value;
   const dataTypeSize = getTiffTagSize(tag.dataType);
   const dataLength = dataTypeSize * tag.count;
-  const bytes = await tiff.source.fetch(tag.dataOffset, dataLength);
+  const bytes = await fetchSource(tiff.source, tag.dataOffset, dataLength, options);
   const view = new DataView(bytes);
   tag.value = readValue(tiff, view, 0, tag.dataType, tag.count);
   return tag.value as T;
@@ -143,11 +170,11 @@ export async function fetchLazy<T>(tag: TagLazy<T>, tiff: CogTiff): Promise<T> {
 /**
  * Fetch all the values from a {@link TagOffset}
  */
-export async function fetchAllOffsets(tiff: CogTiff, tag: TagOffset): Promise<number[]> {
+export async function fetchAllOffsets(tiff: CogTiff, tag: TagOffset, options?: SourceFetchOptions): Promise<number[]> {
   const dataTypeSize = getTiffTagSize(tag.dataType);
 
   if (tag.view == null) {
-    const bytes = await tiff.source.fetch(tag.dataOffset, dataTypeSize * tag.count);
+    const bytes = await fetchSource(tiff.source, tag.dataOffset, dataTypeSize * tag.count, options);
     tag.view = new DataView(bytes) as DataViewOffset;
     tag.view.sourceOffset = tag.dataOffset;
   }
@@ -164,14 +191,24 @@ export function setBytes(tag: TagOffset, view: DataViewOffset): void {
   tag.view.sourceOffset = tag.dataOffset;
 }
 
-/** Partially fetch the values of a {@link TagOffset} and return the value for the offset */
-export async function getValueAt(tiff: CogTiff, tag: TagOffset, index: number): Promise<number> {
+/**
+ * Partially fetch the values of a {@link TagOffset} and return the value for the offset
+ *
+ * @throws {@link TiffAbortError} if the signal is aborted before the value is loaded
+ */
+export async function getValueAt(
+  tiff: CogTiff,
+  tag: TagOffset,
+  index: number,
+  options?: SourceFetchOptions,
+): Promise<number> {
   if (index > tag.count || index < 0) throw new Error('TagOffset: out of bounds :' + index);
   if (tag.value[index] != null) return tag.value[index];
+  throwIfAborted(options?.signal);
   const dataTypeSize = getTiffTagSize(tag.dataType);
 
   if (tag.view == null) {
-    const bytes = await tiff.source.fetch(tag.dataOffset + index * dataTypeSize, dataTypeSize);
+    const bytes = await fetchSource(tiff.source, tag.dataOffset + index * dataTypeSize, dataTypeSize, options);
     const view = new DataView(bytes);
     const value = readValue(tiff, view, 0, tag.dataType, 1) as number;
     tag.value[index] = value;
@@ -182,3 +219,48 @@ export async function getValueAt(tiff: CogTiff, tag: TagOffset, index: number):
   tag.value[index] = value;
   return value;
 }
+
+/**
+ * Fetch a contiguous range of values from a {@link TagOffset} with a single request
+ *
+ * Values are stored in the sparse {@link TagOffset.value} array that {@link getValueAt} reads from,
+ * values at either end of the range that are already loaded are not fetched again
+ *
+ * @param start index of the first value
+ * @param count number of values to load
+ * @param options signal to abort the read
+ * @returns true if the values were fetched from the source, false if they were already loaded
+ */
+export async function fetchOffsetRange(
+  tiff: CogTiff,
+  tag: TagOffset,
+  start: number,
+  count: number,
+  options?: SourceFetchOptions,
+): Promise<boolean> {
+  if (start < 0 || count < 0 || start + count > tag.count) {
+    throw new Error(`TagOffset: out of bounds :${start} count:${count}`);
+  }
+  if (tag.isLoaded) return false;
+
+  let first = start;
+  let last = start + count - 1;
+  while (first <= last && tag.value[first] != null) first++;
+  while (last >= first && tag.value[last] != null) last--;
+  if (first > last) return false;
+
+  const dataTypeSize = getTiffTagSize(tag.dataType);
+  const length = last - first + 1;
+  let view = tag.view as DataView | undefined;
+  let offset = first * dataTypeSize;
+  const isFetched = view == null;
+  if (view == null) {
+    view = new DataView(await fetchSource(tiff.source, tag.dataOffset + offset, length * dataTypeSize, options));
+    offset = 0;
+  }
+
+  const value = readValue<number | number[]>(tiff, view, offset, tag.dataType, length);
+  const values = Array.isArray(value) ? value : [value];
+  for (let i = 0; i < values.length; i++) tag.value[first + i] = values[i];
+  return isFetched;
+}
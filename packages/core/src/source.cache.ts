@@ -0,0 +1,205 @@
+import { Source, SourceFetchOptions } from './source.js';
+import { fetchSource, raceAbort, throwIfAborted } from './util/util.abort.js';
+
+export interface SourceCacheOptions {
+  /** Reads are aligned to chunks of this many bytes, defaults to 64KB */
+  chunkSize?: number;
+  /** Maximum number of chunks to keep, the least recently used chunks are removed first, defaults to 256 */
+  maxChunks?: number;
+}
+
+/** Counters of how chunks were read by a {@link SourceCache} */
+export interface SourceCacheStats {
+  /** Chunks read from the cache */
+  hits: number;
+  /** Chunks that were not cached and had to be fetched */
+  misses: number;
+  /** Chunks that were already being fetched by another read */
+  deduplicated: number;
+  /** Requests made to the wrapped source */
+  requests: number;
+  /** Chunks removed from the cache to make space for newer chunks */
+  evictions: number;
+}
+
+/**
+ * Chunked cache around any {@link Source}
+ *
+ * Reads are aligned to {@link SourceCacheOptions.chunkSize} so overlapping header, offset and tile reads share chunks,
+ * chunks are kept in a least recently used cache and chunks that are already being fetched are not fetched again.
+ *
+ * This is a small dependency free alternative to `@chunkd/middleware`
+ *
+ * @example
+ * ```typescript
+ * const source = new SourceCache(new SourceHttp('https://example.com/cog.tiff'), { chunkSize: 32 * 1024 });
+ * const tiff = await CogTiff.create(source);
+ * source.stats; // { hits: 3, misses: 1, ... }
+ * ```
+ */
+export class SourceCache implements Source {
+  /** Source that chunks are fetched from */
+  source: Source;
+  /** Size of each chunk in bytes */
+  chunkSize: number;
+  /** Maximum number of chunks to keep */
+  maxChunks: number;
+  /** Chunk read counters */
+  stats: SourceCacheStats = { hits: 0, misses: 0, deduplicated: 0, requests: 0, evictions: 0 };
+
+  /** Loaded chunks by chunk id, ordered from least to most recently used */
+  private chunks = new Map<number, ArrayBuffer>();
+  /** Chunks that are currently being fetched */
+  private inFlight = new Map<number, Promise<ArrayBuffer>>();
+  /** Incremented by {@link clear} so chunks that were in flight are not stored in the cleared cache */
+  private generation = 0;
+
+  constructor(source: Source, options: SourceCacheOptions = {}) {
+    this.source = source;
+    this.chunkSize = options.chunkSize ?? 64 * 1024;
+    this.maxChunks = options.maxChunks ?? 256;
+    if (!Number.isInteger(this.chunkSize) || this.chunkSize <= 0) {
+      throw new Error('Invalid chunk size: ' + this.chunkSize);
+    }
+    if (!Number.isInteger(this.maxChunks) || this.maxChunks <= 0) {
+      throw new Error('Invalid max chunks: ' + this.maxChunks);
+    }
+  }
+
+  get url(): URL {
+    return this.source.url;
+  }
+
+  get metadata(): Source['metadata'] {
+    return this.source.metadata;
+  }
+
+  /** Number of chunks in the cache */
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Fetch bytes from the cache, fetching any missing chunks from the source
+   *
+   * Reads from the end of the file (negative offsets) and reads without a length
+   * are passed directly to the source unless the size of the source is known
+   *
+   * Chunks can be shared between reads, so aborting a read stops waiting for its chunks
+   * but does not cancel the chunk requests to the source
+   */
+  async fetch(offset: number, length?: number, options?: SourceFetchOptions): Promise<ArrayBuffer> {
+    const size = this.source.metadata?.size;
+    if (offset < 0 && size != null) offset = Math.max(0, size + offset);
+    if (length == null && size != null) length = Math.max(0, size - offset);
+    if (offset < 0 || length == null) {
+      this.stats.requests++;
+      return fetchSource(this.source, offset, length, options);
+    }
+    throwIfAborted(options?.signal);
+    if (length <= 0) return new ArrayBuffer(0);
+
+    const firstChunk = Math.floor(offset / this.chunkSize);
+    const lastChunk = Math.floor((offset + length - 1) / this.chunkSize);
+    const chunks = await raceAbort(Promise.all(this.getChunks(firstChunk, lastChunk)), options?.signal);
+
+    const output = new Uint8Array(length);
+    let outputLength = 0;
+    for (let i = 0; i < chunks.length; i++) {
+      const chunkOffset = (firstChunk + i) * this.chunkSize;
+      const start = Math.max(offset - chunkOffset, 0);
+      const end = Math.min(offset + length - chunkOffset, chunks[i].byteLength);
+      if (start >= end) break;
+      output.set(new Uint8Array(chunks[i], start, end - start), chunkOffset + start - offset);
+      outputLength = chunkOffset + end - offset;
+      // Short chunks are the end of the file
+      if (chunks[i].byteLength < this.chunkSize) break;
+    }
+    return outputLength === length ? output.buffer : output.buffer.slice(0, outputLength);
+  }
+
+  /**
+   * Remove every chunk from the cache
+   *
+   * Reads that are already waiting on chunks still receive them, but those chunks are not stored in the cache
+   */
+  clear(): void {
+    this.chunks.clear();
+    this.inFlight.clear();
+    this.generation++;
+  }
+
+  async close(): Promise<void> {
+    this.clear();
+    await this.source.close?.();
+  }
+
+  /** Find every chunk in the range, consecutive chunks that are missing are fetched with one request */
+  private getChunks(firstChunk: number, lastChunk: number): Promise<ArrayBuffer>[] {
+    const output: (Promise<ArrayBuffer> | null)[] = [];
+    for (let id = firstChunk; id <= lastChunk; id++) output.push(this.lookup(id));
+
+    for (let i = 0; i < output.length; i++) {
+      if (output[i] != null) continue;
+      let end = i;
+      while (end + 1 < output.length && output[end + 1] == null) end++;
+      const fetched = this.fetchChunks(firstChunk + i, firstChunk + end);
+      for (let j = 0; j < fetched.length; j++) output[i + j] = fetched[j];
+      i = end;
+    }
+    return output as Promise<ArrayBuffer>[];
+  }
+
+  /** Find a chunk that is cached or already being fetched, null if the chunk needs to be fetched */
+  private lookup(id: number): Promise<ArrayBuffer> | null {
+    const cached = this.chunks.get(id);
+    if (cached != null) {
+      // Move the chunk to the most recently used position
+      this.chunks.delete(id);
+      this.chunks.set(id, cached);
+      this.stats.hits++;
+      return Promise.resolve(cached);
+    }
+    const inFlight = this.inFlight.get(id);
+    if (inFlight != null) this.stats.deduplicated++;
+    return inFlight ?? null;
+  }
+
+  /** Fetch a range of chunks from the source with a single request */
+  private fetchChunks(firstChunk: number, lastChunk: number): Promise<ArrayBuffer>[] {
+    const count = lastChunk - firstChunk + 1;
+    this.stats.misses += count;
+    this.stats.requests++;
+    const request = this.source.fetch(firstChunk * this.chunkSize, count * this.chunkSize);
+    const generation = this.generation;
+
+    const output: Promise<ArrayBuffer>[] = [];
+    for (let i = 0; i < count; i++) {
+      const id = firstChunk + i;
+      const chunk: Promise<ArrayBuffer> = request
+        .then((bytes) => {
+          const data = bytes.slice(i * this.chunkSize, (i + 1) * this.chunkSize);
+          // The cache was cleared while the chunk was being fetched
+          if (generation === this.generation) this.set(id, data);
+          return data;
+        })
+        .finally(() => {
+          // Only remove this request, a newer request for the chunk may have started after a clear
+          if (this.inFlight.get(id) === chunk) this.inFlight.delete(id);
+        });
+      this.inFlight.set(id, chunk);
+      output.push(chunk);
+    }
+    return output;
+  }
+
+  /** Store a chunk removing the least recently used chunks if the cache is full */
+  private set(id: number, data: ArrayBuffer): void {
+    this.chunks.set(id, data);
+    while (this.chunks.size > this.maxChunks) {
+      const oldest = this.chunks.keys().next().value as number;
+      this.chunks.delete(oldest);
+      this.stats.evictions++;
+    }
+  }
+}
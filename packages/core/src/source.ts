@@ -12,9 +12,20 @@ export interface Source {
     size?: number;
   };
 
-  /** Fetch bytes from a source */
-  fetch(offset: number, length?: number): Promise<ArrayBuffer>;
+  /**
+   * Fetch bytes from a source
+   *
+   * Sources that do not support cancellation can ignore the options,
+   * aborted reads are still rejected once the signal is aborted
+   */
+  fetch(offset: number, length?: number, options?: SourceFetchOptions): Promise<ArrayBuffer>;
 
   /** Optionally close the source, useful for sources that have open connections of file descriptors */
   close?(): Promise<void>;
 }
+
+/** Options passed to {@link Source.fetch} */
+export interface SourceFetchOptions {
+  /** Abort the read, aborted reads reject with a {@link TiffAbortError} */
+  signal?: AbortSignal;
+}
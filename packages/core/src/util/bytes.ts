@@ -30,6 +30,30 @@ export function getUint64(view: DataView, offset: number, isLittleEndian: boolea
   return combined;
 }
 
+/**
+ * Read a uint64 at the offset
+ *
+ * Numbers larger than {@link Number.MAX_SAFE_INTEGER} are returned as a bigint so no precision is lost
+ * @param offset offset to read
+ */
+export function getUint64Value(view: DataView, offset: number, isLittleEndian: boolean): number | bigint {
+  const value = view.getBigUint64(offset, isLittleEndian);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) return value;
+  return Number(value);
+}
+
+/**
+ * Read a int64 at the offset
+ *
+ * Numbers outside of the safe integer range are returned as a bigint so no precision is lost
+ * @param offset offset to read
+ */
+export function getInt64Value(view: DataView, offset: number, isLittleEndian: boolean): number | bigint {
+  const value = view.getBigInt64(offset, isLittleEndian);
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) return value;
+  return Number(value);
+}
+
 export function getUint(view: DataView, offset: number, bs: ByteSize, isLittleEndian: boolean): number {
   switch (bs) {
     case ByteSize.UInt8:
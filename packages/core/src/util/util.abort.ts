@@ -0,0 +1,69 @@
+import { Source, SourceFetchOptions } from '../source.js';
+
+/**
+ * A read was cancelled with a {@link AbortSignal}
+ *
+ * The name is `AbortError` to match the error that `fetch` rejects with when it is aborted
+ */
+export class TiffAbortError extends Error {
+  /** Reason the signal was aborted with, see {@link AbortSignal.reason} */
+  reason: unknown;
+
+  constructor(reason?: unknown) {
+    super(reason instanceof Error ? 'Read aborted: ' + reason.message : 'Read aborted');
+    this.name = 'AbortError';
+    this.reason = reason;
+  }
+}
+
+/** Is this error from a aborted read */
+export function isAbortError(err: unknown): err is TiffAbortError {
+  return err instanceof TiffAbortError;
+}
+
+/**
+ * Stop early if the signal has been aborted
+ *
+ * @throws {@link TiffAbortError} if the signal is aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw new TiffAbortError(signal.reason);
+}
+
+/**
+ * Reject as soon as the signal is aborted, even if the promise has not settled
+ *
+ * @throws {@link TiffAbortError} if the signal is aborted
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (signal == null) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(new TiffAbortError(signal.reason));
+    if (signal.aborted) return onAbort();
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Fetch bytes from a source passing the abort signal through to the source
+ *
+ * Sources that ignore the signal still have their reads rejected when it is aborted,
+ * errors from sources that were aborted are replaced with a {@link TiffAbortError}
+ */
+export async function fetchSource(
+  source: Source,
+  offset: number,
+  length?: number,
+  options?: SourceFetchOptions,
+): Promise<ArrayBuffer> {
+  const signal = options?.signal;
+  if (signal == null) return source.fetch(offset, length);
+  throwIfAborted(signal);
+  try {
+    return await raceAbort(source.fetch(offset, length, { signal }), signal);
+  } catch (err) {
+    if (signal.aborted && !isAbortError(err)) throw new TiffAbortError(signal.reason);
+    throw err;
+  }
+}